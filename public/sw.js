@@ -0,0 +1,105 @@
+/*
+ * Service worker: keeps Minesweeper playable offline.
+ *
+ * - index.html and the scripts and styles it links are cached on install, with the manifest and icons.
+ * - Pages are served from the cache at once and refreshed from the network behind the scenes; when
+ *   the fresh index.html differs, its files are cached too and open pages get an `update-available`
+ *   message so they can offer a reload.
+ * - Build files have content hashes in their names, so anything else loaded later (such as the
+ *   analysis worker) is cached the first time and never changes.
+ *
+ * Bump VERSION when this file's caching rules change; the new worker waits until the page says
+ * `skip-waiting`, so a game in progress is never swapped out from under the player.
+ */
+const VERSION = 1;
+const SHELL_CACHE = `ms-shell-v${VERSION}`;
+const ASSET_CACHE = `ms-assets-v${VERSION}`;
+const STATIC_FILES = ['/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    await (await caches.open(ASSET_CACHE)).addAll(STATIC_FILES);
+    const response = await fetch('/', { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`index.html: HTTP ${response.status}`);
+    await cachePage(response);
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== SHELL_CACHE && k !== ASSET_CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting();
+  // A reload onto a new version: start the file cache over from what the new index.html links.
+  if (event.data?.type === 'drop-assets') {
+    event.waitUntil(caches.delete(ASSET_CACHE).then(async () => {
+      const page = await (await caches.open(SHELL_CACHE)).match('/');
+      const cache = await caches.open(ASSET_CACHE);
+      await cache.addAll(STATIC_FILES);
+      if (page) await cache.addAll(linkedFiles(await page.text()));
+    }));
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (request.mode === 'navigate') event.respondWith(servePage(event));
+  else event.respondWith(serveFile(request));
+});
+
+/** Every route is the same single-page app, so every navigation gets the cached index.html. */
+async function servePage(event) {
+  const cached = await (await caches.open(SHELL_CACHE)).match('/');
+  const fresh = fetch('/', { cache: 'no-cache' }).then(async response => {
+    if (!response.ok) return response;
+    const changed = !cached || await response.clone().text() !== await cached.clone().text();
+    if (changed) {
+      await cachePage(response.clone());
+      if (cached) await notify({ type: 'update-available' });
+    }
+    return response;
+  });
+  if (!cached) return fresh.catch(() => Response.error());
+  event.waitUntil(fresh.catch(() => undefined));
+  return cached;
+}
+
+async function serveFile(request) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const copy = response.clone();
+    caches.open(ASSET_CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+}
+
+/** Store index.html, and the files it links, so the page starts offline. */
+async function cachePage(response) {
+  const html = await response.clone().text();
+  await (await caches.open(ASSET_CACHE)).addAll(linkedFiles(html));
+  await (await caches.open(SHELL_CACHE)).put('/', response);
+}
+
+/** Local scripts, styles and preloads named in `src` and `href` attributes of index.html. */
+function linkedFiles(html) {
+  const files = new Set();
+  for (const match of html.matchAll(/\s(?:src|href)="([^"]+)"/g)) {
+    const url = new URL(match[1], self.location.origin);
+    if (url.origin === self.location.origin && /\.(js|css)$/.test(url.pathname)) files.add(url.pathname);
+  }
+  return [...files];
+}
+
+async function notify(message) {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of clients) client.postMessage(message);
+}
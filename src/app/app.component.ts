@@ -1,10 +1,11 @@
 import { Component } from '@angular/core';
 import { RouterModule, RouterLinkActive } from '@angular/router';
+import { PwaPromptComponent } from './components/pwa-prompt/pwa-prompt.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterModule, RouterLinkActive],
+  imports: [RouterModule, RouterLinkActive, PwaPromptComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.css']
 })
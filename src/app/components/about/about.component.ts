@@ -17,7 +17,7 @@ import { CommonModule } from '@angular/common';
       <li>First-click safety & flood-fill reveal</li>
       <li>Number-click <em>chording</em> (auto-reveal neighbors)</li>
       <li>Best times persisted per difficulty</li>
-      <li>Hints (3 per game)</li>
+      <li>Logic hints that explain the deduction (3 per game)</li>
     </ul>
   </div>
   `
@@ -0,0 +1,56 @@
+import { Component, DestroyRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Achievement } from '../../models/achievement';
+import { AchievementService } from '../../services/achievement.service';
+
+/** How long an unlock toast stays up. */
+const TOAST_MS = 5000;
+
+/** Pops up a toast for each achievement unlocked while this is on screen. */
+@Component({
+  selector: 'app-achievement-toasts',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+  <div class="toasts" aria-live="polite">
+    <div class="toast" *ngFor="let a of toasts" role="status">
+      <span class="icon" aria-hidden="true">{{ a.icon }}</span>
+      <span><strong>Achievement unlocked: {{ a.title }}</strong><br>{{ a.description }}
+        <a routerLink="/achievements">All achievements</a></span>
+      <button (click)="dismiss(a)" [attr.aria-label]="'Dismiss ' + a.title">×</button>
+    </div>
+  </div>
+  `,
+  styles: [`
+    .toasts { position: fixed; right: 16px; bottom: 16px; display: flex; flex-direction: column; gap: 8px; z-index: 10; }
+    .toast {
+      display: flex; align-items: center; gap: 10px; max-width: 340px; padding: .6rem .8rem; border-radius: 10px;
+      background: var(--panel); border: 1px solid var(--hint-safe); color: var(--text);
+      box-shadow: 0 6px 18px rgba(0, 0, 0, .3); animation: slide-in .25s ease-out;
+    }
+    .icon { font-size: 1.6rem; }
+    .toast a { color: var(--link); font-size: .85rem; }
+    .toast button { margin-left: auto; padding: 0 6px; }
+    @keyframes slide-in { from { transform: translateY(12px); opacity: 0; } }
+  `]
+})
+export class AchievementToastsComponent {
+  toasts: Achievement[] = [];
+  private readonly timers = new Map<Achievement, ReturnType<typeof setTimeout>>();
+
+  constructor() {
+    inject(AchievementService).unlocked$.pipe(takeUntilDestroyed()).subscribe(a => {
+      this.toasts = [...this.toasts, a];
+      this.timers.set(a, setTimeout(() => this.dismiss(a), TOAST_MS));
+    });
+    inject(DestroyRef).onDestroy(() => this.timers.forEach(clearTimeout));
+  }
+
+  dismiss(a: Achievement): void {
+    clearTimeout(this.timers.get(a));
+    this.timers.delete(a);
+    this.toasts = this.toasts.filter(t => t !== a);
+  }
+}
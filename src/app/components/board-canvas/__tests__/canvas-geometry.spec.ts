@@ -0,0 +1,28 @@
+import { canvasGeometry, cellAt, cellOrigin, visibleCells } from '../canvas-geometry';
+
+describe('Canvas board geometry', () => {
+  it('maps points to square cells and back', () => {
+    const g = canvasGeometry(500, 500, 'square', 20);
+    expect(g.width).toBe(10_000);
+    expect(cellAt(g, 0, 0)).toEqual({ x: 0, y: 0 });
+    expect(cellAt(g, 419.5, 20)).toEqual({ x: 20, y: 1 });
+    expect(cellOrigin(g, 20, 1)).toEqual({ left: 400, top: 20 });
+    expect(cellAt(g, 10_000, 5)).toBeNull();
+  });
+
+  it('hit-tests hexagons by their drawn outline, including the offset rows', () => {
+    const g = canvasGeometry(4, 4, 'hex', 20);
+    // Row 1 is shifted half a cell right and starts 3/4 of a cell down.
+    expect(cellOrigin(g, 0, 1)).toEqual({ left: 10, top: 15 });
+    expect(cellAt(g, 20, 25)).toEqual({ x: 0, y: 1 });
+    // Just inside row 0's lower point vs. just inside row 1's upper-left corner.
+    expect(cellAt(g, 10, 19)).toEqual({ x: 0, y: 0 });
+    expect(cellAt(g, 19, 17)).toEqual({ x: 0, y: 1 });
+  });
+
+  it('limits drawing to the cells overlapping the viewport', () => {
+    const g = canvasGeometry(500, 500, 'square', 20);
+    expect(visibleCells(g, 1000, 2000, 400, 300)).toEqual({ x0: 49, x1: 70, y0: 99, y1: 115 });
+    expect(visibleCells(g, 0, 0, 10_000, 10_000)).toEqual({ x0: 0, x1: 499, y0: 0, y1: 499 });
+  });
+});
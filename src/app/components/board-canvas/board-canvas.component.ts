@@ -0,0 +1,315 @@
+import {
+  AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild,
+  inject,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { skip } from 'rxjs';
+import { Board, EXPLODED, FLAGGED, MINE, QUESTION, REVEALED } from '../../models/board';
+import { Hint } from '../../models/hint';
+import { Cell, TOPOLOGIES, TopologyKind } from '../../models/topology';
+import { FeedbackService } from '../../services/feedback.service';
+import { GameService } from '../../services/game.service';
+import { SettingsService } from '../../services/settings.service';
+import { ThemeService } from '../../services/theme.service';
+import { TouchGestures } from '../board/touch-gestures';
+import { percentLabel } from '../tile/tile.component';
+import { CanvasGeometry, canvasGeometry, cellAt, cellOrigin, visibleCells } from './canvas-geometry';
+
+interface CellLabel {
+  text: string;
+  color: string;
+  /** Probability percentages, in a smaller font. */
+  small?: boolean;
+  /** Shape drawn in the corner of a number. */
+  marker?: string;
+}
+
+/**
+ * Canvas renderer for boards too big for one element per cell. Only the cells inside the scroll
+ * viewport are drawn, and a board version that patches the one on screen redraws just its
+ * `changed` cells. Pointer input maps back to cells; keyboard movement stays with `BoardComponent`,
+ * which passes the focused cell in.
+ */
+@Component({
+  selector: 'app-board-canvas',
+  standalone: true,
+  templateUrl: './board-canvas.component.html',
+  styleUrls: ['./board-canvas.component.css']
+})
+export class BoardCanvasComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input({ required: true }) board!: Board;
+  @Input() topology: TopologyKind = 'square';
+  @Input() hint?: Hint;
+  @Input() probabilities: (number | null)[][] | null = null;
+  @Input() interactive = true;
+  @Input() focus: Cell = { x: 0, y: 0 };
+  /** Draw the keyboard cursor (only while the board has focus). */
+  @Input() showFocus = false;
+  /** The game was lost: wrong flags are marked. */
+  @Input() lost = false;
+  /** Taps and clicks flag instead of reveal; a long press reveals. */
+  @Input() flagMode = false;
+  /** A cell was clicked or tapped; the board moves its keyboard focus there. */
+  @Output() cellFocus = new EventEmitter<Cell>();
+
+  @ViewChild('viewport', { static: true }) viewport!: ElementRef<HTMLElement>;
+  @ViewChild('canvas', { static: true }) canvas!: ElementRef<HTMLCanvasElement>;
+
+  geometry: CanvasGeometry = canvasGeometry(0, 0, 'square');
+  private readonly game = inject(GameService);
+  private readonly settings = inject(SettingsService);
+  private readonly themes = inject(ThemeService);
+  private readonly feedback = inject(FeedbackService);
+  // Dragging scrolls natively; the gestures only have to rule the drag out as a tap.
+  private readonly gestures = new TouchGestures({
+    tap: (_target, at) => {
+      const cell = this.cellFromEvent({ clientX: at.x, clientY: at.y });
+      if (!cell) return;
+      this.cellFocus.emit(cell);
+      if (this.interactive) this.primary(cell, 'tap');
+    },
+    longPress: (_target, at) => {
+      const cell = this.cellFromEvent({ clientX: at.x, clientY: at.y });
+      if (!cell || !this.interactive) return;
+      this.feedback.vibrate('longPress');
+      if (this.flagMode) this.game.activate(cell, 'tap');
+      else this.game.mark(cell);
+    },
+  }, { longPressMs: () => this.settings.snapshot.longPressMs });
+  private ctx: CanvasRenderingContext2D | null = null;
+  /** What is on the canvas now: the board version and the viewport it was drawn for. */
+  private drawn: { cells: Uint8Array; left: number; top: number; width: number; height: number } | null = null;
+  private resizeObserver?: ResizeObserver;
+
+  constructor() {
+    // The DOM tiles follow the theme through CSS; the canvas has to repaint.
+    this.themes.state$.pipe(skip(1), takeUntilDestroyed()).subscribe(() => this.draw(false));
+  }
+
+  ngAfterViewInit(): void {
+    this.ctx = this.canvas.nativeElement.getContext('2d');
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.draw(false));
+      this.resizeObserver.observe(this.viewport.nativeElement);
+    }
+    this.draw(false);
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['board'] || changes['topology']) {
+      this.geometry = canvasGeometry(this.board.rows, this.board.cols, TOPOLOGIES[this.topology].shape);
+    }
+    if (changes['focus'] && !changes['focus'].firstChange) this.scrollIntoView(this.focus);
+    const boardOnly = Object.keys(changes).every(k => k === 'board');
+    this.draw(boardOnly && !!this.drawn && this.board.base === this.drawn.cells);
+  }
+
+  ngOnDestroy(): void {
+    this.resizeObserver?.disconnect();
+    this.gestures.cancel();
+  }
+
+  get label(): string {
+    const { rows, cols } = this.board;
+    return `Minefield, ${rows} rows by ${cols} columns${TOPOLOGIES[this.topology].wraps ? ', edges wrap around' : ''}`;
+  }
+
+  onScroll(): void { this.draw(false); }
+
+  onClick(ev: MouseEvent): void {
+    const cell = this.cellFromEvent(ev);
+    if (!cell) return;
+    this.cellFocus.emit(cell);
+    if (this.interactive) this.primary(cell, 'click');
+  }
+  onRightClick(ev: MouseEvent): void {
+    ev.preventDefault();
+    const cell = this.cellFromEvent(ev);
+    if (cell && this.interactive) this.game.mark(cell);
+  }
+  onDblClick(ev: MouseEvent): void {
+    const cell = this.cellFromEvent(ev);
+    if (cell && this.interactive) this.game.chord(cell);
+  }
+  onAuxClick(ev: MouseEvent): void {
+    const cell = this.cellFromEvent(ev);
+    if (cell && this.interactive && ev.button === 1) this.game.chord(cell);
+  }
+
+  /** Actions on the focused cell; the same keys as on DOM tiles. */
+  onKeyDown(ev: KeyboardEvent): void {
+    if (!this.interactive) return;
+    const action = this.settings.keyAction(ev);
+    if (!action) return;
+    const cell = this.focus;
+    const i = cell.y * this.board.cols + cell.x;
+    if (action === 'reveal') {
+      // The reveal key on a revealed number will chord
+      const open = (this.board.cells[i] & (REVEALED | MINE)) === REVEALED;
+      if (open && this.board.adjacent[i] > 0) this.game.chord(cell);
+      else this.game.reveal(cell);
+    } else if (action === 'flag') {
+      this.game.mark(cell);
+    } else {
+      this.game.chord(cell);
+    }
+    ev.preventDefault();
+  }
+
+  onTouchStart(ev: TouchEvent): void { this.gestures.start(ev); }
+  onTouchMove(ev: TouchEvent): void { this.gestures.move(ev); }
+  onTouchEnd(ev: TouchEvent): void {
+    // A tap or long press was handled here, so the emulated click that follows mustn't act a second time.
+    if (this.gestures.end(ev)) ev.preventDefault();
+  }
+  onTouchCancel(): void { this.gestures.cancel(); }
+
+  /** Click or tap: reveal, or flag in flag mode. */
+  private primary(cell: Cell, via: 'click' | 'tap'): void {
+    if (this.flagMode) this.game.mark(cell);
+    else this.game.activate(cell, via);
+  }
+
+  private cellFromEvent(ev: { clientX: number; clientY: number }): Cell | null {
+    const vp = this.viewport.nativeElement;
+    const rect = vp.getBoundingClientRect();
+    return cellAt(this.geometry,
+      ev.clientX - rect.left - vp.clientLeft + vp.scrollLeft, ev.clientY - rect.top - vp.clientTop + vp.scrollTop);
+  }
+
+  private scrollIntoView({ x, y }: Cell): void {
+    const vp = this.viewport.nativeElement, g = this.geometry;
+    const { left, top } = cellOrigin(g, x, y);
+    if (left < vp.scrollLeft) vp.scrollLeft = left;
+    else if (left + g.cell > vp.scrollLeft + vp.clientWidth) vp.scrollLeft = left + g.cell - vp.clientWidth;
+    if (top < vp.scrollTop) vp.scrollTop = top;
+    else if (top + g.cell > vp.scrollTop + vp.clientHeight) vp.scrollTop = top + g.cell - vp.clientHeight;
+  }
+
+  // ---------- drawing ----------
+
+  /** Redraw the visible cells, or only the patched ones when `patch` and nothing else moved. */
+  private draw(patch: boolean): void {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const vp = this.viewport.nativeElement, g = this.geometry, canvas = this.canvas.nativeElement;
+    const left = vp.scrollLeft, top = vp.scrollTop;
+    const width = Math.min(vp.clientWidth, g.width), height = Math.min(vp.clientHeight, g.height);
+    const range = visibleCells(g, left, top, width, height);
+    const d = this.drawn;
+    const dpr = globalThis.devicePixelRatio || 1;
+    const palette = this.themes.snapshot.theme.palette;
+
+    if (patch && d && d.left === left && d.top === top && d.width === width && d.height === height) {
+      for (const i of this.board.changed ?? []) {
+        const x = i % g.cols, y = Math.floor(i / g.cols);
+        if (x >= range.x0 && x <= range.x1 && y >= range.y0 && y <= range.y1) this.drawCell(ctx, x, y);
+      }
+    } else {
+      // The canvas covers just the viewport and moves with the scroll position.
+      canvas.style.left = `${left}px`;
+      canvas.style.top = `${top}px`;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      if (canvas.width !== Math.round(width * dpr)) canvas.width = Math.round(width * dpr);
+      if (canvas.height !== Math.round(height * dpr)) canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, -left * dpr, -top * dpr);
+      ctx.fillStyle = palette.gap;
+      ctx.fillRect(left, top, width, height);
+      for (let y = range.y0; y <= range.y1; y++) {
+        for (let x = range.x0; x <= range.x1; x++) this.drawCell(ctx, x, y);
+      }
+    }
+    this.drawn = { cells: this.board.cells, left, top, width, height };
+  }
+
+  private drawCell(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+    const g = this.geometry, size = g.cell;
+    const i = y * g.cols + x, bits = this.board.cells[i];
+    const { left, top } = cellOrigin(g, x, y);
+    const palette = this.themes.snapshot.theme.palette;
+
+    // Repaint the whole cell area first, so a patch fully covers the previous version.
+    this.cellPath(ctx, left, top, size);
+    ctx.fillStyle = palette.gap;
+    ctx.fill();
+    this.cellPath(ctx, left + 1, top + 1, size - 2);
+    ctx.fillStyle = this.fillFor(x, y, bits);
+    ctx.fill();
+    if (this.showFocus && this.focus.x === x && this.focus.y === y) {
+      ctx.strokeStyle = palette.focus;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    const label = this.labelFor(x, y, bits);
+    if (!label) return;
+    ctx.fillStyle = label.color;
+    ctx.font = `${label.small ? 700 : 800} ${Math.round(size * (label.small ? 0.34 : 0.6))}px system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label.text, left + size / 2, top + size / 2 + 1);
+    if (label.marker) {
+      ctx.font = `700 ${Math.round(size * 0.22)}px system-ui, sans-serif`;
+      ctx.fillText(label.marker, left + size * 0.22, top + size * 0.22);
+    }
+  }
+
+  private cellPath(ctx: CanvasRenderingContext2D, left: number, top: number, size: number): void {
+    ctx.beginPath();
+    if (this.geometry.shape === 'square') {
+      ctx.rect(left, top, size, size);
+      return;
+    }
+    // Pointy-top hexagon, matching the DOM tile's clip-path.
+    ctx.moveTo(left + size / 2, top);
+    ctx.lineTo(left + size, top + size / 4);
+    ctx.lineTo(left + size, top + size * 3 / 4);
+    ctx.lineTo(left + size / 2, top + size);
+    ctx.lineTo(left, top + size * 3 / 4);
+    ctx.lineTo(left, top + size / 4);
+    ctx.closePath();
+  }
+
+  private fillFor(x: number, y: number, bits: number): string {
+    const palette = this.themes.snapshot.theme.palette;
+    if (bits & REVEALED) {
+      if (!(bits & MINE)) return palette.tileRevealed;
+      return bits & EXPLODED ? palette.tileExploded : bits & FLAGGED ? palette.tileFlagged : palette.tileMine;
+    }
+    if (this.hint && this.hint.x === x && this.hint.y === y) return palette.hints[this.hint.kind].fill;
+    if (bits & FLAGGED) return palette.tileFlagged;
+    const p = this.probabilities?.[y]?.[x] ?? null;
+    if (p === null) return palette.tileHidden;
+    // Heat map, as in the tile overlay.
+    const safe = rgb(palette.heat.safe), mine = rgb(palette.heat.mine);
+    const [r, g, b] = safe.map((c, k) => Math.round(c + (mine[k] - c) * p));
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+
+  private labelFor(x: number, y: number, bits: number): CellLabel | null {
+    const { theme, markers } = this.themes.snapshot;
+    if (bits & REVEALED) {
+      if (bits & MINE) {
+        const glyph = bits & EXPLODED ? theme.glyphs.exploded : bits & FLAGGED ? theme.glyphs.flag : theme.glyphs.mine;
+        return { text: glyph, color: theme.palette.glyph };
+      }
+      const n = this.board.adjacent[y * this.geometry.cols + x];
+      if (!n) return null;
+      const marker = markers ? theme.markers[n - 1] : undefined;
+      return { text: String(n), color: theme.palette.numbers[n - 1], marker };
+    }
+    if (bits & FLAGGED) {
+      if (this.lost && !(bits & MINE)) return { text: theme.glyphs.wrongFlag, color: theme.palette.wrongFlag };
+      return { text: theme.glyphs.flag, color: theme.palette.glyph };
+    }
+    if (bits & QUESTION) return { text: theme.glyphs.question, color: theme.palette.question };
+    const p = this.probabilities?.[y]?.[x] ?? null;
+    return p === null ? null : { text: percentLabel(p), color: '#fff', small: true };
+  }
+}
+
+/** `#rrggbb` as its channels. */
+function rgb(hex: string): number[] {
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+}
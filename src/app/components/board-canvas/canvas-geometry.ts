@@ -0,0 +1,69 @@
+import { Cell, Topology } from '../../models/topology';
+
+/** Cell size in CSS pixels on canvas-rendered boards. */
+export const CANVAS_CELL = 24;
+
+/** Vertical distance between a hexagon's center and the next row's, per cell height. */
+const HEX_ROW_STEP = 0.75;
+/**
+ * Hexagons here are as wide as they are tall, so "nearest center" is measured with y stretched by
+ * 2/√3; that makes the nearest center exactly the hexagon drawn under the point.
+ */
+const HEX_Y_SCALE = 2 / Math.sqrt(3);
+
+/** Pixel layout of a board: square cells on a grid, or "odd-r" rows of pointy-top hexagons. */
+export interface CanvasGeometry {
+  rows: number;
+  cols: number;
+  shape: Topology['shape'];
+  cell: number;
+  rowStep: number;
+  width: number;
+  height: number;
+}
+
+export function canvasGeometry(
+  rows: number, cols: number, shape: Topology['shape'], cell = CANVAS_CELL,
+): CanvasGeometry {
+  const hex = shape === 'hex';
+  const rowStep = hex ? cell * HEX_ROW_STEP : cell;
+  const width = cols * cell + (hex && rows > 1 ? cell / 2 : 0);
+  const height = rows ? (rows - 1) * rowStep + cell : 0;
+  return { rows, cols, shape, cell, rowStep, width, height };
+}
+
+/** Top-left corner of a cell's bounding box. */
+export function cellOrigin(g: CanvasGeometry, x: number, y: number): { left: number; top: number } {
+  return { left: x * g.cell + (g.shape === 'hex' && y % 2 ? g.cell / 2 : 0), top: y * g.rowStep };
+}
+
+/** The cell drawn under a point, or null outside the board. */
+export function cellAt(g: CanvasGeometry, px: number, py: number): Cell | null {
+  if (px < 0 || py < 0 || px >= g.width || py >= g.height) return null;
+  if (g.shape === 'square') return { x: Math.floor(px / g.cell), y: Math.floor(py / g.cell) };
+
+  let best: Cell | null = null, bestDist = Infinity;
+  const row = Math.floor(py / g.rowStep);
+  for (let y = row - 1; y <= row; y++) {
+    if (y < 0 || y >= g.rows) continue;
+    const offset = y % 2 ? g.cell / 2 : 0;
+    const x = Math.round((px - offset - g.cell / 2) / g.cell) || 0;
+    if (x < 0 || x >= g.cols) continue;
+    const dx = px - (x * g.cell + offset + g.cell / 2);
+    const dy = (py - (y * g.rowStep + g.cell / 2)) * HEX_Y_SCALE;
+    if (dx * dx + dy * dy < bestDist) { bestDist = dx * dx + dy * dy; best = { x, y }; }
+  }
+  return best;
+}
+
+/** Inclusive range of cells that overlap a viewport rectangle (in board pixels). */
+export function visibleCells(
+  g: CanvasGeometry, left: number, top: number, width: number, height: number,
+): { x0: number; x1: number; y0: number; y1: number } {
+  return {
+    x0: Math.max(0, Math.floor((left - g.cell) / g.cell)),
+    x1: Math.min(g.cols - 1, Math.floor((left + width) / g.cell)),
+    y0: Math.max(0, Math.floor((top - g.cell) / g.rowStep)),
+    y1: Math.min(g.rows - 1, Math.floor((top + height) / g.rowStep)),
+  };
+}
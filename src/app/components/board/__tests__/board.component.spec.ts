@@ -0,0 +1,183 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { BoardComponent } from '../board.component';
+import { Tile } from '../../../models/tile';
+import { FLAGGED, REVEALED, fromTiles } from '../../../models/board';
+import { FeedbackService } from '../../../services/feedback.service';
+import { GameService } from '../../../services/game.service';
+
+function expertBoard(): Tile[][] {
+  return Array.from({ length: 16 }, (_, y) => Array.from({ length: 30 }, (_, x) => ({
+    x, y, isMine: false, isRevealed: false, isFlagged: false, isQuestioned: false, isExploded: false, adjacentMines: 0,
+  })));
+}
+
+describe('BoardComponent keyboard navigation', () => {
+  let fixture: ComponentFixture<BoardComponent>;
+  let el: HTMLElement;
+
+  function setBoard(board: Tile[][]) {
+    fixture.componentRef.setInput('board', fromTiles(board));
+    fixture.detectChanges();
+  }
+  const focused = () => document.activeElement as HTMLElement;
+  const at = () => ({ x: +focused().dataset['x']!, y: +focused().dataset['y']! });
+  function press(key: string, init: KeyboardEventInit = {}) {
+    focused().dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }));
+    fixture.detectChanges();
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    fixture = TestBed.createComponent(BoardComponent);
+    el = fixture.nativeElement;
+    document.body.appendChild(el);
+    setBoard(expertBoard());
+    el.querySelector<HTMLElement>('[tabindex="0"]')!.focus();
+  });
+
+  afterEach(() => el.remove());
+
+  it('exposes a single tab stop across all 480 cells', () => {
+    expect(el.querySelectorAll('[role="gridcell"]').length).toBe(480);
+    expect(el.querySelectorAll('[tabindex="0"]').length).toBe(1);
+    press('ArrowRight');
+    press('ArrowDown');
+    expect(at()).toEqual({ x: 1, y: 1 });
+    const stops = el.querySelectorAll<HTMLElement>('[tabindex="0"]');
+    expect(stops.length).toBe(1);
+    expect(stops[0]).toBe(focused());
+  });
+
+  it('moves with arrows, Home/End and PageUp/PageDown, clamped to the edges', () => {
+    press('ArrowLeft');
+    press('ArrowUp');
+    expect(at()).toEqual({ x: 0, y: 0 });
+    press('End');
+    expect(at()).toEqual({ x: 29, y: 0 });
+    press('PageDown');
+    expect(at()).toEqual({ x: 29, y: 5 });
+    press('Home');
+    expect(at()).toEqual({ x: 0, y: 5 });
+    press('End', { ctrlKey: true });
+    expect(at()).toEqual({ x: 29, y: 15 });
+    press('PageDown');
+    expect(at()).toEqual({ x: 29, y: 15 });
+    press('PageUp');
+    expect(at()).toEqual({ x: 29, y: 10 });
+    press('Home', { ctrlKey: true });
+    expect(at()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('jumps to the next and previous unrevealed cell', () => {
+    const board = expertBoard();
+    for (let x = 0; x < 30; x++) board[0][x] = { ...board[0][x], isRevealed: true };
+    board[1][0] = { ...board[1][0], isFlagged: true };
+    setBoard(board);
+
+    press('n');
+    expect(at()).toEqual({ x: 1, y: 1 });
+    press('N', { shiftKey: true });
+    expect(at()).toEqual({ x: 29, y: 15 }); // wraps past the revealed first row
+  });
+
+  it('announces the focused cell position and state', () => {
+    const live = el.querySelector('[aria-live]')!;
+    press('ArrowDown');
+    expect(live.textContent).toContain('Row 2, column 1: hidden tile');
+
+    const board = expertBoard();
+    board[1][0] = { ...board[1][0], isRevealed: true, adjacentMines: 3 };
+    setBoard(board);
+    expect(live.textContent).toContain('Row 2, column 1: 3 adjacent mines');
+  });
+});
+
+describe('BoardComponent touch gestures', () => {
+  let fixture: ComponentFixture<BoardComponent>;
+  let board: BoardComponent;
+  let game: GameService;
+  let el: HTMLElement;
+
+  function touch(type: string, points: [number, number][], target: EventTarget) {
+    const touches = points.map(([clientX, clientY], identifier) => {
+      const init = { identifier, target, clientX, clientY };
+      return typeof Touch === 'function' ? new Touch(init) : init as unknown as Touch;
+    });
+    target.dispatchEvent(new TouchEvent(type, { touches, bubbles: true, cancelable: true }));
+  }
+  const tileAt = (x: number, y: number) => el.querySelector<HTMLElement>(`[data-x="${x}"][data-y="${y}"]`)!;
+  const viewport = () => el.querySelector<HTMLElement>('.viewport')!;
+  const bits = (x: number, y: number) => game.snapshot.board.cells[y * game.snapshot.board.cols + x];
+  function tap(x: number, y: number) {
+    touch('touchstart', [[10, 10]], tileAt(x, y));
+    touch('touchend', [], tileAt(x, y));
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    game = TestBed.inject(GameService);
+    game.newGame(9, 9, 10, 'Beginner', { seed: 5 });
+    fixture = TestBed.createComponent(BoardComponent);
+    board = fixture.componentInstance;
+    el = fixture.nativeElement;
+    document.body.appendChild(el);
+    game.state$.subscribe(s => fixture.componentRef.setInput('board', s.board));
+    fixture.detectChanges();
+  });
+
+  afterEach(() => el.remove());
+
+  it('reveals on a tap but not at the end of a drag, which pans instead', () => {
+    touch('touchstart', [[100, 100]], tileAt(0, 0));
+    touch('touchmove', [[80, 90]], tileAt(0, 0));
+    touch('touchend', [], tileAt(0, 0));
+    expect(bits(0, 0) & REVEALED).toBe(0);
+    expect(viewport().scrollLeft).toBe(20);
+    expect(viewport().scrollTop).toBe(10);
+
+    tap(4, 4);
+    expect(bits(4, 4) & REVEALED).toBe(REVEALED);
+  });
+
+  it('flags on a long press, with a buzz', fakeAsync(() => {
+    const vibrate = spyOn(TestBed.inject(FeedbackService), 'vibrate');
+    touch('touchstart', [[10, 10]], tileAt(2, 3));
+    tick(450);
+    touch('touchend', [], tileAt(2, 3));
+    expect(bits(2, 3) & FLAGGED).toBe(FLAGGED);
+    expect(vibrate).toHaveBeenCalledOnceWith('longPress');
+  }));
+
+  it('flags on a tap in flag mode', () => {
+    el.querySelector<HTMLButtonElement>('.flag-mode')!.click();
+    fixture.detectChanges();
+    expect(board.flagMode).toBeTrue();
+    tap(1, 1);
+    expect(bits(1, 1) & (FLAGGED | REVEALED)).toBe(FLAGGED);
+    tileAt(1, 2).click();
+    expect(bits(1, 2) & (FLAGGED | REVEALED)).toBe(FLAGGED);
+  });
+
+  it('pinch-zooms without acting on a tile, and zooms to fit', () => {
+    const sizer = el.querySelector<HTMLElement>('.sizer')!, content = el.querySelector<HTMLElement>('.board')!;
+    Object.defineProperty(content, 'offsetWidth', { value: 400 });
+    Object.defineProperty(content, 'offsetHeight', { value: 400 });
+    Object.defineProperty(viewport(), 'clientWidth', { value: 200 });
+
+    const target = tileAt(3, 3);
+    touch('touchstart', [[100, 100]], target);
+    touch('touchstart', [[100, 100], [140, 100]], target);
+    touch('touchmove', [[80, 100], [160, 100]], target);
+    touch('touchend', [[80, 100]], target);
+    touch('touchend', [], target);
+    expect(board.scale).toBe(2);
+    expect(sizer.style.width).toBe('800px');
+    expect(content.style.transform).toBe('scale(2)');
+    expect(bits(3, 3) & REVEALED).toBe(0);
+
+    el.querySelector<HTMLButtonElement>('[title^="Zoom out to show"]')!.click();
+    expect(board.scale).toBe(0.5);
+    expect(sizer.style.width).toBe('200px');
+    expect(viewport().scrollLeft).toBe(0);
+  });
+});
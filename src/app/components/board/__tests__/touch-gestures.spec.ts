@@ -0,0 +1,74 @@
+import { fakeAsync, tick } from '@angular/core/testing';
+import { GestureHandlers, TouchGestures } from '../touch-gestures';
+
+/** A TouchEvent with fingers at the given points; browsers want real Touch objects, jsdom takes plain ones. */
+function touchEvent(type: string, points: [number, number][], target: EventTarget = document.body): TouchEvent {
+  const touches = points.map(([clientX, clientY], identifier) => {
+    const init = { identifier, target, clientX, clientY };
+    return typeof Touch === 'function' ? new Touch(init) : init as unknown as Touch;
+  });
+  return new TouchEvent(type, { touches, bubbles: true, cancelable: true });
+}
+
+describe('TouchGestures', () => {
+  let calls: string[];
+  let gestures: TouchGestures;
+
+  beforeEach(() => {
+    calls = [];
+    const handlers: GestureHandlers = {
+      tap: (_t, at) => calls.push(`tap ${at.x},${at.y}`),
+      longPress: (_t, at) => calls.push(`long ${at.x},${at.y}`),
+      pan: (dx, dy) => calls.push(`pan ${dx},${dy}`),
+      pinch: (factor, c, dx, dy) => calls.push(`pinch ${factor} at ${c.x},${c.y} by ${dx},${dy}`),
+    };
+    gestures = new TouchGestures(handlers, { longPressMs: () => 450 });
+  });
+
+  it('taps when the finger lifts where it went down, even after a little jitter', fakeAsync(() => {
+    gestures.start(touchEvent('touchstart', [[100, 100]]));
+    gestures.move(touchEvent('touchmove', [[104, 97]]));
+    tick(200);
+    expect(gestures.end(touchEvent('touchend', []))).toBeTrue();
+    expect(calls).toEqual(['tap 100,100']);
+  }));
+
+  it('turns a press that moves past the slop into a pan, with no tap at the end', fakeAsync(() => {
+    gestures.start(touchEvent('touchstart', [[100, 100]]));
+    gestures.move(touchEvent('touchmove', [[120, 100]]));
+    gestures.move(touchEvent('touchmove', [[130, 90]]));
+    tick(1000);
+    expect(gestures.end(touchEvent('touchend', []))).toBeFalse();
+    expect(calls).toEqual(['pan 20,0', 'pan 10,-10']);
+  }));
+
+  it('long-presses once the finger is held, and does not tap when it lifts', fakeAsync(() => {
+    gestures.start(touchEvent('touchstart', [[50, 60]]));
+    tick(449);
+    expect(calls).toEqual([]);
+    tick(1);
+    expect(calls).toEqual(['long 50,60']);
+    expect(gestures.end(touchEvent('touchend', []))).toBeTrue();
+    expect(calls).toEqual(['long 50,60']);
+  }));
+
+  it('pinches with two fingers, then carries on panning with the one left', fakeAsync(() => {
+    gestures.start(touchEvent('touchstart', [[100, 100]]));
+    gestures.start(touchEvent('touchstart', [[100, 100], [200, 100]]));
+    gestures.move(touchEvent('touchmove', [[50, 100], [250, 100]]));
+    gestures.move(touchEvent('touchmove', [[60, 110], [260, 110]]));
+    expect(gestures.end(touchEvent('touchend', [[60, 110]]))).toBeFalse();
+    gestures.move(touchEvent('touchmove', [[70, 115]]));
+    gestures.end(touchEvent('touchend', []));
+    tick(1000);
+    expect(calls).toEqual(['pinch 2 at 150,100 by 0,0', 'pinch 1 at 160,110 by 10,10', 'pan 10,5']);
+  }));
+
+  it('forgets a cancelled touch', fakeAsync(() => {
+    gestures.start(touchEvent('touchstart', [[10, 10]]));
+    gestures.cancel();
+    tick(1000);
+    expect(gestures.end(touchEvent('touchend', []))).toBeFalse();
+    expect(calls).toEqual([]);
+  }));
+});
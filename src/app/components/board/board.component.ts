@@ -1,20 +1,305 @@
-import { Component, Input } from '@angular/core';
+import { Component, ElementRef, Input, OnChanges, OnDestroy, SimpleChanges, ViewChild, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Board, FLAGGED, REVEALED, tileAt, toTiles } from '../../models/board';
+import { Hint } from '../../models/hint';
 import { Tile } from '../../models/tile';
-import { TileComponent } from '../tile/tile.component';
+import { Cell, TOPOLOGIES, Topology, TopologyKind } from '../../models/topology';
+import { FeedbackService } from '../../services/feedback.service';
+import { GameService } from '../../services/game.service';
+import { SettingsService } from '../../services/settings.service';
+import { BoardCanvasComponent } from '../board-canvas/board-canvas.component';
+import { TileComponent, describeTile } from '../tile/tile.component';
+import { Point, TouchGestures } from './touch-gestures';
 
+/** Rows skipped by PageUp/PageDown. */
+const PAGE_ROWS = 5;
+/** Boards with more cells than this are drawn on a canvas instead of one button per cell. */
+export const CANVAS_THRESHOLD = 2500;
+/** Closest zoom; the farthest is whatever fits the whole board in view. */
+export const MAX_ZOOM = 3;
+/** Factor per press of the zoom buttons. */
+const ZOOM_STEP = 1.25;
+/** The viewport's `max-height`, as a share of the window height (see the CSS). */
+const VIEWPORT_HEIGHT = 0.75;
+
+/**
+ * ARIA grid with a roving tabindex: the board is a single tab stop and the keyboard moves focus
+ * between cells. Arrows, Home/End (Ctrl for the corners), PageUp/PageDown, and N / Shift+N for the
+ * next / previous unrevealed cell. The focused cell's position and state go to a live region.
+ * Hex boards lay out offset rows of hexagons; on a torus the arrows wrap around the edges.
+ * Large boards switch to `BoardCanvasComponent`, with the same keys and announcements.
+ *
+ * On touch screens the DOM grid sits in a viewport that one finger pans and two fingers pinch-zoom;
+ * a tap only acts if the finger didn't move. Flag mode turns taps and clicks into flags.
+ */
 @Component({
   selector: 'app-board',
   standalone: true,
-  imports: [CommonModule, TileComponent],
+  imports: [CommonModule, TileComponent, BoardCanvasComponent],
   templateUrl: './board.component.html',
   styleUrls: ['./board.component.css']
 })
-export class BoardComponent {
-  @Input({ required: true }) board!: Tile[][];
-  @Input() rows = 0;
-  @Input() cols = 0;
+export class BoardComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) board!: Board;
+  @Input() hint?: Hint;
+  @Input() topology: TopologyKind = 'square';
+  /** Analysis overlay: mine probability per cell, or null when off. */
+  @Input() probabilities: (number | null)[][] | null = null;
+  /** Read-only boards (e.g. replays) ignore all input. */
+  @Input() interactive = true;
+  /** Cell picked out by a key-driven cursor (split-screen matches); browser focus stays where it is. */
+  @Input() cursor: Cell | null = null;
+  /** The game on this board was lost: wrong flags are marked. */
+  @Input() lost = false;
+
+  /** The cell holding the board's tab stop. */
+  focus: Cell = { x: 0, y: 0 };
+  announcement = '';
+  hasFocus = false;
+  /** Tile views for the DOM grid, patched in place from each board version's `changed` cells. */
+  tiles: Tile[][] = [];
+  /** Taps and clicks flag instead of reveal; a long press reveals. */
+  flagMode = false;
+  /** Zoom of the DOM grid; 1 is the natural tile size. */
+  scale = 1;
+  readonly maxZoom = MAX_ZOOM;
+  private tilesFrom: Uint8Array | null = null;
+  private readonly host: ElementRef<HTMLElement> = inject(ElementRef);
+  private readonly game = inject(GameService);
+  private readonly settings = inject(SettingsService);
+  private readonly feedback = inject(FeedbackService);
+  private readonly gestures = new TouchGestures({
+    tap: target => this.onTap(target),
+    longPress: target => this.onLongPress(target),
+    pan: (dx, dy) => this.panBy(dx, dy),
+    pinch: (factor, center, dx, dy) => {
+      this.zoomTo(this.scale * factor, center);
+      this.panBy(dx, dy);
+    },
+  }, { longPressMs: () => this.settings.snapshot.longPressMs });
+  private readonly resizeObserver = typeof ResizeObserver === 'undefined' ? null
+    : new ResizeObserver(() => this.applyZoom());
+  private viewport: HTMLElement | null = null;
+  private sizer: HTMLElement | null = null;
+  private content: HTMLElement | null = null;
+
+  // The grid's elements come and go with `useCanvas`.
+  @ViewChild('viewport') set viewportRef(ref: ElementRef<HTMLElement> | undefined) {
+    this.viewport = ref?.nativeElement ?? null;
+  }
+  @ViewChild('sizer') set sizerRef(ref: ElementRef<HTMLElement> | undefined) {
+    this.sizer = ref?.nativeElement ?? null;
+  }
+  @ViewChild('content') set contentRef(ref: ElementRef<HTMLElement> | undefined) {
+    const el = ref?.nativeElement ?? null;
+    if (el === this.content) return;
+    if (this.content) this.resizeObserver?.unobserve(this.content);
+    this.content = el;
+    if (el) this.resizeObserver?.observe(el);
+  }
+
+  get rows(): number { return this.board.rows; }
+  get cols(): number { return this.board.cols; }
+  get useCanvas(): boolean { return this.rows * this.cols > CANVAS_THRESHOLD; }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['board']) this.syncTiles();
+    // A new, smaller board must not strand the tab stop outside the grid.
+    this.focus = {
+      x: Math.max(0, Math.min(this.focus.x, this.cols - 1)),
+      y: Math.max(0, Math.min(this.focus.y, this.rows - 1)),
+    };
+    // Actions on the focused cell change its state; say so.
+    if (changes['board'] && this.hasFocus) this.announce();
+  }
+
+  ngOnDestroy(): void {
+    this.gestures.cancel();
+    this.resizeObserver?.disconnect();
+  }
 
+  highlightFor(t: Tile): Hint['kind'] | null {
+    return this.hint && this.hint.x === t.x && this.hint.y === t.y ? this.hint.kind : null;
+  }
+  probabilityFor(t: Tile): number | null { return this.probabilities?.[t.y]?.[t.x] ?? null; }
+  isCursor(t: Tile): boolean { return !!this.cursor && this.cursor.x === t.x && this.cursor.y === t.y; }
+  /** Keeping row elements across board versions keeps keyboard focus in place. */
+  trackByRow(i: number): number { return i; }
   trackByTile(_i: number, t: Tile): string { return t.y + ':' + t.x; }
-  get gridCols(): string { return `repeat(${this.cols}, var(--tile-size))`; }
+  get gridCols(): string | null { return this.layout.shape === 'hex' ? null : `repeat(${this.cols}, var(--tile-size))`; }
+  get layout(): Topology { return TOPOLOGIES[this.topology]; }
+
+  onKeyDown(ev: KeyboardEvent): void {
+    if (ev.altKey || ev.metaKey) return;
+    const { x, y } = this.focus;
+    const lastX = this.cols - 1, lastY = this.rows - 1;
+    const step = (v: number, d: number, last: number) =>
+      this.layout.wraps ? (v + d + last + 1) % (last + 1) : Math.max(0, Math.min(last, v + d));
+    let target: { x: number; y: number } | null;
+    switch (ev.key) {
+      case 'ArrowLeft': target = { x: step(x, -1, lastX), y }; break;
+      case 'ArrowRight': target = { x: step(x, 1, lastX), y }; break;
+      case 'ArrowUp': target = { x, y: step(y, -1, lastY) }; break;
+      case 'ArrowDown': target = { x, y: step(y, 1, lastY) }; break;
+      case 'Home': target = ev.ctrlKey ? { x: 0, y: 0 } : { x: 0, y }; break;
+      case 'End': target = ev.ctrlKey ? { x: lastX, y: lastY } : { x: lastX, y }; break;
+      case 'PageUp': target = { x, y: Math.max(0, y - PAGE_ROWS) }; break;
+      case 'PageDown': target = { x, y: Math.min(lastY, y + PAGE_ROWS) }; break;
+      case 'n': case 'N':
+        if (ev.ctrlKey) return;
+        target = this.nextUnrevealed(ev.shiftKey ? -1 : 1);
+        if (!target) this.announcement = 'No unrevealed cells left';
+        break;
+      default: return;
+    }
+    ev.preventDefault();
+    if (target) this.moveTo(target.x, target.y);
+  }
+
+  /** Clicking or tabbing into a cell moves the tab stop there too. */
+  onFocusIn(ev: FocusEvent): void {
+    const cell = this.useCanvas ? this.focus : this.cellOf(ev.target);
+    if (!cell) return;
+    this.hasFocus = true;
+    this.focus = cell;
+    this.announce();
+  }
+
+  onFocusOut(ev: FocusEvent): void {
+    if (!this.host.nativeElement.contains(ev.relatedTarget as Node | null)) this.hasFocus = false;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.focus = { x, y };
+    // The canvas scrolls its cursor into view itself.
+    this.host.nativeElement.querySelector<HTMLElement>(`[data-x="${x}"][data-y="${y}"]`)?.focus();
+    this.announce();
+  }
+
+  // Touch: the board's own gestures, so a drag or pinch never ends in a reveal.
+  onTouchStart(ev: TouchEvent): void {
+    // No emulated mouse events or context menu follow; the gestures stand in for them.
+    if (ev.cancelable) ev.preventDefault();
+    this.gestures.start(ev);
+  }
+  onTouchMove(ev: TouchEvent): void { this.gestures.move(ev); }
+  onTouchEnd(ev: TouchEvent): void { this.gestures.end(ev); }
+  onTouchCancel(): void { this.gestures.cancel(); }
+
+  toggleFlagMode(): void { this.flagMode = !this.flagMode; }
+
+  zoomIn(): void { this.zoomTo(this.scale * ZOOM_STEP); }
+  zoomOut(): void { this.zoomTo(this.scale / ZOOM_STEP); }
+
+  /** Zoom out until the whole board is in view, but never past the natural size. */
+  zoomToFit(): void {
+    this.zoomTo(this.fitScale());
+    if (this.viewport) this.viewport.scrollLeft = this.viewport.scrollTop = 0;
+  }
+
+  /** The scale that shows the whole grid, or 1 when it already fits (or can't be measured). */
+  fitScale(): number {
+    const vp = this.viewport, content = this.content;
+    if (!vp || !content || !content.offsetWidth || !content.offsetHeight || !vp.clientWidth) return 1;
+    const height = (globalThis.innerHeight || 0) * VIEWPORT_HEIGHT || content.offsetHeight;
+    return Math.min(1, vp.clientWidth / content.offsetWidth, height / content.offsetHeight);
+  }
+
+  /** Set the zoom, keeping the board point under `at` (client pixels; default the viewport centre) in place. */
+  zoomTo(scale: number, at?: Point): void {
+    const next = Math.max(this.fitScale(), Math.min(MAX_ZOOM, scale));
+    const vp = this.viewport, sizer = this.sizer;
+    if (!vp || !sizer) {
+      this.scale = next;
+      return;
+    }
+    const rect = vp.getBoundingClientRect();
+    const px = at ? at.x - rect.left - vp.clientLeft : vp.clientWidth / 2;
+    const py = at ? at.y - rect.top - vp.clientTop : vp.clientHeight / 2;
+    const ux = (vp.scrollLeft + px - sizer.offsetLeft) / this.scale;
+    const uy = (vp.scrollTop + py - sizer.offsetTop) / this.scale;
+    this.scale = next;
+    this.applyZoom();
+    vp.scrollLeft = ux * next + sizer.offsetLeft - px;
+    vp.scrollTop = uy * next + sizer.offsetTop - py;
+  }
+
+  /** Scroll the viewport with a finger moving (dx, dy); the browser keeps it in range. */
+  panBy(dx: number, dy: number): void {
+    if (!this.viewport) return;
+    this.viewport.scrollLeft -= dx;
+    this.viewport.scrollTop -= dy;
+  }
+
+  private onTap(target: EventTarget | null): void {
+    const cell = this.cellOf(target);
+    if (!cell || !this.interactive) return;
+    this.focus = cell;
+    if (this.flagMode) this.game.mark(cell);
+    else this.game.activate(cell, 'tap');
+  }
+
+  private onLongPress(target: EventTarget | null): void {
+    const cell = this.cellOf(target);
+    if (!cell || !this.interactive) return;
+    // A buzz tells the finger the press took before it lifts.
+    this.feedback.vibrate('longPress');
+    this.focus = cell;
+    if (this.flagMode) this.game.activate(cell, 'tap');
+    else this.game.mark(cell);
+  }
+
+  /** The sizer gives the scrollbars the zoomed size; the grid itself is scaled with a transform. */
+  private applyZoom(): void {
+    const sizer = this.sizer, content = this.content;
+    if (!sizer || !content) return;
+    sizer.style.width = `${content.offsetWidth * this.scale}px`;
+    sizer.style.height = `${content.offsetHeight * this.scale}px`;
+    content.style.transform = this.scale === 1 ? '' : `scale(${this.scale})`;
+  }
+
+  /** Row-major search from the focused cell, wrapping around; flagged cells are skipped. */
+  private nextUnrevealed(step: 1 | -1): Cell | null {
+    const total = this.rows * this.cols;
+    const start = this.focus.y * this.cols + this.focus.x;
+    for (let i = 1; i < total; i++) {
+      const idx = (start + step * i + total) % total;
+      if (!(this.board.cells[idx] & (REVEALED | FLAGGED))) return { x: idx % this.cols, y: Math.floor(idx / this.cols) };
+    }
+    return null;
+  }
+
+  private announce(): void {
+    const { x, y } = this.focus;
+    if (x >= this.cols || y >= this.rows) return;
+    const t = tileAt(this.board, x, y);
+    const state = describeTile(t, this.highlightFor(t), this.probabilityFor(t), this.lost);
+    this.announcement = `Row ${y + 1}, column ${x + 1}: ${state}`;
+  }
+
+  /** Rebuild the tile views, or patch just the changed cells when this version follows the last. */
+  private syncTiles(): void {
+    const b = this.board;
+    if (this.useCanvas) {
+      this.tiles = [];
+      this.tilesFrom = null;
+      return;
+    }
+    if (b.changed && b.base === this.tilesFrom) {
+      for (const i of b.changed) {
+        const x = i % b.cols, y = Math.floor(i / b.cols);
+        this.tiles[y][x] = tileAt(b, x, y);
+      }
+    } else {
+      this.tiles = toTiles(b);
+    }
+    this.tilesFrom = b.cells;
+  }
+
+  private cellOf(target: EventTarget | null): { x: number; y: number } | null {
+    // Touches can land on a tile's inner glyph.
+    const el = target instanceof Element ? target.closest<HTMLElement>('[data-x]') : null;
+    if (!el?.dataset['x'] || !el.dataset['y']) return null;
+    return { x: +el.dataset['x'], y: +el.dataset['y'] };
+  }
 }
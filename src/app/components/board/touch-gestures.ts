@@ -0,0 +1,126 @@
+/** A point in client (viewport) pixels. */
+export interface Point { x: number; y: number; }
+
+/** What a touch sequence turned out to be; every handler is optional. */
+export interface GestureHandlers {
+  /** One finger went down and came up without moving past the slop or being held. */
+  tap?(target: EventTarget | null, at: Point): void;
+  /** One finger stayed put for the long-press time; fires while it is still down. */
+  longPress?(target: EventTarget | null, at: Point): void;
+  /** One finger dragged by (dx, dy) since the last move. */
+  pan?(dx: number, dy: number): void;
+  /** Two fingers: their spread grew by `factor` around `center`, which moved by (dx, dy). */
+  pinch?(factor: number, center: Point, dx: number, dy: number): void;
+}
+
+export interface GestureOptions {
+  /** Read when a press starts, so settings changes apply to the next touch. */
+  longPressMs: () => number;
+  /** How far a finger may wander, in pixels, and still count as a tap. */
+  slop?: number;
+}
+
+/** Movement a finger may make before a press becomes a drag. */
+export const TAP_SLOP = 10;
+
+type Mode = 'idle' | 'press' | 'held' | 'pan' | 'pinch';
+
+/**
+ * Tells taps, long presses, drags and pinches apart from raw touch events. Feed it the element's
+ * `touchstart`, `touchmove`, `touchend` and `touchcancel`; it calls back with what happened. A press
+ * that moves past the slop, or gains a second finger, is never a tap.
+ */
+export class TouchGestures {
+  private mode: Mode = 'idle';
+  private target: EventTarget | null = null;
+  private origin: Point = { x: 0, y: 0 };
+  private last: Point = { x: 0, y: 0 };
+  private spread = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly handlers: GestureHandlers, private readonly options: GestureOptions) {}
+
+  start(ev: TouchEvent): void {
+    const touches = ev.touches;
+    if (touches.length >= 2) {
+      this.clearTimer();
+      this.mode = 'pinch';
+      this.last = center(touches[0], touches[1]);
+      this.spread = distance(point(touches[0]), point(touches[1]));
+      return;
+    }
+    if (touches.length !== 1 || this.mode !== 'idle') return;
+    this.mode = 'press';
+    this.target = ev.target;
+    this.origin = this.last = point(touches[0]);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.mode = 'held';
+      this.handlers.longPress?.(this.target, this.origin);
+    }, this.options.longPressMs());
+  }
+
+  move(ev: TouchEvent): void {
+    const touches = ev.touches;
+    if (this.mode === 'pinch' && touches.length >= 2) {
+      const c = center(touches[0], touches[1]), d = distance(point(touches[0]), point(touches[1]));
+      if (this.spread > 0 && d > 0) {
+        this.handlers.pinch?.(d / this.spread, c, c.x - this.last.x, c.y - this.last.y);
+      }
+      this.last = c;
+      if (d > 0) this.spread = d;
+      return;
+    }
+    if (touches.length !== 1) return;
+    const p = point(touches[0]);
+    if (this.mode === 'press') {
+      if (distance(p, this.origin) <= (this.options.slop ?? TAP_SLOP)) return;
+      this.clearTimer();
+      this.mode = 'pan';
+    }
+    if (this.mode !== 'pan') return;
+    this.handlers.pan?.(p.x - this.last.x, p.y - this.last.y);
+    this.last = p;
+  }
+
+  /** Returns true when the touch was a tap or long press, so the caller can cancel the emulated click. */
+  end(ev: TouchEvent): boolean {
+    const left = ev.touches.length;
+    const mode = this.mode;
+    if (mode === 'press') {
+      const target = this.target;
+      this.reset();
+      this.handlers.tap?.(target, this.origin);
+      return true;
+    }
+    if (mode === 'pinch' && left === 1) {
+      // The finger still down carries on as a drag, from where it is now.
+      this.mode = 'pan';
+      this.last = point(ev.touches[0]);
+      return false;
+    }
+    if (left === 0) this.reset();
+    return mode === 'held';
+  }
+
+  cancel(): void { this.reset(); }
+
+  private reset(): void {
+    this.clearTimer();
+    this.mode = 'idle';
+    this.target = null;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+}
+
+function point(t: { clientX: number; clientY: number }): Point { return { x: t.clientX, y: t.clientY }; }
+
+function center(a: Touch, b: Touch): Point {
+  return { x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 };
+}
+
+function distance(a: Point, b: Point): number { return Math.hypot(a.x - b.x, a.y - b.y); }
@@ -0,0 +1,80 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CustomPreset, CustomPresetsService } from '../../services/custom-presets.service';
+import { BOARD_LIMITS, BoardConfig, maxMines, validateBoardConfig } from '../../utils/board-config';
+
+@Component({
+  selector: 'app-custom-game',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+  <form class="custom" (ngSubmit)="submit()" aria-label="Custom game">
+    <label>Rows
+      <input type="number" name="rows" [(ngModel)]="rows" [min]="limits.minSize" [max]="limits.maxRows" required>
+    </label>
+    <label>Columns
+      <input type="number" name="cols" [(ngModel)]="cols" [min]="limits.minSize" [max]="limits.maxCols" required>
+    </label>
+    <label>Mines
+      <input type="number" name="mines" [(ngModel)]="mines" min="1" [max]="mineLimit" required>
+    </label>
+    <span class="badge" [class.warn]="density > 0.25">Density {{ density | percent: '1.0-1' }} · max {{ mineLimit }}</span>
+    <button type="submit" [disabled]="problems.length > 0">Start custom game</button>
+
+    <ul class="problems" *ngIf="problems.length" aria-live="polite">
+      <li *ngFor="let p of problems">{{ p }}</li>
+    </ul>
+
+    <div class="presets">
+      <input name="presetName" [(ngModel)]="presetName" placeholder="Preset name" aria-label="Preset name">
+      <button type="button" (click)="savePreset()" [disabled]="problems.length > 0 || !presetName.trim()">Save preset</button>
+      <span class="preset" *ngFor="let p of presets.list">
+        <button type="button" (click)="usePreset(p)" [title]="p.rows + '×' + p.cols + ' · ' + p.mines + ' mines'">
+          {{ p.name }} {{ p.rows }}×{{ p.cols }} · {{ p.mines }} 💣
+        </button>
+        <button type="button" class="remove" (click)="presets.remove(p.name)" [attr.aria-label]="'Delete preset ' + p.name">✕</button>
+      </span>
+    </div>
+  </form>
+  `,
+  styles: [`
+    .custom { display: flex; flex-wrap: wrap; gap: 10px; align-items: flex-end; width: 100%; }
+    label { display: flex; flex-direction: column; gap: 4px; color: var(--muted); font-size: .85rem; }
+    input[type=number] { width: 90px; }
+    .warn { border-color: #7a6420; }
+    .problems { width: 100%; margin: 0; padding-left: 18px; color: #fca5a5; font-size: .9rem; }
+    .presets { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; width: 100%; }
+    .preset { display: inline-flex; gap: 2px; }
+    .remove { padding: .5rem .6rem; }
+  `]
+})
+export class CustomGameComponent {
+  @Output() start = new EventEmitter<BoardConfig>();
+
+  limits = BOARD_LIMITS;
+  rows = 20;
+  cols = 20;
+  mines = 60;
+  presetName = '';
+
+  constructor(public presets: CustomPresetsService) {}
+
+  get config(): BoardConfig { return { rows: this.rows, cols: this.cols, mines: this.mines }; }
+  get problems(): string[] { return validateBoardConfig(this.config); }
+  get mineLimit(): number { return maxMines(this.rows || 0, this.cols || 0); }
+  get density(): number { return this.rows > 0 && this.cols > 0 ? this.mines / (this.rows * this.cols) : 0; }
+
+  submit(){
+    if (!this.problems.length) this.start.emit(this.config);
+  }
+  savePreset(){
+    this.presets.save({ name: this.presetName, ...this.config });
+    this.presetName = '';
+  }
+  usePreset(p: CustomPreset){
+    this.rows = p.rows;
+    this.cols = p.cols;
+    this.mines = p.mines;
+  }
+}
@@ -1,51 +1,132 @@
-import { Component, effect, signal } from '@angular/core';
+import { Component, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { GameService } from '../../services/game.service';
-import { Difficulty } from '../../models/game-state';
+import { StatsService } from '../../services/stats.service';
+import { DailyService } from '../../services/daily.service';
+import { ProfileService, RESET_UNDO_MS } from '../../services/profile.service';
+import { DailyResult, DailyStreak } from '../../models/daily';
+import { PRESETS } from '../../models/presets';
+import { RankedBoard, rankingKey } from '../../utils/ranking';
 
 @Component({
   selector: 'app-leaderboard',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   template: `
   <div class="panel">
     <h2>🏆 Leaderboard</h2>
-    <p>Fastest times are stored locally in your browser.</p>
+    <div class="tabs" role="tablist">
+      <button role="tab" [attr.aria-selected]="tab === 'times'" [class.active]="tab === 'times'" (click)="tab = 'times'">Best times</button>
+      <button role="tab" [attr.aria-selected]="tab === 'daily'" [class.active]="tab === 'daily'" (click)="tab = 'daily'">📅 Daily</button>
+    </div>
+    <ng-container *ngIf="tab === 'times'; else dailyTab">
+    <p>Fastest times are stored locally in your browser. <a routerLink="/stats">Full statistics →</a></p>
     <table>
-      <thead><tr><th>Difficulty</th><th>Best Time (s)</th></tr></thead>
+      <thead><tr><th>Board</th><th>Best Time (s)</th><th>Best No-guess (s)</th></tr></thead>
       <tbody>
         <tr *ngFor="let row of rows">
-          <td>{{row.diff}}</td>
+          <td>{{row.label}}</td>
           <td>{{row.time === null ? '—' : (row.time | number: '1.1-1')}}</td>
+          <td>{{row.noGuessTime === null ? '—' : (row.noGuessTime | number: '1.1-1')}}</td>
         </tr>
       </tbody>
     </table>
     <div style="margin-top:10px">
-      <button (click)="reset()">Reset Times</button>
+      <button *ngIf="!confirming && !undoing" (click)="confirming = true">Reset Times</button>
+      <span *ngIf="confirming" role="alert">
+        Delete all {{ gamesRecorded }} recorded games, and the best times that come from them?
+        <button (click)="reset()">Delete</button>
+        <button (click)="confirming = false">Cancel</button>
+      </span>
+      <span *ngIf="undoing" aria-live="polite">Times reset. <button (click)="undoReset()">↩ Undo</button></span>
+      <p class="muted">To keep them, export your profile from <a routerLink="/settings">Settings</a> first.</p>
     </div>
+    </ng-container>
+
+    <ng-template #dailyTab>
+      <p>One board a day, the same for everyone, one attempt each. <a routerLink="/">Play today's →</a></p>
+      <div class="stats">
+        <span class="badge">🔥 Streak: {{ streak.current }} (best {{ streak.best }})</span>
+        <span class="badge">📅 Played: {{ daily.length }}</span>
+        <span class="badge">🏁 Won: {{ dailyWins }}</span>
+      </div>
+      <table *ngIf="daily.length; else noDaily">
+        <thead><tr><th>Day</th><th>Result</th><th>Time (s)</th><th>Cleared</th><th>3BV</th><th></th></tr></thead>
+        <tbody>
+          <tr *ngFor="let r of daily">
+            <td>{{ r.date }}</td>
+            <td>{{ r.won ? '🎉 Won' : r.abandoned ? '🏳️ Abandoned' : '💥 Lost' }}{{ r.practice ? ' (practice)' : '' }}</td>
+            <td>{{ r.timeMs / 1000 | number: '1.1-1' }}</td>
+            <td>{{ r.cleared | percent }}</td>
+            <td>{{ r.bbbv }}</td>
+            <td><button (click)="copy(r.date)" [attr.aria-label]="'Copy result for ' + r.date">📋</button></td>
+          </tr>
+        </tbody>
+      </table>
+      <ng-template #noDaily><p class="muted">No daily boards played yet.</p></ng-template>
+      <span class="badge" *ngIf="copied" aria-live="polite">{{ copied }}</span>
+    </ng-template>
   </div>
   `,
   styles: [`
     h2 { margin: 0 0 8px 0; }
-    table { width:100%; border-collapse: collapse; }
+    .tabs { display: flex; gap: 8px; margin-bottom: 12px; }
+    .tabs button.active { background: #19235b; border-color: #3a4a9a; }
+    table { width:100%; border-collapse: collapse; margin-bottom: 10px; }
+    .muted { color: var(--muted); }
     th, td { padding: 8px 10px; border-bottom: 1px solid #263064; text-align: left; }
   `]
 })
-export class LeaderboardComponent {
-  rows: Array<{ diff: Difficulty, time: number | null }> = [
-    { diff: 'Beginner', time: null },
-    { diff: 'Intermediate', time: null },
-    { diff: 'Expert', time: null },
-    { diff: 'Custom', time: null },
-  ];
-  constructor(private game: GameService) {
+export class LeaderboardComponent implements OnDestroy {
+  tab: 'times' | 'daily' = 'times';
+  rows: Array<{ label: string, time: number | null, noGuessTime: number | null }> = [];
+  daily: DailyResult[] = [];
+  streak: DailyStreak = { current: 0, best: 0 };
+  copied = '';
+  confirming = false;
+  undoing = false;
+  private undoTimer?: ReturnType<typeof setTimeout>;
+  constructor(
+    private game: GameService, private stats: StatsService, private dailies: DailyService,
+    private profiles: ProfileService,
+  ) {
     this.refresh();
   }
+  ngOnDestroy(){ clearTimeout(this.undoTimer); }
+  get gamesRecorded(): number { return this.stats.records.length; }
+  get dailyWins(): number { return this.daily.filter(r => r.won).length; }
   refresh(){
-    this.rows = this.rows.map(r => ({ ...r, time: this.game.getBestTimeSec(r.diff) }));
+    // Square presets always show; custom sizes and torus/hex variants get a row once played.
+    const boards: RankedBoard[] = [
+      ...Object.values(PRESETS).map(p => ({ ...p, noGuess: false })),
+      ...this.stats.playedVariants(),
+    ];
+    this.rows = boards.map(b => ({
+      label: rankingKey(b),
+      time: this.game.getBestTimeSec(b),
+      noGuessTime: this.game.getBestTimeSec({ ...b, noGuess: true }),
+    }));
+    this.daily = this.dailies.history();
+    this.streak = this.dailies.streak();
+  }
+  copy(date: string){
+    const text = this.dailies.shareText(date);
+    if (text) navigator.clipboard?.writeText(text).then(() => this.copied = `Copied ${date}`, () => {});
   }
+  /** Clears recorded games only; the reset can be undone for a few seconds. */
   reset(){
-    localStorage.removeItem('ms-best-times');
+    this.profiles.reset(['stats']);
+    this.confirming = false;
+    this.undoing = true;
+    clearTimeout(this.undoTimer);
+    this.undoTimer = setTimeout(() => this.undoing = false, RESET_UNDO_MS);
+    this.refresh();
+  }
+  undoReset(){
+    this.profiles.undoReset();
+    this.undoing = false;
+    clearTimeout(this.undoTimer);
     this.refresh();
   }
 }
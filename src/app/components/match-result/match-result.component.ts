@@ -0,0 +1,53 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GameStatus } from '../../models/game-state';
+import { MatchState, PlayerState } from '../../models/match';
+
+/** End-of-match summary: who won and why, each player's score and time, and what to do next. */
+@Component({
+  selector: 'app-match-result',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <section class="result" aria-live="polite" *ngIf="match.result as r">
+    <h2>{{ r.winner === null ? '🤝 Draw' : '🏆 ' + match.players[r.winner].name + ' wins' }}</h2>
+    <p>{{ r.reason }}</p>
+    <table>
+      <thead><tr><th>Player</th><th>{{ scoreLabel }}</th><th>Time</th><th>Board</th></tr></thead>
+      <tbody>
+        <tr *ngFor="let p of match.players; let seat = index" [class.winner]="r.winner === seat">
+          <td>{{ p.name }}</td>
+          <td>{{ p.score }}</td>
+          <td>{{ (p.elapsedMs / 1000) | number: '1.1-1' }}s</td>
+          <td>{{ outcome(p) }}</td>
+        </tr>
+      </tbody>
+    </table>
+    <div class="actions">
+      <button (click)="rematch.emit()" [disabled]="match.opponentLeft">🔁 Rematch</button>
+      <button (click)="leave.emit()">Back to lobby</button>
+    </div>
+  </section>
+  `,
+  styles: [`
+    .result { margin-bottom: 12px; }
+    h2 { margin: 0 0 4px 0; }
+    p { margin: 0 0 10px 0; color: var(--muted); }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 10px; }
+    th, td { padding: 6px 10px; border-bottom: 1px solid #263064; text-align: left; }
+    tr.winner td { color: #fde68a; font-weight: 700; }
+    .actions { display: flex; gap: 8px; }
+  `]
+})
+export class MatchResultComponent {
+  @Input({ required: true }) match!: MatchState;
+  @Output() rematch = new EventEmitter<void>();
+  @Output() leave = new EventEmitter<void>();
+
+  get scoreLabel(): string { return this.match.setup?.mode === 'flags' ? 'Mines found' : 'Cells cleared'; }
+
+  outcome(p: PlayerState): string {
+    if (this.match.setup?.mode === 'flags') return '—';
+    return p.status === GameStatus.Won ? '🎉 Cleared' : p.status === GameStatus.Lost ? '💥 Hit a mine' : '⏳ Unfinished';
+  }
+}
@@ -0,0 +1,49 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { LossCause, PostMortem } from '../../models/loss';
+import { formatPercent } from '../../solver/solver';
+
+/** After a loss: a verdict on the fatal click (or the countdown that ran out), and what the final board shows. */
+@Component({
+  selector: 'app-post-mortem',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <section class="post-mortem" [ngClass]="postMortem?.verdict ?? 'time'" aria-live="polite">
+    <ng-container *ngIf="postMortem as pm; else outOfTime">
+      <h3>{{ pm.verdict === 'mistake' ? '🧐 Avoidable: a logical mistake' : '🎲 Unlucky: a forced guess' }}</h3>
+      <p>
+        {{ pm.move === 'chord' ? 'Chording' : 'Revealing' }} row {{ pm.cell.y + 1 }}, column {{ pm.cell.x + 1 }}.
+        {{ pm.reason }}
+      </p>
+    </ng-container>
+    <ng-template #outOfTime>
+      <h3>⌛ Out of time</h3>
+      <p>The countdown ran out before the board was cleared.</p>
+    </ng-template>
+    <div class="stats">
+      <ng-container *ngIf="postMortem as pm">
+        <span class="badge" title="From the numbers you could see, flags ignored">💥 Mine chance: {{ percent(pm.probability) }}</span>
+        <span class="badge" title="The lowest mine chance of any hidden cell at that moment">🛟 Safest cell: {{ percent(pm.safest) }}</span>
+      </ng-container>
+      <span class="badge" *ngIf="loss.wrongFlags.length">❌ Wrong flags: {{ loss.wrongFlags.length }}</span>
+      <span class="badge">💣 Unflagged mines: {{ loss.missedMines.length }}</span>
+    </div>
+  </section>
+  `,
+  styles: [`
+    .post-mortem { margin: 10px 0 0 0; padding: .6rem .8rem; border-radius: 10px; border: 1px solid var(--border); }
+    .post-mortem.mistake { border-color: var(--hint-mine); }
+    .post-mortem.guess, .post-mortem.time { border-color: var(--hint-guess); }
+    h3 { margin: 0 0 4px 0; font-size: 1rem; }
+    p { margin: 0 0 8px 0; color: var(--muted); }
+  `]
+})
+export class PostMortemComponent {
+  @Input({ required: true }) loss!: LossCause;
+
+  /** The verdict on the losing move; none when time ran out. */
+  get postMortem(): PostMortem | null { return this.loss.cause === 'mine' ? this.loss.postMortem : null; }
+
+  percent(p: number): string { return formatPercent(p); }
+}
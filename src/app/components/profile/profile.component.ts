@@ -0,0 +1,161 @@
+import { Component, DestroyRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ImportMode, ImportReport, PROFILE_SECTIONS, Profile, ProfileSection } from '../../models/profile';
+import { ProfileImportError, ProfileService, RESET_UNDO_MS } from '../../services/profile.service';
+
+const SECTION_LABELS: Record<ProfileSection, string> = {
+  settings: 'settings',
+  stats: 'games',
+  daily: 'daily results',
+  customPresets: 'custom presets',
+  achievements: 'achievements',
+};
+
+/** Back up, move or wipe the local profile: export, import with a report, and reset with undo. */
+@Component({
+  selector: 'app-profile',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <section>
+    <h3>Profile</h3>
+    <p class="muted">
+      Settings, every recorded game (and so your best times), daily results, custom presets and achievements live in
+      this browser only. Export them to a file to back them up or move them to another machine.
+    </p>
+    <div class="actions">
+      <button (click)="export()">⬇ Export profile</button>
+      <label class="file-button">⬆ Import profile…
+        <input #file type="file" accept="application/json,.json" (change)="choose(file)">
+      </label>
+    </div>
+
+    <div class="pending" *ngIf="pending as p">
+      <p>
+        <strong>{{ pendingName }}</strong>: {{ p.stats.length }} games, {{ p.daily.length }} daily results,
+        {{ p.customPresets.length }} custom presets.
+      </p>
+      <label class="toggle"><input type="radio" name="mode" [checked]="mode === 'merge'" (change)="mode = 'merge'">
+        Merge: add what this browser doesn't have and keep its own version of anything that differs</label>
+      <label class="toggle"><input type="radio" name="mode" [checked]="mode === 'replace'" (change)="mode = 'replace'">
+        Replace: make this browser's profile exactly the file's</label>
+      <button (click)="import()">Import</button>
+      <button (click)="pending = null">Cancel</button>
+    </div>
+
+    <div class="report" *ngIf="report as r" aria-live="polite">
+      <p>
+        {{ r.mode === 'merge' ? 'Merged' : 'Replaced' }}: {{ summary(r) }}.
+        <ng-container *ngIf="r.duplicates">{{ r.duplicates }} already here.</ng-container>
+      </p>
+      <ng-container *ngIf="r.conflicts.length">
+        <p>{{ r.conflicts.length }} conflict{{ r.conflicts.length === 1 ? '' : 's' }}, kept as they were here:</p>
+        <ul>
+          <li *ngFor="let c of r.conflicts"><strong>{{ sectionLabel(c.section) }} · {{ c.key }}</strong>: {{ c.detail }}</li>
+        </ul>
+      </ng-container>
+    </div>
+    <ul class="problems" *ngIf="problems.length" aria-live="polite">
+      <li *ngFor="let p of problems">{{ p }}</li>
+    </ul>
+
+    <div class="actions">
+      <button *ngIf="!confirming && !undoing" (click)="confirming = true">Reset profile…</button>
+      <span *ngIf="confirming" role="alert">
+        Delete all settings, games, daily results, presets and achievements in this browser?
+        <button class="danger" (click)="reset()">Delete everything</button>
+        <button (click)="confirming = false">Cancel</button>
+      </span>
+      <span *ngIf="undoing" aria-live="polite">
+        Profile reset. <button (click)="undoReset()">↩ Undo</button>
+      </span>
+    </div>
+  </section>
+  `,
+  styles: [`
+    h3 { margin: 18px 0 8px 0; }
+    .muted { color: var(--muted); margin: 0 0 8px 0; }
+    .actions { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 8px 0; }
+    .file-button input { display: none; }
+    .file-button {
+      padding: .45rem .8rem; border-radius: 10px; border: 1px solid var(--border); background: var(--surface);
+      cursor: pointer;
+    }
+    .toggle { display: flex; gap: 8px; align-items: center; margin-bottom: 6px; }
+    .pending, .report { padding: .6rem .8rem; border-radius: 10px; border: 1px solid var(--border); margin: 8px 0; }
+    .problems { color: var(--hint-mine); }
+    .danger { border-color: var(--hint-mine); }
+  `]
+})
+export class ProfileComponent {
+  private readonly profiles = inject(ProfileService);
+  /** A parsed file waiting for the merge/replace choice. */
+  pending: Profile | null = null;
+  pendingName = '';
+  mode: ImportMode = 'merge';
+  report: ImportReport | null = null;
+  problems: string[] = [];
+  confirming = false;
+  undoing = false;
+  private undoTimer?: ReturnType<typeof setTimeout>;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => clearTimeout(this.undoTimer));
+  }
+
+  sectionLabel(s: ProfileSection): string { return SECTION_LABELS[s]; }
+
+  summary(r: ImportReport): string {
+    const parts = PROFILE_SECTIONS.filter(s => s !== 'settings' && r.added[s])
+      .map(s => `${r.added[s]} ${SECTION_LABELS[s]}`);
+    return parts.length ? parts.join(', ') + ' added' : 'nothing new';
+  }
+
+  export(){
+    const blob = new Blob([this.profiles.serialize()], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `minesweeper-profile-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  choose(input: HTMLInputElement){
+    const file = input.files?.[0];
+    if (!file) return;
+    this.report = null;
+    file.text().then(text => {
+      try {
+        this.pending = this.profiles.parse(text);
+        this.pendingName = file.name;
+        this.problems = [];
+      } catch (e) {
+        if (!(e instanceof ProfileImportError)) throw e;
+        this.pending = null;
+        this.problems = e.problems;
+      }
+      input.value = '';
+    });
+  }
+
+  import(){
+    if (!this.pending) return;
+    this.report = this.profiles.import(this.pending, this.mode);
+    this.pending = null;
+  }
+
+  reset(){
+    this.profiles.reset();
+    this.confirming = false;
+    this.report = null;
+    this.undoing = true;
+    clearTimeout(this.undoTimer);
+    this.undoTimer = setTimeout(() => this.undoing = false, RESET_UNDO_MS);
+  }
+
+  undoReset(){
+    this.profiles.undoReset();
+    this.undoing = false;
+    clearTimeout(this.undoTimer);
+  }
+}
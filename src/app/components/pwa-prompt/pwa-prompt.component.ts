@@ -0,0 +1,40 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PwaService } from '../../services/pwa.service';
+
+/** Offers a reload when a new version is ready, the install button, and a note once the app works offline. */
+@Component({
+  selector: 'app-pwa-prompt',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <div class="prompts" aria-live="polite" *ngIf="state$ | async as s">
+    <div class="prompt" role="status" *ngIf="s.updateAvailable">
+      <span>🔄 A new version is ready. Reloading keeps your game.</span>
+      <button (click)="pwa.applyUpdate()">Reload</button>
+      <button (click)="pwa.dismissUpdate()" aria-label="Later">×</button>
+    </div>
+    <div class="prompt" role="status" *ngIf="s.offlineReady">
+      <span>📶 Ready to play offline.</span>
+      <button (click)="pwa.dismissOfflineReady()" aria-label="Dismiss">×</button>
+    </div>
+    <div class="prompt" *ngIf="s.installable">
+      <span>📲 Play from your home screen, even offline.</span>
+      <button (click)="pwa.install()">Install</button>
+    </div>
+  </div>
+  `,
+  styles: [`
+    .prompts { position: fixed; left: 16px; bottom: 16px; display: flex; flex-direction: column; gap: 8px; z-index: 10; }
+    .prompt {
+      display: flex; align-items: center; gap: 10px; max-width: 360px; padding: .6rem .8rem; border-radius: 10px;
+      background: var(--panel); border: 1px solid var(--focus); color: var(--text);
+      box-shadow: 0 6px 18px rgba(0, 0, 0, .3);
+    }
+    .prompt button:last-child { padding: 0 8px; }
+  `]
+})
+export class PwaPromptComponent {
+  readonly pwa = inject(PwaService);
+  readonly state$ = this.pwa.state$;
+}
@@ -0,0 +1,144 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StatsService } from '../../services/stats.service';
+import { Difficulty } from '../../models/game-state';
+import { GameRecord, StatsSummary } from '../../models/stats';
+import { PRESETS } from '../../models/presets';
+import { RankedBoard, rankingKey } from '../../utils/ranking';
+import { isOneOf } from '../../utils/guards';
+import { TOPOLOGIES, TOPOLOGY_KINDS, TopologyKind } from '../../models/topology';
+
+@Component({
+  selector: 'app-statistics',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <div class="panel">
+    <h2>📊 Statistics</h2>
+    <div class="tabs" role="tablist">
+      <button *ngFor="let d of difficulties" role="tab" [attr.aria-selected]="d === selected"
+              [class.active]="d === selected" (click)="select(d)">{{ d }}</button>
+    </div>
+
+    <div class="stats">
+      <span class="badge">🎮 Played: {{ summary.played }}</span>
+      <span class="badge">🏁 Win rate: {{ summary.winRate | percent: '1.0-1' }}</span>
+      <span class="badge">🔥 Streak: {{ summary.currentStreak }} (best {{ summary.bestStreak }})</span>
+      <span class="badge">⏱ Avg win: {{ summary.averageTimeSec === null ? '—' : (summary.averageTimeSec | number: '1.1-1') + 's' }}</span>
+      <span class="badge">⚡ Avg 3BV/s: {{ summary.averageBbbvPerSec === null ? '—' : (summary.averageBbbvPerSec | number: '1.2-2') }}</span>
+    </div>
+
+    <h3>Top 10</h3>
+    <select #topo (change)="setTopology(topo.value)" aria-label="Board topology">
+      <option *ngFor="let t of topologies" [value]="t" [selected]="t === topology">{{ topologyLabel(t) }}</option>
+    </select>
+    <select *ngIf="selected === 'Custom' && customBoards.length" #size (change)="customIndex = +size.value; refresh()" aria-label="Custom board size">
+      <option *ngFor="let b of customBoards; let i = index" [value]="i" [selected]="i === customIndex">{{ boardKey(b) }}</option>
+    </select>
+    <label class="toggle"><input #ng type="checkbox" [checked]="noGuess" (change)="noGuess = ng.checked; refresh()"> No-guess boards</label>
+    <table *ngIf="top.length; else noWins">
+      <thead><tr><th>#</th><th>Time (s)</th><th>Date</th><th>Board</th><th>3BV</th><th>3BV/s</th><th>Clicks</th><th>IOE</th><th>Hints</th></tr></thead>
+      <tbody>
+        <tr *ngFor="let g of top; let i = index">
+          <td>{{ i + 1 }}</td>
+          <td>{{ g.timeMs / 1000 | number: '1.1-1' }}</td>
+          <td>{{ g.migrated ? 'imported' : (g.date | date: 'mediumDate') }}</td>
+          <td>{{ boardLabel(g) }}</td>
+          <td>{{ g.bbbv ?? '—' }}</td>
+          <td>{{ bbbvPerSec(g) === null ? '—' : (bbbvPerSec(g) | number: '1.2-2') }}</td>
+          <td>{{ g.clicks ?? '—' }}</td>
+          <td>{{ ioe(g) === null ? '—' : (ioe(g) | number: '1.2-2') }}</td>
+          <td>{{ g.hintsUsed ?? '—' }}</td>
+        </tr>
+      </tbody>
+    </table>
+    <ng-template #noWins><p class="muted">No ranked wins yet.</p></ng-template>
+
+    <h3>Recent games</h3>
+    <table *ngIf="recent.length; else noGames">
+      <thead><tr><th>Date</th><th>Result</th><th>Time (s)</th><th>Board</th><th>3BV</th><th>Clicks</th><th>IOE</th><th>Hints</th></tr></thead>
+      <tbody>
+        <tr *ngFor="let g of recent">
+          <td>{{ g.migrated ? 'imported' : (g.date | date: 'short') }}</td>
+          <td>{{ g.won ? '🎉 Won' : '💥 Lost' }}{{ g.ranked ? '' : ' (practice)' }}</td>
+          <td>{{ g.timeMs / 1000 | number: '1.1-1' }}</td>
+          <td>{{ boardLabel(g) }}</td>
+          <td>{{ bbbvLabel(g) }}</td>
+          <td>{{ g.clicks ?? '—' }}</td>
+          <td>{{ ioe(g) === null ? '—' : (ioe(g) | number: '1.2-2') }}</td>
+          <td>{{ g.hintsUsed ?? '—' }}</td>
+        </tr>
+      </tbody>
+    </table>
+    <ng-template #noGames><p class="muted">No games played yet.</p></ng-template>
+  </div>
+  `,
+  styles: [`
+    h2 { margin: 0 0 8px 0; }
+    h3 { margin: 18px 0 8px 0; }
+    .tabs { display: flex; gap: 8px; margin-bottom: 12px; flex-wrap: wrap; }
+    .tabs button.active { background: #19235b; border-color: #3a4a9a; }
+    table { width:100%; border-collapse: collapse; margin-top: 8px; }
+    th, td { padding: 6px 10px; border-bottom: 1px solid #263064; text-align: left; }
+    .muted { color: var(--muted); }
+  `]
+})
+export class StatisticsComponent {
+  difficulties: Difficulty[] = ['Beginner', 'Intermediate', 'Expert', 'Daily', 'Custom'];
+  selected: Difficulty = 'Beginner';
+  noGuess = false;
+  topologies = TOPOLOGY_KINDS;
+  topology: TopologyKind = 'square';
+  customBoards: RankedBoard[] = [];
+  customIndex = 0;
+  summary!: StatsSummary;
+  top: GameRecord[] = [];
+  recent: GameRecord[] = [];
+
+  constructor(private stats: StatsService) {
+    this.refresh();
+  }
+
+  select(d: Difficulty){
+    this.selected = d;
+    this.customIndex = 0;
+    this.refresh();
+  }
+  setTopology(topology: string){
+    if (!isOneOf(topology, TOPOLOGY_KINDS)) return;
+    this.topology = topology;
+    this.customIndex = 0;
+    this.refresh();
+  }
+  refresh(){
+    this.customBoards = this.stats.playedVariants().filter(b => b.difficulty === 'Custom' && b.topology === this.topology);
+    this.summary = this.stats.summary(this.selected);
+    const board = this.selected === 'Custom'
+      ? this.customBoards[this.customIndex]
+      : { ...PRESETS[this.selected], topology: this.topology, noGuess: false };
+    this.top = board ? this.stats.topTimes({ ...board, noGuess: this.noGuess }) : [];
+    this.recent = this.stats.recent(this.selected);
+  }
+
+  boardKey(b: RankedBoard): string { return rankingKey(b); }
+  topologyLabel(t: TopologyKind): string { return TOPOLOGIES[t].label; }
+
+  boardLabel(g: GameRecord): string {
+    if (!g.rows) return '—';
+    const topology = g.topology && g.topology !== 'square' ? ` · ${TOPOLOGIES[g.topology].label}` : '';
+    return `${g.rows}×${g.cols} · ${g.mines}${topology}`;
+  }
+  bbbvPerSec(g: GameRecord): number | null {
+    return g.bbbv !== null && g.timeMs > 0 ? g.bbbv / (g.timeMs / 1000) : null;
+  }
+  /** Losses show how much of the board's 3BV was cleared. */
+  bbbvLabel(g: GameRecord): string {
+    if (g.bbbv === null) return '—';
+    return g.won || g.solvedBbbv === undefined ? `${g.bbbv}` : `${g.solvedBbbv}/${g.bbbv}`;
+  }
+  /** Efficiency: 3BV cleared per click. */
+  ioe(g: GameRecord): number | null {
+    const solved = g.won ? g.bbbv : g.solvedBbbv;
+    return solved != null && g.clicks ? solved / g.clicks : null;
+  }
+}
@@ -1,7 +1,12 @@
-import { Component, Input, OnDestroy } from '@angular/core';
+import { Component, Input, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Hint } from '../../models/hint';
 import { Tile } from '../../models/tile';
+import { Topology } from '../../models/topology';
 import { GameService } from '../../services/game.service';
+import { SettingsService } from '../../services/settings.service';
+import { ThemeService, ThemeState } from '../../services/theme.service';
+import { formatPercent } from '../../solver/solver';
 
 @Component({
   selector: 'app-tile',
@@ -10,61 +15,95 @@ import { GameService } from '../../services/game.service';
   templateUrl: './tile.component.html',
   styleUrls: ['./tile.component.css']
 })
-export class TileComponent implements OnDestroy {
+export class TileComponent {
   @Input({ required: true }) tile!: Tile;
-  private pressTimer?: any;
-
-  constructor(private game: GameService) {}
-
-  ngOnDestroy(): void { this.clearPressTimer(); }
+  /** Hint highlight for this tile, if the latest hint points at it. */
+  @Input() highlight: Hint['kind'] | null = null;
+  @Input() interactive = true;
+  /** The board's single tab stop (roving tabindex); every other tile is focusable only by script. */
+  @Input() focusable = false;
+  /** Under a key-driven cursor (split-screen matches). */
+  @Input() cursor = false;
+  @Input() shape: Topology['shape'] = 'square';
+  /** Mine probability shown by the analysis overlay; null hides it. */
+  @Input() probability: number | null = null;
+  /** The game was lost: wrong flags show as such. */
+  @Input() lost = false;
+  /** Clicks flag instead of reveal (the board's flag mode). */
+  @Input() flagMode = false;
+  private readonly game = inject(GameService);
+  private readonly settings = inject(SettingsService);
+  private readonly themes = inject(ThemeService);
 
   onClick(): void {
-    this.game.reveal(this.tile);
+    if (!this.interactive) return;
+    if (this.flagMode) this.game.mark(this.tile);
+    else this.game.activate(this.tile);
   }
   onRightClick(ev: MouseEvent): void {
     ev.preventDefault();
-    this.game.toggleFlag(this.tile);
+    if (!this.interactive) return;
+    this.game.mark(this.tile);
   }
-  onDblClick(): void { this.game.chord(this.tile); }
-  onAuxClick(ev: MouseEvent): void { if (ev.button === 1) this.game.chord(this.tile); }
+  onDblClick(): void { if (this.interactive) this.game.chord(this.tile); }
+  onAuxClick(ev: MouseEvent): void { if (this.interactive && ev.button === 1) this.game.chord(this.tile); }
 
-  // keyboard controls
+  // keyboard controls, as bound in settings
   onKeyDown(ev: KeyboardEvent): void {
-    if (ev.key === ' ' || ev.key === 'Enter') {
-      // Enter on a revealed number will chord
+    if (!this.interactive) return;
+    const action = this.settings.keyAction(ev);
+    if (!action) return;
+    if (action === 'reveal') {
+      // The reveal key on a revealed number will chord
       if (this.tile.isRevealed && !this.tile.isMine && this.tile.adjacentMines > 0) {
         this.game.chord(this.tile);
       } else {
         this.game.reveal(this.tile);
       }
-      ev.preventDefault();
-    } else if (ev.key.toLowerCase() === 'f') {
-      this.game.toggleFlag(this.tile);
-      ev.preventDefault();
-    } else if (ev.key.toLowerCase() === 'c') {
+    } else if (action === 'flag') {
+      this.game.mark(this.tile);
+    } else {
       this.game.chord(this.tile);
-      ev.preventDefault();
     }
+    ev.preventDefault();
   }
 
-  // touch long-press to flag
-  onTouchStart(): void {
-    this.clearPressTimer();
-    this.pressTimer = setTimeout(() => {
-      this.game.toggleFlag(this.tile);
-      this.pressTimer = undefined;
-    }, 450);
+  get theme(): ThemeState { return this.themes.snapshot; }
+  get isWrongFlag(): boolean { return this.lost && this.tile.isFlagged && !this.tile.isMine; }
+  /** Opened mines: the one that exploded, correctly flagged ones, and the rest. */
+  get mineGlyph(): string {
+    const glyphs = this.theme.theme.glyphs;
+    return this.tile.isExploded ? glyphs.exploded : this.tile.isFlagged ? glyphs.flag : glyphs.mine;
   }
-  onTouchEnd(): void {
-    if (this.pressTimer) this.game.reveal(this.tile);
-    this.clearPressTimer();
+  numberClass(n: number): string { return n > 0 ? 'n' + n : ''; }
+  get showProbability(): boolean {
+    return this.probability !== null && !this.tile.isRevealed && !this.tile.isFlagged && !this.tile.isQuestioned;
   }
-  private clearPressTimer(): void { if (this.pressTimer) { clearTimeout(this.pressTimer); this.pressTimer = undefined; } }
+  ariaLabel(): string { return describeTile(this.tile, this.highlight, this.probability, this.lost); }
+  percentLabel(p: number): string { return percentLabel(p); }
+}
 
-  numberClass(n: number): string { return n > 0 ? 'n' + n : ''; }
-  ariaLabel(): string {
-    if (!this.tile.isRevealed) return this.tile.isFlagged ? 'flagged tile' : 'hidden tile';
-    if (this.tile.isMine) return 'mine';
-    return this.tile.adjacentMines === 0 ? 'empty tile' : `${this.tile.adjacentMines} adjacent mines`;
+/** Short enough for a tile; never rounds a possible mine to 0% or an uncertain one to 100%. */
+export function percentLabel(p: number): string {
+  if (p > 0 && p < 0.01) return '<1';
+  if (p < 1 && p > 0.99) return '>99';
+  return String(Math.round(p * 100));
+}
+
+/** Spoken state of a tile, shared by the tile's label and the board's focus announcements. */
+export function describeTile(
+  tile: Tile, highlight: Hint['kind'] | null = null, probability: number | null = null, lost = false,
+): string {
+  if (!tile.isRevealed && highlight) {
+    return highlight === 'guess' ? 'hidden tile, suggested guess' : `hidden tile, hint: ${highlight}`;
+  }
+  if (!tile.isRevealed && !tile.isFlagged && !tile.isQuestioned && probability !== null) {
+    return `hidden tile, mine probability ${formatPercent(probability)}`;
+  }
+  if (lost && tile.isFlagged && !tile.isMine) return 'wrong flag, no mine here';
+  if (!tile.isRevealed) return tile.isFlagged ? 'flagged tile' : tile.isQuestioned ? 'hidden tile, question mark' : 'hidden tile';
+  if (tile.isMine) {
+    return tile.isExploded ? 'exploded mine' : tile.isFlagged ? 'flagged mine' : lost ? 'missed mine' : 'mine';
   }
+  return tile.adjacentMines === 0 ? 'empty tile' : `${tile.adjacentMines} adjacent mines`;
 }
@@ -0,0 +1,104 @@
+import { GameStatus } from '../../models/game-state';
+import { FLAGGED, QUESTION, REVEALED, mineIndices, toTiles } from '../../models/board';
+import { Puzzle } from '../../models/puzzle';
+import { NO_GUESS_BUDGET, chord, newGame, newPuzzle, reveal, toggleMarker, undo, unsolvedPuzzleCells } from '../game-engine';
+import { RANDOM_BOT, SOLVER_BOT } from '../bots';
+import { playGame, simulate } from '../simulate';
+
+describe('game engine', () => {
+  it('plays pure steps: the state passed in never changes', () => {
+    const created = newGame(9, 9, 10, 'Beginner', { seed: 3 });
+    expect(created.events.map(e => e.type)).toEqual(['game-created']);
+    const start = created.state;
+
+    const first = reveal(start, { x: 4, y: 4 }, 0)!;
+    expect(start.status).toBe(GameStatus.Ready);
+    expect(start.moves).toEqual([]);
+    expect(first.state.status).toBe(GameStatus.Playing);
+    expect(first.events.map(e => e.type)).toEqual(['game-started', 'tile-revealed', 'flood-filled']);
+
+    const hidden = toTiles(first.state.board).flat().find(t => !t.isRevealed)!;
+    const flagged = toggleMarker(first.state, hidden, 'flag', 1500)!;
+    expect(flagged.state.flagsPlaced).toBe(1);
+    expect(first.state.flagsPlaced).toBe(0);
+    expect(flagged.state.moves.at(-1)).toEqual({ kind: 'flag', x: hidden.x, y: hidden.y, t: 1500 });
+
+    const back = undo(first.state, flagged.state, 2000);
+    expect(back.state.flagsPlaced).toBe(0);
+    expect(back.state.practice).toBeTrue();
+    expect(back.state.moves.length).toBe(3);
+  });
+
+  it('keeps flags and ? marks placed before the first reveal', () => {
+    let s = newGame(9, 9, 10, 'Beginner', { seed: 3 }).state;
+    s = toggleMarker(s, { x: 0, y: 0 }, 'flag', 0)!.state;
+    s = toggleMarker(s, { x: 0, y: 8 }, 'question', 0)!.state;
+    s = reveal(s, { x: 4, y: 4 }, 0)!.state;
+    expect(s.status).toBe(GameStatus.Playing);
+    expect(s.board.cells[0] & FLAGGED).toBe(FLAGGED);
+    expect(s.board.cells[72] & QUESTION).toBe(QUESTION);
+    expect(s.flagsPlaced).toBe(1);
+    expect(s.minesLeft).toBe(9);
+    expect(mineIndices(s.board).length).toBe(10);
+  });
+
+  it('returns null for moves that do not apply, and counts wasted clicks', () => {
+    const won = reveal(newGame(2, 2, 0).state, { x: 0, y: 0 }, 0)!.state;
+    expect(won.status).toBe(GameStatus.Won);
+    expect(reveal(won, { x: 1, y: 1 }, 0)).toBeNull();
+    expect(toggleMarker(won, { x: 1, y: 1 }, 'flag', 0)).toBeNull();
+
+    const playing = reveal(newGame(9, 9, 10, 'Beginner', { seed: 3 }).state, { x: 4, y: 4 }, 0)!.state;
+    const step = chord(playing, { x: 4, y: 4 }, 0)!;
+    expect(step.state.clicks.wasted).toBe(1);
+    expect(step.state.moves).toBe(playing.moves);
+  });
+
+  it('simulates seeded games repeatably, and the solver bot beats random clicking', () => {
+    const options = { difficulty: 'Beginner' as const, games: 20, seed: 11 };
+    const solver = simulate({ ...options, bot: SOLVER_BOT });
+    expect(simulate({ ...options, bot: SOLVER_BOT })).toEqual(solver);
+    const random = simulate({ ...options, bot: RANDOM_BOT });
+    expect(solver.winRate).toBeGreaterThan(random.winRate);
+    expect(solver.cleanWins).toBeLessThanOrEqual(solver.wins);
+    expect(solver.games - solver.guessedGames).toBeGreaterThanOrEqual(solver.cleanWins);
+  });
+
+  it('never needs a guess on no-guess boards', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const outcome = playGame({ difficulty: 'Intermediate', bot: SOLVER_BOT, noGuess: true }, seed);
+      expect(outcome).toEqual(jasmine.objectContaining({ won: true, guesses: 0 }));
+    }
+  });
+
+  it('gives up on no-guess generation within its time budget, even on the largest board', () => {
+    const s = newGame(500, 500, 50_000, 'Custom', { seed: 5, noGuess: true }).state;
+    const started = Date.now();
+    const placed = reveal(s, { x: 250, y: 250 }, 0)!.state;
+    expect(Date.now() - started).toBeLessThan(NO_GUESS_BUDGET.ms + 1000);
+    expect(placed.status).toBe(GameStatus.Playing);
+    expect(mineIndices(placed.board).length).toBe(50_000);
+    expect(placed.noGuessVerified).toBeFalse();
+  });
+
+  it('plays hand-made puzzles on their fixed layout, with the start region open', () => {
+    // Mines at (0,0) and (1,1); the corner opposite opens everything but (1,0) and (0,1).
+    const puzzle: Puzzle = { name: 'Corner', rows: 4, cols: 4, topology: 'square', mines: [0, 5], revealed: [15] };
+    expect(unsolvedPuzzleCells(puzzle)).toBe(0);
+    expect(unsolvedPuzzleCells({ ...puzzle, rows: 2, cols: 2, mines: [0], revealed: [3] })).toBe(2);
+
+    const start = newPuzzle(puzzle).state;
+    expect(start.status).toBe(GameStatus.Ready);
+    expect(start.firstClick).toBeFalse();
+    expect(start.board.safeLeft).toBe(2);
+    expect(start.board.cells[15] & REVEALED).toBeTruthy();
+
+    // Clicking next to a mine would move it on a random board; here the layout stays.
+    const first = reveal(start, { x: 1, y: 0 }, 0)!.state;
+    expect(first.status).toBe(GameStatus.Playing);
+    expect(mineIndices(first.board)).toEqual([0, 5]);
+    expect(reveal(first, { x: 0, y: 1 }, 900)!.state.status).toBe(GameStatus.Won);
+    expect(reveal(start, { x: 0, y: 0 }, 0)!.state.status).toBe(GameStatus.Lost);
+    expect(() => newPuzzle({ ...puzzle, revealed: [0] })).toThrowError(/start region/);
+  });
+});
@@ -0,0 +1,84 @@
+import { GameState } from '../models/game-state';
+import { FLAGGED, REVEALED, toTiles } from '../models/board';
+import { Cell } from '../models/topology';
+import { findDeductions, suggestHint } from '../solver/solver';
+import { createRng } from '../utils/rng';
+
+/** A move a bot chose. `guess` marks a reveal the visible numbers didn't prove safe. */
+export interface BotMove {
+  kind: 'reveal' | 'flag' | 'chord';
+  cell: Cell;
+  guess?: boolean;
+}
+
+/** Plays one game: asked for a move after every step, from what is visible. */
+export interface Bot {
+  next(s: GameState): BotMove | null;
+}
+
+/** Makes a fresh bot for each game; `seed` drives any randomness so runs repeat exactly. */
+export interface BotFactory {
+  readonly name: string;
+  readonly description: string;
+  create(seed: number): Bot;
+}
+
+/** The first click is always safe; take the cell a shared board was made around, else the center. */
+function opening(s: GameState): BotMove {
+  return { kind: 'reveal', cell: s.firstClickCell ?? { x: Math.floor(s.cols / 2), y: Math.floor(s.rows / 2) } };
+}
+
+const isHidden = (s: GameState, { x, y }: Cell) => !(s.board.cells[y * s.cols + x] & (REVEALED | FLAGGED));
+
+/**
+ * Plays like a careful human with the hint solver: every move the numbers prove (flagging certain
+ * mines), and the least likely mine when nothing is certain. Its guesses show how often a board
+ * can't be cleared by logic alone.
+ */
+export const SOLVER_BOT: BotFactory = {
+  name: 'solver',
+  description: 'Certain moves first, then the lowest mine probability',
+  create: () => {
+    // Every certain move found at once, played one per step while it still applies.
+    let queue: BotMove[] = [];
+    return {
+      next(s) {
+        if (s.firstClick) return opening(s);
+        queue = queue.filter(m => isHidden(s, m.cell));
+        if (!queue.length) {
+          const tiles = toTiles(s.board);
+          queue = findDeductions(tiles, s.mines, s.topology)
+            .map((h): BotMove => ({ kind: h.kind === 'mine' ? 'flag' : 'reveal', cell: { x: h.x, y: h.y } }));
+          if (!queue.length) {
+            const hint = suggestHint(tiles, s.mines, s.topology);
+            if (!hint) return null;
+            return { kind: 'reveal', cell: { x: hint.x, y: hint.y }, guess: true };
+          }
+        }
+        return queue.shift()!;
+      },
+    };
+  },
+};
+
+/** Reveals hidden cells at random: a baseline that anything smarter should beat. */
+export const RANDOM_BOT: BotFactory = {
+  name: 'random',
+  description: 'Reveals a random hidden cell every move',
+  create: seed => {
+    const rng = createRng(seed);
+    return {
+      next(s) {
+        if (s.firstClick) return opening(s);
+        const hidden: Cell[] = [];
+        for (let i = 0; i < s.board.cells.length; i++) {
+          if (!(s.board.cells[i] & (REVEALED | FLAGGED))) hidden.push({ x: i % s.cols, y: Math.floor(i / s.cols) });
+        }
+        if (!hidden.length) return null;
+        return { kind: 'reveal', cell: hidden[Math.floor(rng() * hidden.length)], guess: true };
+      },
+    };
+  },
+};
+
+export const BOTS: BotFactory[] = [SOLVER_BOT, RANDOM_BOT];
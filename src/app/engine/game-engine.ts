@@ -0,0 +1,321 @@
+import { ClickCounts, Difficulty, GameState, GameStatus, NewGameOptions } from '../models/game-state';
+import { GameEvent } from '../models/game-event';
+import { Hint } from '../models/hint';
+import { Puzzle, validatePuzzle } from '../models/puzzle';
+import { Move, MoveKind } from '../models/replay';
+import {
+  Board, BoardPatch, FLAGGED, MINE, QUESTION, REVEALED, createBoard, openCells, revealMines, toTiles, withMines,
+} from '../models/board';
+import { Cell, neighborIndices } from '../models/topology';
+import { createRng, deriveSeed, randomSeed, shuffle } from '../utils/rng';
+import { BoardConfigError, validateBoardConfig } from '../utils/board-config';
+import { solvedThreeBV, threeBV } from '../utils/metrics';
+import { suggestHint } from '../solver/solver';
+import { unsolvedCellsFrom, unsolvedCellsFromRegion } from '../solver/no-guess';
+import { explainLoss, explainTimeout } from '../solver/post-mortem';
+
+/**
+ * The rules of the game as pure functions over `GameState`, free of Angular, timers and storage, so
+ * they run the same in the app, in specs and in Node (bots, batch simulation). Each action returns
+ * the next state and the events it led to, or null when it doesn't apply (e.g. after the game ended).
+ * Play time comes in from the caller as `elapsedMs`; the engine never reads a clock.
+ */
+
+/**
+ * No-guess generation gives up after whichever limit is hit first and keeps the closest layout. The time
+ * limit also cuts a single solve short, so even the largest boards come back within about `ms`.
+ */
+export const NO_GUESS_BUDGET = { attempts: 250, ms: 1500 };
+
+/** What an action led to: the next state, and what happened on the way, in order. */
+export interface Step {
+  state: GameState;
+  events: GameEvent[];
+}
+
+type ClickKind = Exclude<keyof ClickCounts, 'wasted'>;
+/** The click each kind of move takes. */
+const CLICK_KINDS: Partial<Record<MoveKind, ClickKind>> = { reveal: 'left', flag: 'right', question: 'right', chord: 'chord' };
+
+/** The marker a cell's bits show, for `marker-changed` events. */
+function markerOf(bits: number): 'flag' | 'question' | null {
+  return bits & FLAGGED ? 'flag' : bits & QUESTION ? 'question' : null;
+}
+
+/** Row-major index of a cell, or -1 off the board. */
+export function cellIndex(s: GameState, { x, y }: Cell): number {
+  return y < 0 || y >= s.rows || x < 0 || x >= s.cols ? -1 : y * s.cols + x;
+}
+
+export function isOver(s: GameState): boolean {
+  return s.status === GameStatus.Won || s.status === GameStatus.Lost;
+}
+
+/** A fresh board. Throws a `BoardConfigError` for boards that can't be generated. */
+export function newGame(
+  rows: number, cols: number, mines: number, difficulty: Difficulty = 'Custom', options: NewGameOptions = {},
+  analysis = false,
+): Step {
+  const problems = validateBoardConfig({ rows, cols, mines });
+  if (problems.length) throw new BoardConfigError(problems);
+  const topology = options.topology ?? 'square';
+  const s: GameState = {
+    board: createBoard(rows, cols), rows, cols, mines,
+    flagsPlaced: 0, minesLeft: mines,
+    status: GameStatus.Ready, firstClick: true,
+    elapsedMs: 0, difficulty, topology, hintsLeft: 3,
+    seed: options.seed ?? randomSeed(), noGuess: !!options.noGuess,
+    solvedBbbv: 0, clicks: { left: 0, right: 0, chord: 0, wasted: 0 },
+    moves: [], practice: false, paused: false, analysis, claimMines: !!options.claimMines, daily: options.daily,
+    timeLimit: options.timeLimit,
+  };
+  // A known first click means the seed already describes the final layout: no search.
+  const start = options.firstClickCell;
+  return {
+    state: start ? placeMines(s, start, false) : s,
+    events: [{ type: 'game-created', difficulty, rows, cols, mines, topology, daily: options.daily }],
+  };
+}
+
+/**
+ * A hand-made puzzle, ready to play: its mines are already placed and its start region open, so
+ * there is no first-click placement. Throws a `BoardConfigError` for puzzles that can't be played.
+ */
+export function newPuzzle(puzzle: Puzzle, analysis = false): Step {
+  const problems = validatePuzzle(puzzle);
+  if (problems.length) throw new BoardConfigError(problems);
+  const { rows, cols, topology } = puzzle, mines = puzzle.mines.length;
+  const board = puzzleBoard(puzzle);
+  if (board.safeLeft === 0) throw new BoardConfigError(['The start region already opens every safe cell.']);
+  const s: GameState = {
+    board, rows, cols, mines,
+    flagsPlaced: 0, minesLeft: mines,
+    status: GameStatus.Ready, firstClick: false,
+    elapsedMs: 0, difficulty: 'Custom', topology, hintsLeft: 3,
+    seed: 0, noGuess: false, bbbv: threeBV(board, topology), solvedBbbv: solvedThreeBV(board, topology),
+    clicks: { left: 0, right: 0, chord: 0, wasted: 0 },
+    moves: [], practice: false, paused: false, analysis, claimMines: false, puzzle,
+  };
+  return { state: s, events: [{ type: 'game-created', difficulty: 'Custom', rows, cols, mines, topology }] };
+}
+
+/** The board a puzzle starts from: its mines laid and its start region opened (zeros spreading as usual). */
+export function puzzleBoard(puzzle: Puzzle): Board {
+  const empty = withMines(createBoard(puzzle.rows, puzzle.cols), puzzle.mines, puzzle.topology);
+  const patch = new BoardPatch(empty);
+  openCells(patch, empty, puzzle.topology, puzzle.revealed);
+  return { ...patch.commit(), base: null, changed: null };
+}
+
+/** Safe cells of a puzzle that logic alone can't open from its start region; 0 means no guessing. */
+export function unsolvedPuzzleCells(puzzle: Puzzle): number {
+  const starts = puzzle.revealed.map(i => ({ x: i % puzzle.cols, y: Math.floor(i / puzzle.cols) }));
+  const layout = withMines(createBoard(puzzle.rows, puzzle.cols), puzzle.mines, puzzle.topology);
+  return unsolvedCellsFromRegion(layout, puzzle.mines.length, starts, puzzle.topology);
+}
+
+/** Reveal a cell; on the first click, place mines away from the cell and its neighbors. */
+export function reveal(s: GameState, cell: Cell, elapsedMs: number): Step | null {
+  if (isOver(s) || s.paused) return null;
+  const i = cellIndex(s, cell);
+  if (i < 0) return null;
+  if (s.board.cells[i] & (REVEALED | FLAGGED)) return wasted(s, 'left');
+  const events: GameEvent[] = [];
+  s = record({ ...s, hint: undefined }, { kind: 'reveal', x: cell.x, y: cell.y }, elapsedMs);
+
+  if (s.status === GameStatus.Ready) {
+    // A loaded game code or a puzzle may already have placed its mines.
+    const placed = s.firstClick && !s.firstClickCell ? placeMines(s, cell) : s;
+    // Playing with the probability overlay on is analysis, not a ranked game.
+    s = { ...placed, status: GameStatus.Playing, firstClick: false, practice: s.practice || s.analysis };
+    events.push({ type: 'game-started', cell: { x: cell.x, y: cell.y } });
+  }
+  return { state: open(s, [i], cell, 'reveal', elapsedMs, events), events };
+}
+
+/** Number-click chording: if flags around equal adjacent number, reveal all other neighbors. */
+export function chord(s: GameState, cell: Cell, elapsedMs: number): Step | null {
+  if (s.status !== GameStatus.Playing || s.paused) return null;
+  const i = cellIndex(s, cell);
+  const { cells, adjacent } = s.board;
+  if (i < 0) return null;
+  const at = { x: cell.x, y: cell.y };
+  if ((cells[i] & (REVEALED | MINE)) !== REVEALED || adjacent[i] === 0) {
+    return wasted(s, 'chord', { type: 'chord-failed', cell: at, reason: 'not-a-number' });
+  }
+
+  // Opened mines (claimed in Flags matches) are as known as flagged ones.
+  const neighbors = neighborIndices(s.topology, s.rows, s.cols, i);
+  const known = neighbors.filter(n => cells[n] & FLAGGED || (cells[n] & (MINE | REVEALED)) === (MINE | REVEALED));
+  if (known.length !== adjacent[i]) return wasted(s, 'chord', { type: 'chord-failed', cell: at, reason: 'flag-count' });
+  const events: GameEvent[] = [];
+  s = record({ ...s, hint: undefined }, { kind: 'chord', x: cell.x, y: cell.y }, elapsedMs);
+  return { state: open(s, neighbors, cell, 'chord', elapsedMs, events), events };
+}
+
+/** Flag or `?` a hidden cell, or take the marker off; the other marker gives way to it. */
+export function toggleMarker(s: GameState, cell: Cell, marker: 'flag' | 'question', elapsedMs: number): Step | null {
+  if (isOver(s) || s.paused) return null;
+  const i = cellIndex(s, cell);
+  if (i < 0) return null;
+  if (s.board.cells[i] & REVEALED) return wasted(s, 'right');
+  s = record(s, { kind: marker, x: cell.x, y: cell.y }, elapsedMs);
+
+  const bit = marker === 'flag' ? FLAGGED : QUESTION;
+  const bits = s.board.cells[i];
+  const next = bits & bit ? bits & ~bit : (bits & ~(FLAGGED | QUESTION)) | bit;
+  const patch = new BoardPatch(s.board);
+  patch.set(i, next);
+  const flagsPlaced = s.flagsPlaced + (next & FLAGGED ? 1 : 0) - (bits & FLAGGED ? 1 : 0);
+  const minesLeft = Math.max(0, s.mines - flagsPlaced);
+  return {
+    state: { ...s, board: patch.commit(), flagsPlaced, minesLeft, hint: undefined },
+    events: [{ type: 'marker-changed', cell: { x: cell.x, y: cell.y }, marker: markerOf(next) }],
+  };
+}
+
+/** Point out the next logical move (or the safest guess) using visible information only. */
+export function useHint(s: GameState, elapsedMs: number): Step | null {
+  if (s.hintsLeft <= 0 || isOver(s) || s.paused) return null;
+  const start = s.firstClick ? s.firstClickCell : undefined;
+  const hint: Hint | null = start
+    ? { ...start, kind: 'safe', rule: 'opening', probability: 0, reason: 'This shared board was generated around this cell, so it is safe.' }
+    : suggestHint(toTiles(s.board), s.mines, s.topology);
+  if (!hint) return null;
+  return {
+    state: record({ ...s, hint, hintsLeft: s.hintsLeft - 1 }, { kind: 'hint' }, elapsedMs),
+    events: [{ type: 'hint-used', hint, hintsLeft: s.hintsLeft - 1 }],
+  };
+}
+
+/**
+ * Practice undo: back to `prev`, the state before the last action, keeping the move list, clicks,
+ * hints and time of `s`. The game becomes unranked.
+ */
+export function undo(prev: GameState, s: GameState, elapsedMs: number): Step {
+  return {
+    state: record({
+      ...prev, moves: s.moves, clicks: s.clicks, hintsLeft: s.hintsLeft, elapsedMs, practice: true, hint: undefined,
+      endedBefore: s.endedBefore || isOver(s),
+    }, { kind: 'undo' }, elapsedMs),
+    events: [{ type: 'undone' }],
+  };
+}
+
+/** Show or hide the probability overlay. Turning it on mid-game makes the game unranked. */
+export function setAnalysis(s: GameState, on: boolean): Step | null {
+  if (s.analysis === on) return null;
+  return {
+    state: { ...s, analysis: on, practice: s.practice || (on && s.status === GameStatus.Playing) },
+    events: [{ type: 'analysis-changed', on }],
+  };
+}
+
+/** Time attack: the countdown ran out. The mines are shown and the game is lost. */
+export function timeUp(s: GameState, elapsedMs: number): Step {
+  const patch = new BoardPatch(s.board);
+  revealMines(patch);
+  const board = patch.commit();
+  const events: GameEvent[] = [];
+  return {
+    state: finish({ ...s, board, hint: undefined, loss: explainTimeout(board) }, GameStatus.Lost, elapsedMs, events),
+    events,
+  };
+}
+
+/**
+ * Place mines around the first click. In no-guess mode, retry with seeds derived from `s.seed`
+ * until the solver clears the board; the winning seed replaces `s.seed` so game codes stay exact.
+ */
+export function placeMines(s: GameState, start: Cell, search = s.noGuess): GameState {
+  start = { x: start.x, y: start.y };
+  const deadline = Date.now() + NO_GUESS_BUDGET.ms;
+  if (!search) {
+    const board = layMines(s, start, s.seed);
+    const noGuessVerified = s.noGuess
+      ? unsolvedCellsFrom(board, s.mines, start, s.topology, deadline) === 0
+      : undefined;
+    return { ...s, board, bbbv: threeBV(board, s.topology), firstClickCell: start, noGuessVerified };
+  }
+
+  let best = { seed: s.seed, board: s.board, unsolved: Infinity };
+  for (let i = 0; i < NO_GUESS_BUDGET.attempts && (i === 0 || Date.now() < deadline); i++) {
+    const seed = deriveSeed(s.seed, i);
+    const board = layMines(s, start, seed);
+    const unsolved = unsolvedCellsFrom(board, s.mines, start, s.topology, deadline);
+    if (unsolved < best.unsolved) best = { seed, board, unsolved };
+    if (unsolved === 0) break;
+  }
+  return {
+    ...s, board: best.board, bbbv: threeBV(best.board, s.topology), seed: best.seed, firstClickCell: start,
+    noGuessVerified: best.unsolved === 0,
+  };
+}
+
+// ---------- helpers ----------
+
+/** Same shuffle over the same candidate order as ever, so existing game codes keep their layouts. */
+function layMines(s: GameState, start: Cell, seed: number): Board {
+  const total = s.rows * s.cols;
+  const safe = start.y * s.cols + start.x;
+  const forbidden = new Set<number>([safe, ...neighborIndices(s.topology, s.rows, s.cols, safe)]);
+  const candidates: number[] = [];
+  for (let i = 0; i < total; i++) if (!forbidden.has(i)) candidates.push(i);
+  return withMines(s.board, shuffle(candidates, createRng(seed)).slice(0, s.mines), s.topology);
+}
+
+function record(s: GameState, move: Omit<Move, 't'>, t: number): GameState {
+  const click = CLICK_KINDS[move.kind];
+  const clicks = click ? { ...s.clicks, [click]: s.clicks[click] + 1 } : s.clicks;
+  return { ...s, clicks, moves: [...s.moves, { ...move, t }] };
+}
+
+/** A click that changed nothing still counts, as wasted. */
+function wasted(s: GameState, click: ClickKind, reason?: GameEvent): Step | null {
+  if (s.status !== GameStatus.Ready && s.status !== GameStatus.Playing) return null;
+  return {
+    state: { ...s, clicks: { ...s.clicks, [click]: s.clicks[click] + 1, wasted: s.clicks.wasted + 1 } },
+    events: [...(reason ? [reason] : []), { type: 'wasted-click', click }],
+  };
+}
+
+/** Open cells (flood-filling from zeros) as one patch, then settle a win or loss. */
+function open(
+  s: GameState, starts: number[], cell: Cell, move: 'reveal' | 'chord', elapsedMs: number, events: GameEvent[],
+): GameState {
+  const patch = new BoardPatch(s.board);
+  const mines = starts.filter(i => (s.board.cells[i] & (MINE | REVEALED | FLAGGED)) === MINE);
+  const hitMine = openCells(patch, s.board, s.topology, starts) && !s.claimMines;
+  if (hitMine) revealMines(patch, mines);
+  const board = patch.commit();
+  const opened = s.board.safeLeft - board.safeLeft;
+  const at = { x: cell.x, y: cell.y };
+  if (move === 'chord') events.push({ type: 'chorded', cell: at, opened });
+  else if (!mines.length) {
+    events.push({ type: 'tile-revealed', cell: at, adjacent: board.adjacent[starts[0]] });
+    if (opened > 1) events.push({ type: 'flood-filled', cell: at, opened });
+  }
+  if (mines.length) {
+    const cells = mines.map(i => ({ x: i % s.cols, y: Math.floor(i / s.cols) }));
+    events.push(hitMine ? { type: 'mine-hit', cells } : { type: 'mine-claimed', cells });
+  }
+  const next = board.changed!.length
+    ? { ...s, board, solvedBbbv: solvedThreeBV(board, s.topology) }
+    : { ...s, board, clicks: { ...s.clicks, wasted: s.clicks.wasted + 1 } };
+  if (hitMine) {
+    const loss = explainLoss(s.board, board, s.mines, s.topology, move);
+    return finish({ ...next, loss }, GameStatus.Lost, elapsedMs, events);
+  }
+  return next.board.safeLeft === 0 ? finish(next, GameStatus.Won, elapsedMs, events) : next;
+}
+
+/** End the game with the clock frozen at `elapsedMs`. */
+function finish(
+  s: GameState, status: GameStatus.Won | GameStatus.Lost, elapsedMs: number, events: GameEvent[],
+): GameState {
+  const done = { ...s, status, elapsedMs };
+  events.push(status === GameStatus.Won
+    ? { type: 'game-won', elapsedMs, practice: done.practice }
+    : { type: 'game-lost', elapsedMs, practice: done.practice, loss: done.loss! });
+  return done;
+}
@@ -0,0 +1,97 @@
+import { GameState, GameStatus } from '../models/game-state';
+import { PRESETS } from '../models/presets';
+import { TopologyKind } from '../models/topology';
+import { deriveSeed } from '../utils/rng';
+import { BotFactory } from './bots';
+import { Step, chord, isOver, newGame, reveal, toggleMarker } from './game-engine';
+
+export type SimulatedDifficulty = 'Beginner' | 'Intermediate' | 'Expert';
+
+export interface SimulationOptions {
+  difficulty: SimulatedDifficulty;
+  games: number;
+  bot: BotFactory;
+  /** Game `i` is played on `deriveSeed(seed, i)`, so a run can be repeated exactly. */
+  seed: number;
+  noGuess?: boolean;
+  topology?: TopologyKind;
+}
+
+/** How one game went. */
+export interface GameOutcome {
+  seed: number;
+  won: boolean;
+  /** Reveals the bot couldn't prove safe. */
+  guesses: number;
+  moves: number;
+  /** Share of the safe cells opened. */
+  cleared: number;
+}
+
+export interface SimulationReport {
+  difficulty: SimulatedDifficulty;
+  bot: string;
+  noGuess: boolean;
+  games: number;
+  wins: number;
+  winRate: number;
+  /** Games in which the bot had to guess at least once. */
+  guessedGames: number;
+  guessRate: number;
+  /** Wins with no guess at all: boards logic alone cleared. */
+  cleanWins: number;
+  averageGuesses: number;
+  averageCleared: number;
+}
+
+/** Play one seeded game to the end with a fresh bot. A bot that stalls is stopped after two moves per cell. */
+export function playGame(
+  options: Pick<SimulationOptions, 'difficulty' | 'bot' | 'noGuess' | 'topology'>, seed: number,
+): GameOutcome {
+  const p = PRESETS[options.difficulty];
+  let s = newGame(p.rows, p.cols, p.mines, p.difficulty, {
+    seed, noGuess: options.noGuess, topology: options.topology,
+  }).state;
+  const bot = options.bot.create(seed);
+  let guesses = 0, moves = 0;
+  while (!isOver(s) && moves < 2 * p.rows * p.cols) {
+    const move = bot.next(s);
+    if (!move) break;
+    // Bots play without a clock: every move is at time 0.
+    const step: Step | null = move.kind === 'reveal' ? reveal(s, move.cell, 0)
+      : move.kind === 'flag' ? toggleMarker(s, move.cell, 'flag', 0)
+      : chord(s, move.cell, 0);
+    moves++;
+    if (move.guess) guesses++;
+    if (step) s = step.state;
+  }
+  return { seed, won: s.status === GameStatus.Won, guesses, moves, cleared: cleared(s) };
+}
+
+/** Play `games` seeded games with one bot and sum up wins and guessing. */
+export function simulate(options: SimulationOptions): SimulationReport {
+  const outcomes: GameOutcome[] = [];
+  for (let i = 0; i < options.games; i++) outcomes.push(playGame(options, deriveSeed(options.seed, i)));
+  return summarize(options, outcomes);
+}
+
+export function summarize(options: SimulationOptions, outcomes: GameOutcome[]): SimulationReport {
+  const games = outcomes.length;
+  const wins = outcomes.filter(o => o.won).length;
+  const guessedGames = outcomes.filter(o => o.guesses > 0).length;
+  const mean = (f: (o: GameOutcome) => number) => games ? outcomes.reduce((sum, o) => sum + f(o), 0) / games : 0;
+  return {
+    difficulty: options.difficulty, bot: options.bot.name, noGuess: !!options.noGuess,
+    games, wins, winRate: games ? wins / games : 0,
+    guessedGames, guessRate: games ? guessedGames / games : 0,
+    cleanWins: outcomes.filter(o => o.won && o.guesses === 0).length,
+    averageGuesses: mean(o => o.guesses),
+    averageCleared: mean(o => o.cleared),
+  };
+}
+
+function cleared(s: GameState): number {
+  if (s.firstClick) return 0;
+  const safe = s.rows * s.cols - s.mines;
+  return (safe - s.board.safeLeft) / safe;
+}
@@ -0,0 +1,45 @@
+import { TOPOLOGIES, neighborIndices } from '../topology';
+import { decodeGameCode, encodeGameCode } from '../../utils/game-code';
+import { rankingKey } from '../../utils/ranking';
+
+const sorted = (cells: Array<{ x: number; y: number }>) => cells.map(c => `${c.x},${c.y}`).sort();
+
+describe('Topologies', () => {
+  it('square clips the 8-neighborhood at the edges', () => {
+    expect(TOPOLOGIES.square.neighbors(5, 5, 2, 2).length).toBe(8);
+    expect(sorted(TOPOLOGIES.square.neighbors(5, 5, 0, 0))).toEqual(['0,1', '1,0', '1,1']);
+  });
+
+  it('torus wraps every edge and never repeats a cell on narrow boards', () => {
+    expect(sorted(TOPOLOGIES.torus.neighbors(5, 5, 0, 0)))
+      .toEqual(['0,1', '0,4', '1,0', '1,1', '1,4', '4,0', '4,1', '4,4']);
+    expect(TOPOLOGIES.torus.neighbors(2, 2, 0, 0).length).toBe(3);
+    expect(TOPOLOGIES.torus.neighbors(2, 5, 2, 0).length).toBe(5);
+  });
+
+  it('hex has six neighbors whose diagonals depend on row parity', () => {
+    expect(sorted(TOPOLOGIES.hex.neighbors(5, 5, 2, 2))).toEqual(['1,1', '1,2', '1,3', '2,1', '2,3', '3,2']);
+    expect(sorted(TOPOLOGIES.hex.neighbors(5, 5, 2, 1))).toEqual(['1,1', '2,0', '2,2', '3,0', '3,1', '3,2']);
+  });
+
+  it('neighborhoods are symmetric', () => {
+    for (const t of Object.values(TOPOLOGIES)) {
+      for (let i = 0; i < 30; i++) {
+        for (const n of neighborIndices(t.kind, 5, 6, i)) expect(neighborIndices(t.kind, 5, 6, n)).toContain(i);
+      }
+    }
+  });
+
+  it('is part of game codes and leaderboard buckets', () => {
+    const code = encodeGameCode({ rows: 9, cols: 9, mines: 10, seed: 7, noGuess: true, topology: 'torus' });
+    expect(code.endsWith('.nt')).toBeTrue();
+    expect(decodeGameCode(code)).toEqual({ rows: 9, cols: 9, mines: 10, seed: 7, noGuess: true, topology: 'torus' });
+    expect(decodeGameCode('v1.9.9.a.7.n')).toEqual({ rows: 9, cols: 9, mines: 10, seed: 7, noGuess: true });
+    expect(decodeGameCode('v1.9.9.a.7.x')).toBeNull();
+
+    const expert = { difficulty: 'Expert' as const, rows: 16, cols: 30, mines: 99, noGuess: false };
+    expect(rankingKey(expert)).toBe('Expert');
+    expect(rankingKey({ ...expert, topology: 'square' })).toBe('Expert');
+    expect(rankingKey({ ...expert, topology: 'hex', noGuess: true })).toBe('Expert · Hex:no-guess');
+  });
+});
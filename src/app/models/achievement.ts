@@ -0,0 +1,86 @@
+import { GameEvent } from './game-event';
+import { GameState } from './game-state';
+
+export type AchievementId =
+  'first-win' | 'expert-100' | 'no-flags' | 'no-hints' | 'efficient' | 'streak-10' | 'flood-50' | 'wins-100';
+
+/**
+ * A badge and the rule that earns it. Rules see the events of ranked games only (see
+ * `AchievementService`) and turn each one into new progress; the badge unlocks once progress
+ * reaches `goal`.
+ */
+export interface Achievement {
+  id: AchievementId;
+  icon: string;
+  title: string;
+  description: string;
+  /** 1 for a single feat; more for counts, shown as a progress bar. */
+  goal: number;
+  /** Progress after `event`, given the progress before it and the state the event left. */
+  advance(progress: number, event: GameEvent, state: GameState): number;
+}
+
+/** Saved progress and unlock dates (ISO), by achievement. */
+export interface AchievementRecord {
+  progress: Partial<Record<AchievementId, number>>;
+  unlocked: Partial<Record<AchievementId, string>>;
+}
+
+/** An achievement as the player stands with it. */
+export interface AchievementProgress {
+  achievement: Achievement;
+  /** Capped at the goal. */
+  progress: number;
+  /** ISO date of the unlock, or null while locked. */
+  unlockedAt: string | null;
+}
+
+/** Extra clicks over the board's 3BV still counted as efficient. */
+const EFFICIENT_SLACK = 5;
+
+/** A one-off feat: done (1) on a win that passes `test`. */
+function winWhere(test: (s: GameState) => boolean): Achievement['advance'] {
+  return (progress, event, state) => event.type === 'game-won' && test(state) ? 1 : progress;
+}
+
+export const ACHIEVEMENTS: Record<AchievementId, Achievement> = {
+  'first-win': {
+    id: 'first-win', icon: '🎉', title: 'First sweep', description: 'Win a game.', goal: 1,
+    advance: winWhere(() => true),
+  },
+  'expert-100': {
+    id: 'expert-100', icon: '🏎️', title: 'Expert sprinter', description: 'Win Expert in under 100 seconds.', goal: 1,
+    advance: winWhere(s => s.difficulty === 'Expert' && s.elapsedMs < 100_000),
+  },
+  'no-flags': {
+    id: 'no-flags', icon: '🏳️', title: 'No flags needed', description: 'Win without placing a single flag (NF).', goal: 1,
+    advance: winWhere(s => !s.moves.some(m => m.kind === 'flag')),
+  },
+  'no-hints': {
+    id: 'no-hints', icon: '🧠', title: 'On your own', description: 'Win without using a hint.', goal: 1,
+    advance: winWhere(s => !s.moves.some(m => m.kind === 'hint')),
+  },
+  efficient: {
+    id: 'efficient', icon: '🖱', title: 'Economy of motion',
+    description: `Win in at most ${EFFICIENT_SLACK} clicks over the board's 3BV.`, goal: 1,
+    advance: winWhere(s => {
+      const clicks = s.clicks.left + s.clicks.right + s.clicks.chord;
+      return s.bbbv !== undefined && clicks <= s.bbbv + EFFICIENT_SLACK;
+    }),
+  },
+  'streak-10': {
+    id: 'streak-10', icon: '🔥', title: 'On fire', description: 'Win 10 games in a row.', goal: 10,
+    // Progress is the current streak, so a loss empties the bar.
+    advance: (progress, event) => event.type === 'game-won' ? progress + 1 : event.type === 'game-lost' ? 0 : progress,
+  },
+  'flood-50': {
+    id: 'flood-50', icon: '🌊', title: 'Floodgates', description: 'Open 50 cells with one click.', goal: 50,
+    advance: (progress, event) => event.type === 'flood-filled' ? Math.max(progress, event.opened) : progress,
+  },
+  'wins-100': {
+    id: 'wins-100', icon: '🏅', title: 'Centurion', description: 'Win 100 games.', goal: 100,
+    advance: (progress, event) => event.type === 'game-won' ? progress + 1 : progress,
+  },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
@@ -0,0 +1,157 @@
+import { Tile } from './tile';
+import { TopologyKind, neighborTable } from './topology';
+
+/**
+ * Per-cell state bits in `Board.cells`. `QUESTION` is the `?` marker: a reminder only, the cell opens as usual.
+ * `EXPLODED` marks the mine(s) the losing move opened.
+ */
+export const MINE = 1, REVEALED = 2, FLAGGED = 4, QUESTION = 8, EXPLODED = 16;
+
+/**
+ * Flat, row-major board (cell `i` is at x = i % cols, y = floor(i / cols)). Boards are immutable:
+ * an action copies `cells` once, applies its patch and lists the touched indices in `changed`, so
+ * renderers can redraw just those. `adjacent` never changes after mine placement and is shared by
+ * every later version of the board.
+ */
+export interface Board {
+  readonly rows: number;
+  readonly cols: number;
+  /** `MINE | REVEALED | FLAGGED | QUESTION | EXPLODED` bits per cell. */
+  readonly cells: Uint8Array;
+  /** Adjacent mine count per cell (0 for mines). */
+  readonly adjacent: Uint8Array;
+  /** Safe cells still hidden; the game is won at 0. */
+  readonly safeLeft: number;
+  /** The `cells` this version was patched from, and the indices the patch touched. */
+  readonly base: Uint8Array | null;
+  readonly changed: Int32Array | null;
+}
+
+export function createBoard(rows: number, cols: number): Board {
+  const n = rows * cols;
+  return {
+    rows, cols, cells: new Uint8Array(n), adjacent: new Uint8Array(n), safeLeft: n, base: null, changed: null,
+  };
+}
+
+/** Board with mines at `mineIndices` (and nothing revealed or flagged yet). */
+export function withMines(board: Board, mineIndices: Iterable<number>, topology: TopologyKind): Board {
+  const cells = new Uint8Array(board.cells.length);
+  // Flags and `?` marks placed before the mines were laid stay put.
+  for (let i = 0; i < cells.length; i++) cells[i] = board.cells[i] & (FLAGGED | QUESTION);
+  let mines = 0;
+  for (const i of mineIndices) { cells[i] |= MINE; mines++; }
+  const adjacent = countAdjacent(cells, board.rows, board.cols, topology);
+  return { ...board, cells, adjacent, safeLeft: cells.length - mines, base: null, changed: null };
+}
+
+export function countAdjacent(
+  cells: Uint8Array, rows: number, cols: number, topology: TopologyKind,
+): Uint8Array {
+  const { start, list } = neighborTable(topology, rows, cols);
+  const adjacent = new Uint8Array(cells.length);
+  for (let i = 0; i < cells.length; i++) {
+    if (!(cells[i] & MINE)) continue;
+    for (let k = start[i]; k < start[i + 1]; k++) adjacent[list[k]]++;
+  }
+  for (let i = 0; i < cells.length; i++) if (cells[i] & MINE) adjacent[i] = 0;
+  return adjacent;
+}
+
+/** Copy-on-write edit of one board version; `commit()` returns the next version and its patch. */
+export class BoardPatch {
+  readonly cells: Uint8Array;
+  safeLeft: number;
+  private readonly changed: number[] = [];
+
+  constructor(private readonly board: Board) {
+    this.cells = board.cells.slice();
+    this.safeLeft = board.safeLeft;
+  }
+
+  set(i: number, bits: number): void {
+    if (this.cells[i] === bits) return;
+    if (this.cells[i] === this.board.cells[i]) this.changed.push(i);
+    this.cells[i] = bits;
+  }
+
+  commit(): Board {
+    return {
+      ...this.board, cells: this.cells, safeLeft: this.safeLeft,
+      base: this.board.cells, changed: Int32Array.from(this.changed),
+    };
+  }
+}
+
+/**
+ * Reveal `starts`, flood-filling through zeros with an index stack. Flagged cells stay closed;
+ * question marks are cleared as their cells open.
+ * Returns true if a mine was opened.
+ */
+export function openCells(
+  patch: BoardPatch, board: Board, topology: TopologyKind, starts: number[],
+): boolean {
+  const { start, list } = neighborTable(topology, board.rows, board.cols);
+  const cells = patch.cells;
+  const stack = starts.slice();
+  let hitMine = false;
+  while (stack.length) {
+    const i = stack.pop()!;
+    const c = cells[i];
+    if (c & (REVEALED | FLAGGED)) continue;
+    patch.set(i, (c & ~QUESTION) | REVEALED);
+    if (c & MINE) { hitMine = true; continue; }
+    patch.safeLeft--;
+    if (board.adjacent[i] !== 0) continue;
+    for (let k = start[i]; k < start[i + 1]; k++) {
+      if (!(cells[list[k]] & (REVEALED | FLAGGED))) stack.push(list[k]);
+    }
+  }
+  return hitMine;
+}
+
+/** Show every mine at the end of a lost game, marking the ones in `exploded`. */
+export function revealMines(patch: BoardPatch, exploded: number[] = []): void {
+  const cells = patch.cells;
+  for (let i = 0; i < cells.length; i++) if (cells[i] & MINE) patch.set(i, (cells[i] & ~QUESTION) | REVEALED);
+  for (const i of exploded) patch.set(i, cells[i] | EXPLODED);
+}
+
+/** Read-only `Tile` view of one cell, for components and the solver. */
+export function tileAt(board: Board, x: number, y: number): Tile {
+  const i = y * board.cols + x, c = board.cells[i];
+  return {
+    x, y, isMine: !!(c & MINE), isRevealed: !!(c & REVEALED), isFlagged: !!(c & FLAGGED),
+    isQuestioned: !!(c & QUESTION), isExploded: !!(c & EXPLODED), adjacentMines: board.adjacent[i],
+  };
+}
+
+/** The whole board as `Tile` views. Allocates an object per cell, so keep it off hot paths. */
+export function toTiles(board: Board): Tile[][] {
+  return Array.from({ length: board.rows }, (_, y) =>
+    Array.from({ length: board.cols }, (_, x) => tileAt(board, x, y)));
+}
+
+/** Inverse of `toTiles`; adjacency is taken from the tiles as given. */
+export function fromTiles(tiles: Tile[][]): Board {
+  const rows = tiles.length, cols = tiles[0]?.length ?? 0;
+  const cells = new Uint8Array(rows * cols), adjacent = new Uint8Array(rows * cols);
+  let safeLeft = 0;
+  for (const row of tiles) {
+    for (const t of row) {
+      const i = t.y * cols + t.x;
+      cells[i] = (t.isMine ? MINE : 0) | (t.isRevealed ? REVEALED : 0) | (t.isFlagged ? FLAGGED : 0)
+        | (t.isQuestioned ? QUESTION : 0) | (t.isExploded ? EXPLODED : 0);
+      adjacent[i] = t.adjacentMines;
+      if (!t.isMine && !t.isRevealed) safeLeft++;
+    }
+  }
+  return { rows, cols, cells, adjacent, safeLeft, base: null, changed: null };
+}
+
+/** Row-major indices of every mine. */
+export function mineIndices(board: Board): number[] {
+  const res: number[] = [];
+  for (let i = 0; i < board.cells.length; i++) if (board.cells[i] & MINE) res.push(i);
+  return res;
+}
@@ -0,0 +1,21 @@
+/** How the one attempt at a day's daily board went. */
+export interface DailyResult {
+  /** Local calendar day, `YYYY-MM-DD`. */
+  date: string;
+  won: boolean;
+  /** The board was left for another game before it was finished; counts as a loss. */
+  abandoned: boolean;
+  timeMs: number;
+  /** Share of the safe cells opened, 0 to 1. */
+  cleared: number;
+  bbbv: number;
+  hintsUsed: number;
+  /** Undo or analysis was used. */
+  practice: boolean;
+}
+
+export interface DailyStreak {
+  /** Consecutive won days up to today, or up to yesterday while today is still open. */
+  current: number;
+  best: number;
+}
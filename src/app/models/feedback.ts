@@ -0,0 +1,55 @@
+import { GameEvent } from './game-event';
+
+/** Game moments that make a sound and, for some, a vibration. */
+export type FeedbackCue = 'reveal' | 'cascade' | 'flag' | 'explosion' | 'win';
+
+export const FEEDBACK_CUES: FeedbackCue[] = ['reveal', 'cascade', 'flag', 'explosion', 'win'];
+
+/**
+ * One synthesized sound: a tone (optionally sliding to `toHz`) or a burst of noise, starting
+ * `delayMs` into the cue. Sounds are generated, so the app ships no audio files.
+ */
+export interface Tone {
+  wave: OscillatorType | 'noise';
+  hz: number;
+  toHz?: number;
+  delayMs: number;
+  durationMs: number;
+  /** Loudness before the volume setting, from 0 to 1. */
+  gain: number;
+}
+
+export const CUE_TONES: Record<FeedbackCue, Tone[]> = {
+  reveal: [{ wave: 'triangle', hz: 660, delayMs: 0, durationMs: 45, gain: 0.25 }],
+  cascade: [
+    { wave: 'triangle', hz: 520, toHz: 1040, delayMs: 0, durationMs: 140, gain: 0.25 },
+    { wave: 'sine', hz: 1040, delayMs: 90, durationMs: 90, gain: 0.15 },
+  ],
+  flag: [{ wave: 'square', hz: 880, toHz: 1320, delayMs: 0, durationMs: 60, gain: 0.12 }],
+  explosion: [
+    { wave: 'noise', hz: 0, delayMs: 0, durationMs: 600, gain: 0.8 },
+    { wave: 'sawtooth', hz: 120, toHz: 40, delayMs: 0, durationMs: 500, gain: 0.4 },
+  ],
+  win: [523, 659, 784, 1047].map((hz, i) => ({ wave: 'triangle' as const, hz, delayMs: i * 110, durationMs: 160, gain: 0.3 })),
+};
+
+/** Vibration patterns (on, off, on… in ms) for the cues that buzz, and for the long-press flag. */
+export const VIBRATION_PATTERNS: Record<'longPress' | 'explosion' | 'win', number[]> = {
+  longPress: [25],
+  explosion: [120, 60, 200],
+  win: [40, 60, 40, 60, 80],
+};
+
+/** The cue a game event makes, if any. */
+export function cueFor(event: GameEvent): FeedbackCue | null {
+  switch (event.type) {
+    // A zero that opened more than itself is followed by `flood-filled`, which makes the cascade sound.
+    case 'tile-revealed': return event.adjacent > 0 ? 'reveal' : null;
+    case 'flood-filled': return 'cascade';
+    case 'chorded': return event.opened > 0 ? 'reveal' : null;
+    case 'marker-changed': return event.marker === 'flag' ? 'flag' : null;
+    case 'mine-hit': return 'explosion';
+    case 'game-won': return 'win';
+    default: return null;
+  }
+}
@@ -0,0 +1,41 @@
+import { ClickCounts, Difficulty } from './game-state';
+import { Hint } from './hint';
+import { LossCause } from './loss';
+import { Cell, TopologyKind } from './topology';
+
+/**
+ * Something that happened in a game, as opposed to the state it left behind. One action can cause
+ * several: a chord may open cells, hit a mine and lose the game, in that order.
+ */
+export type GameEvent =
+  /** A new board, not yet clicked (new game, restart, daily or game code). */
+  | { type: 'game-created'; difficulty: Difficulty; rows: number; cols: number; mines: number; topology: TopologyKind;
+      daily?: string }
+  /** A saved game in progress was picked up again. */
+  | { type: 'game-restored' }
+  /** The first reveal: mines are in place and the clock runs. */
+  | { type: 'game-started'; cell: Cell }
+  /** A safe cell opened by a reveal; `adjacent` is its number. */
+  | { type: 'tile-revealed'; cell: Cell; adjacent: number }
+  /** The revealed cell was a zero and the flood fill opened `opened` cells, itself included. */
+  | { type: 'flood-filled'; cell: Cell; opened: number }
+  | { type: 'chorded'; cell: Cell; opened: number }
+  /** A chord that did nothing: not on a revealed number, or the flags around it don't match it. */
+  | { type: 'chord-failed'; cell: Cell; reason: 'not-a-number' | 'flag-count' }
+  /** The marker on a hidden cell now; null when it was taken off. */
+  | { type: 'marker-changed'; cell: Cell; marker: 'flag' | 'question' | null }
+  /** Mines opened by the last move, which ended the game. */
+  | { type: 'mine-hit'; cells: Cell[] }
+  /** Mines opened under "Flags" match rules, where they score instead of ending the game. */
+  | { type: 'mine-claimed'; cells: Cell[] }
+  | { type: 'hint-used'; hint: Hint; hintsLeft: number }
+  | { type: 'undone' }
+  /** A click that changed nothing. */
+  | { type: 'wasted-click'; click: Exclude<keyof ClickCounts, 'wasted'> }
+  | { type: 'analysis-changed'; on: boolean }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'game-won'; elapsedMs: number; practice: boolean }
+  | { type: 'game-lost'; elapsedMs: number; practice: boolean; loss: LossCause };
+
+export type GameEventType = GameEvent['type'];
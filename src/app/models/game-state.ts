@@ -1,6 +1,12 @@
-import { Tile } from './tile';
+import { Hint } from './hint';
+import { LossCause } from './loss';
+import { Move } from './replay';
+import { Board } from './board';
+import { Puzzle } from './puzzle';
+import { TimeLimit } from './time-mode';
+import { TopologyKind } from './topology';
 
-export type Difficulty = 'Beginner' | 'Intermediate' | 'Expert' | 'Custom';
+export type Difficulty = 'Beginner' | 'Intermediate' | 'Expert' | 'Daily' | 'Custom';
 
 export enum GameStatus {
   Ready = 'ready',
@@ -9,17 +15,79 @@ export enum GameStatus {
   Lost = 'lost',
 }
 
+/** Clicks made this game, wasted ones (that changed nothing) included in their kind and counted again in `wasted`. */
+export interface ClickCounts {
+  left: number;
+  right: number;
+  chord: number;
+  wasted: number;
+}
+
 export interface GameState {
-  board: Tile[][];
+  board: Board;
   rows: number;
   cols: number;
   mines: number;
   flagsPlaced: number;
   status: GameStatus;
   firstClick: boolean;
-  startedAt?: number;
+  /** Play time, updated on every clock tick and exact while paused or finished. */
   elapsedMs: number;
   minesLeft: number;
   difficulty: Difficulty;
+  /** How cells connect: square, torus (edges wrap) or hexagonal. */
+  topology: TopologyKind;
   hintsLeft: number;
+  /** Seed driving mine placement; together with rows/cols/mines and `firstClickCell` it fully determines the layout. */
+  seed: number;
+  /** Cell whose neighborhood was kept mine-free. Set exactly when mines have been placed. */
+  firstClickCell?: { x: number; y: number };
+  /** Generate a board the solver can clear from the first click without guessing. */
+  noGuess: boolean;
+  /** 3BV (minimum left clicks) of the layout. Set exactly when mines are placed. */
+  bbbv?: number;
+  /** 3BV done so far: openings opened and lone numbers revealed (see `solvedThreeBV`). */
+  solvedBbbv: number;
+  clicks: ClickCounts;
+  /** Whether no-guess generation succeeded within its budget (unset until mines are placed). */
+  noGuessVerified?: boolean;
+  /** Latest hint, shown until the next move. */
+  hint?: Hint;
+  /** Every action taken this game, undone ones included, in order. */
+  moves: Move[];
+  /** Set once undo or analysis is used: the game no longer counts for the leaderboard. */
+  practice: boolean;
+  /** Set when undo steps back from an ended game: it was recorded then, so ending it again records nothing. */
+  endedBefore?: boolean;
+  /** Probability overlay shown. Carries over to new games until switched off. */
+  analysis: boolean;
+  /** Clock stopped, by the player or while the page is hidden. The board stays covered until resumed. */
+  paused: boolean;
+  /** "Flags" match rules: opening a mine claims it instead of ending the game. */
+  claimMines: boolean;
+  /** Set on the daily challenge: the local calendar day (`YYYY-MM-DD`) the board belongs to. */
+  daily?: string;
+  /** Set in time-attack games: the countdown that loses the game when it runs out. */
+  timeLimit?: TimeLimit;
+  /** Set when playing a hand-made puzzle: its mines were placed up front, not after the first click. */
+  puzzle?: Puzzle;
+  /** Set when the game is lost. */
+  loss?: LossCause;
+}
+
+export interface NewGameOptions {
+  /** Reuse a known seed instead of drawing a fresh one. */
+  seed?: number;
+  /** Place mines up front around this cell, e.g. when loading a shared game code. */
+  firstClickCell?: { x: number; y: number };
+  /** Keep regenerating until the board needs no guessing (bounded; see `NO_GUESS_BUDGET`). */
+  noGuess?: boolean;
+  /** Defaults to the classic square grid. */
+  topology?: TopologyKind;
+  /** See `GameState.claimMines`. */
+  claimMines?: boolean;
+  /** See `GameState.daily`. */
+  daily?: string;
+  /** See `GameState.timeLimit`. */
+  timeLimit?: TimeLimit;
 }
@@ -0,0 +1,11 @@
+export type HintRule = 'opening' | 'single' | 'pair' | 'enumeration' | 'probability';
+
+export interface Hint {
+  x: number;
+  y: number;
+  kind: 'safe' | 'mine' | 'guess';
+  rule: HintRule;
+  /** Mine probability of the target: 0 for a safe cell, 1 for a certain mine. */
+  probability: number;
+  reason: string;
+}
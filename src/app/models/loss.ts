@@ -0,0 +1,39 @@
+import { Cell } from './topology';
+
+/** Judgement of the losing move, made from what the player could see just before it. */
+export interface PostMortem {
+  move: 'reveal' | 'chord';
+  /** The exploded cell judged (the first, if a chord opened several). */
+  cell: Cell;
+  /** `mistake`: the numbers showed a safe move or proved this cell a mine. `guess`: nothing was provably safe. */
+  verdict: 'mistake' | 'guess';
+  /** Mine probability of `cell` from the visible numbers and the mine count (flags ignored). */
+  probability: number;
+  /** Lowest mine probability of any hidden cell at that moment; 0 when some cell was provably safe. */
+  safest: number;
+  reason: string;
+}
+
+/** What a lost game's final board shows. */
+export interface FinalBoard {
+  /** Mines opened by the losing move. */
+  exploded: Cell[];
+  /** Flags on cells without a mine. */
+  wrongFlags: Cell[];
+  /** Mines never flagged, apart from the exploded ones. */
+  missedMines: Cell[];
+}
+
+/** Lost by opening a mine. */
+export interface MineLoss extends FinalBoard {
+  cause: 'mine';
+  postMortem: PostMortem;
+}
+
+/** Lost when a time-attack countdown ran out; nothing exploded. */
+export interface TimeLoss extends FinalBoard {
+  cause: 'time';
+}
+
+/** What a lost game's final board shows, and why the game was lost. */
+export type LossCause = MineLoss | TimeLoss;
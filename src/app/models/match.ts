@@ -0,0 +1,58 @@
+import { GameStatus } from './game-state';
+import { Move } from './replay';
+import { TopologyKind } from './topology';
+
+/** Race: both players clear identical boards, fastest wins. Flags: one shared board, players take turns finding mines. */
+export type MatchMode = 'race' | 'flags';
+export type Seat = 0 | 1;
+
+/** Everything both sides need to build the same boards. */
+export interface MatchSetup {
+  mode: MatchMode;
+  rows: number;
+  cols: number;
+  mines: number;
+  topology: TopologyKind;
+  seed: number;
+  /** Race boards are laid out around this cell up front, so both players get the same mines. */
+  startCell: { x: number; y: number };
+  names: [string, string];
+}
+
+export interface PlayerState {
+  name: string;
+  /** Race: the player's own game. Flags: the shared game. */
+  status: GameStatus;
+  /** Race: safe cells revealed. Flags: mines claimed. */
+  score: number;
+  elapsedMs: number;
+}
+
+export interface MatchResult {
+  /** Null for a draw. */
+  winner: Seat | null;
+  reason: string;
+}
+
+export type MatchPhase = 'idle' | 'waiting' | 'playing' | 'over';
+
+export interface MatchState {
+  phase: MatchPhase;
+  setup: MatchSetup | null;
+  /** Seats played on this device: both on a split screen, one per tab otherwise. */
+  localSeats: Seat[];
+  players: [PlayerState, PlayerState];
+  /** Flags mode: whose turn it is. */
+  turn: Seat;
+  result: MatchResult | null;
+  /** Two-tab matches only: the room other tabs join. */
+  room: string | null;
+  opponentLeft: boolean;
+}
+
+/** What one side of a match sends the other. */
+export type MatchMessage =
+  | { type: 'join'; name: string }
+  | { type: 'start'; setup: MatchSetup }
+  | { type: 'move'; seat: Seat; move: Move }
+  | { type: 'leave' };
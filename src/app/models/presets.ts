@@ -0,0 +1,18 @@
+import { Difficulty } from './game-state';
+
+export type Preset = { rows:number; cols:number; mines:number; difficulty: Difficulty };
+
+export const PRESETS: Record<Exclude<Difficulty,'Custom'>, Preset> = {
+  Beginner: { rows: 9, cols: 9, mines: 10, difficulty: 'Beginner' },
+  Intermediate: { rows: 16, cols: 16, mines: 40, difficulty: 'Intermediate' },
+  Expert: { rows: 16, cols: 30, mines: 99, difficulty: 'Expert' },
+  /** One board per day; see `GameService.newDaily`. */
+  Daily: { rows: 16, cols: 16, mines: 40, difficulty: 'Daily' },
+};
+
+/** The preset a board size belongs to, or Custom. Daily is never inferred from a size alone. */
+export function difficultyFor(rows: number, cols: number, mines: number): Difficulty {
+  const preset = Object.values(PRESETS)
+    .find(p => p.difficulty !== 'Daily' && p.rows === rows && p.cols === cols && p.mines === mines);
+  return preset?.difficulty ?? 'Custom';
+}
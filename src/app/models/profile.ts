@@ -0,0 +1,46 @@
+import { AchievementRecord } from './achievement';
+import { DailyResult } from './daily';
+import { Settings } from './settings';
+import { GameRecord } from './stats';
+import { BoardConfig } from '../utils/board-config';
+
+export const PROFILE_FORMAT = 'minesweeper-profile';
+export const PROFILE_VERSION = 1;
+
+/** Everything the player keeps locally, as one file to back up or move to another browser. */
+export interface Profile {
+  format: typeof PROFILE_FORMAT;
+  version: typeof PROFILE_VERSION;
+  /** ISO date. */
+  exportedAt: string;
+  settings: Settings;
+  /** Every finished game; best times are derived from these. */
+  stats: GameRecord[];
+  daily: DailyResult[];
+  customPresets: (BoardConfig & { name: string })[];
+  achievements: AchievementRecord;
+}
+
+export type ProfileSection = 'settings' | 'stats' | 'daily' | 'customPresets' | 'achievements';
+
+export const PROFILE_SECTIONS: ProfileSection[] = ['settings', 'stats', 'daily', 'customPresets', 'achievements'];
+
+/** `merge` adds what this browser doesn't have yet and keeps its own version of anything that differs. */
+export type ImportMode = 'merge' | 'replace';
+
+/** Something both sides have in different versions; a merge keeps this browser's. */
+export interface ProfileConflict {
+  section: ProfileSection;
+  /** What clashed: a date, a preset name, a setting. */
+  key: string;
+  detail: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  /** Entries taken from the file, per section. */
+  added: Record<ProfileSection, number>;
+  /** Entries both sides already had, identical. */
+  duplicates: number;
+  conflicts: ProfileConflict[];
+}
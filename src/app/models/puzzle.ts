@@ -0,0 +1,44 @@
+import { TOPOLOGY_KINDS, TopologyKind } from './topology';
+
+/** A hand-made board: mines placed in the editor instead of at random after the first click. */
+export interface Puzzle {
+  name: string;
+  rows: number;
+  cols: number;
+  topology: TopologyKind;
+  /** Row-major indices of the mines, ascending. */
+  mines: number[];
+  /** Row-major indices opened before play starts, ascending; zeros among them open their neighbors as usual. */
+  revealed: number[];
+}
+
+/** Puzzles are drawn by hand, so they stay small enough to paint. */
+export const PUZZLE_LIMITS = { minSize: 2, maxRows: 40, maxCols: 60 };
+
+/** Problems that keep a puzzle from being played; empty when it is playable. */
+export function validatePuzzle(p: Puzzle): string[] {
+  const problems: string[] = [];
+  const { minSize, maxRows, maxCols } = PUZZLE_LIMITS;
+  if (!Number.isInteger(p.rows) || p.rows < minSize || p.rows > maxRows) {
+    problems.push(`Rows must be a whole number from ${minSize} to ${maxRows}.`);
+  }
+  if (!Number.isInteger(p.cols) || p.cols < minSize || p.cols > maxCols) {
+    problems.push(`Columns must be a whole number from ${minSize} to ${maxCols}.`);
+  }
+  if (!TOPOLOGY_KINDS.includes(p.topology)) problems.push('Unknown board shape.');
+  if (problems.length) return problems;
+  const cells = p.rows * p.cols;
+  const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < cells;
+  if (!p.mines.every(inRange) || !p.revealed.every(inRange)) problems.push('A cell lies outside the board.');
+  if (p.mines.length === 0) problems.push('Place at least one mine.');
+  if (p.mines.length >= cells) problems.push('Leave at least one cell without a mine.');
+  const mines = new Set(p.mines);
+  if (p.revealed.some(i => mines.has(i))) problems.push('A cell of the start region holds a mine.');
+  return problems;
+}
+
+/** Whether stored or imported data is a well-formed, playable puzzle. */
+export function isPuzzle(p: Partial<Puzzle> | null | undefined): p is Puzzle {
+  return !!p && typeof p.name === 'string' && Array.isArray(p.mines) && Array.isArray(p.revealed)
+    && !validatePuzzle(p as Puzzle).length;
+}
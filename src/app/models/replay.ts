@@ -0,0 +1,35 @@
+import { Difficulty, GameStatus } from './game-state';
+import { TimeLimit } from './time-mode';
+import { TopologyKind } from './topology';
+
+export type MoveKind = 'reveal' | 'flag' | 'question' | 'chord' | 'hint' | 'undo';
+
+export interface Move {
+  kind: MoveKind;
+  /** Target cell; absent for hints and undo. */
+  x?: number;
+  y?: number;
+  /** Milliseconds of play time, paused time excluded (0 for moves before the first reveal). */
+  t: number;
+}
+
+/** Version 2 added `timeLimit`; version 1 replays are all count-up games. */
+export interface Replay {
+  version: 1 | 2;
+  difficulty: Difficulty;
+  rows: number;
+  cols: number;
+  mines: number;
+  topology: TopologyKind;
+  /** Set for time-attack games: the countdown they were played against. */
+  timeLimit?: TimeLimit;
+  seed: number;
+  noGuess: boolean;
+  firstClickCell: { x: number; y: number };
+  /** Row-major indices of every mine, kept so a replay can be checked against its seed. */
+  mineLayout: number[];
+  moves: Move[];
+  status: GameStatus;
+  elapsedMs: number;
+  practice: boolean;
+}
@@ -0,0 +1,55 @@
+import { MotionChoice, ThemeChoice } from './theme';
+
+/** What a bound key does to the focused cell. */
+export type KeyAction = 'reveal' | 'flag' | 'chord';
+
+export const KEY_ACTIONS: KeyAction[] = ['reveal', 'flag', 'chord'];
+
+export interface Settings {
+  /** Keys per action, as lowercased `KeyboardEvent.key` values (`' '` is Space). */
+  keys: Record<KeyAction, string[]>;
+  /** How long a touch must be held to flag, in milliseconds. */
+  longPressMs: number;
+  /** "Flag-chord": clicking a revealed number chords it (it only opens once its flags are all placed). */
+  clickChord: boolean;
+  /** Tapping a revealed number on a touch screen chords it. */
+  tapChord: boolean;
+  /** No-flag style: flagging is off and the board is cleared by revealing alone. */
+  noFlag: boolean;
+  /** Flagging cycles hidden → 🚩 → ? → hidden instead of just toggling the flag. */
+  questionMarks: boolean;
+  /** Board and page colors; `'system'` follows `prefers-color-scheme`. */
+  theme: ThemeChoice;
+  /** Shape markers next to numbers, for telling them apart without color. */
+  markers: boolean;
+  /** `'system'` follows `prefers-reduced-motion`. */
+  motion: MotionChoice;
+  /** Loudness of game sounds, from 0 to 1. */
+  volume: number;
+  /** No sounds, whatever the volume. */
+  muted: boolean;
+  /** Vibrate on long-press flags, explosions and wins, where the device can. */
+  haptics: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  keys: { reveal: [' ', 'enter'], flag: ['f'], chord: ['c'] },
+  longPressMs: 450,
+  clickChord: false,
+  tapChord: false,
+  noFlag: false,
+  questionMarks: false,
+  theme: 'system',
+  markers: false,
+  motion: 'system',
+  volume: 0.6,
+  muted: false,
+  haptics: true,
+};
+
+export const MOTION_CHOICES: MotionChoice[] = ['system', 'full', 'reduced'];
+
+export const LONG_PRESS_LIMITS = { min: 150, max: 1500 };
+
+/** Board navigation keys (see `BoardComponent`), which actions can't take over. */
+export const RESERVED_KEYS = ['arrowup', 'arrowdown', 'arrowleft', 'arrowright', 'home', 'end', 'pageup', 'pagedown', 'n', 'tab', 'escape'];
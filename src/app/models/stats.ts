@@ -0,0 +1,42 @@
+import { Difficulty } from './game-state';
+import { TopologyKind } from './topology';
+
+/** One finished game, as kept in local statistics. */
+export interface GameRecord {
+  /** ISO date the game ended. */
+  date: string;
+  difficulty: Difficulty;
+  rows: number;
+  cols: number;
+  mines: number;
+  /** Absent on records from before topologies existed: those are square. */
+  topology?: TopologyKind;
+  /** Verified no-guess board. */
+  noGuess: boolean;
+  won: boolean;
+  timeMs: number;
+  /** Null for records migrated from the old best-times storage. */
+  clicks: number | null;
+  hintsUsed: number | null;
+  bbbv: number | null;
+  /** Absent on records from before click efficiency was tracked. */
+  wastedClicks?: number;
+  /** 3BV cleared by the end: equal to `bbbv` for wins, progress for losses. Absent on older records. */
+  solvedBbbv?: number;
+  /** False for practice games (undo used); they never reach the leaderboard or the summary. */
+  ranked: boolean;
+  /** Imported from the pre-statistics `ms-best-times` storage. */
+  migrated?: boolean;
+}
+
+export interface StatsSummary {
+  played: number;
+  won: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  /** Average time of won games, in seconds. */
+  averageTimeSec: number | null;
+  /** Average 3BV per second over won games with a known 3BV. */
+  averageBbbvPerSec: number | null;
+}
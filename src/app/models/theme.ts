@@ -0,0 +1,145 @@
+import { Hint } from './hint';
+
+export type ThemeId = 'classic' | 'dark' | 'high-contrast' | 'color-blind';
+
+/** A theme, or whichever of the light and dark themes `prefers-color-scheme` asks for. */
+export type ThemeChoice = ThemeId | 'system';
+
+/** Animations on or off, or as `prefers-reduced-motion` asks. */
+export type MotionChoice = 'system' | 'full' | 'reduced';
+
+export interface ThemePalette {
+  background: string;
+  /** Soft light behind the page; `transparent` for none. */
+  glow: string;
+  panel: string;
+  /** Buttons, badges, inputs and nav links. */
+  surface: string;
+  surfaceHover: string;
+  border: string;
+  text: string;
+  muted: string;
+  link: string;
+  tileHidden: string;
+  tileFlagged: string;
+  tileRevealed: string;
+  tileBorder: string;
+  /** Behind the cells on the canvas board. */
+  gap: string;
+  /** An opened mine's cell. */
+  tileMine: string;
+  /** The mine that lost the game. */
+  tileExploded: string;
+  /** Outline and cross on a flag that had no mine under it. */
+  wrongFlag: string;
+  /** Mine and flag glyphs, where they are text rather than emoji. */
+  glyph: string;
+  question: string;
+  focus: string;
+  /** Per hint kind: the ring around a DOM tile, and the fill where rings can't show (hexagons, canvas). */
+  hints: Record<Hint['kind'], { ring: string; fill: string }>;
+  /** Ends of the analysis heat map, from a safe cell to a certain mine. */
+  heat: { safe: string; mine: string };
+  /** Colors of the numbers 1 to 8. */
+  numbers: readonly string[];
+}
+
+/** Everything a board needs to draw itself. Add a theme here and the picker and both renderers pick it up. */
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  scheme: 'light' | 'dark';
+  palette: ThemePalette;
+  glyphs: { mine: string; flag: string; question: string; exploded: string; wrongFlag: string };
+  /** Shapes shown next to the numbers 1 to 8 when markers are on, so no number relies on color alone. */
+  markers: readonly string[];
+}
+
+const SHAPE_MARKERS = ['●', '▲', '■', '◆', '⬟', '⬢', '✚', '★'];
+const EMOJI_GLYPHS = { mine: '💣', flag: '🚩', question: '?', exploded: '💥', wrongFlag: '❌' };
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: {
+    id: 'classic', label: 'Classic', scheme: 'light',
+    palette: {
+      background: '#e6e8ec', glow: 'transparent', panel: '#f5f6f8', surface: '#ffffff', surfaceHover: '#eef1f6',
+      border: '#a9b0bc', text: '#14171c', muted: '#545b66', link: '#0b4fc2',
+      tileHidden: '#c6c9cf', tileFlagged: '#c6c9cf', tileRevealed: '#eceef1', tileBorder: '#8d939c', gap: '#9aa0a8',
+      tileMine: '#d9a0a0', tileExploded: '#ff2a2a', wrongFlag: '#b00020',
+      glyph: '#14171c', question: '#1b2a8a', focus: '#1d4ed8',
+      hints: {
+        safe: { ring: '#0f9d58', fill: '#9fdcbc' },
+        mine: { ring: '#d93025', fill: '#f4a9a3' },
+        guess: { ring: '#c98a00', fill: '#f3d58a' },
+      },
+      heat: { safe: '#3fae6a', mine: '#e0443a' },
+      numbers: ['#0000ff', '#008000', '#e00000', '#000080', '#800000', '#008080', '#000000', '#707070'],
+    },
+    glyphs: EMOJI_GLYPHS,
+    markers: SHAPE_MARKERS,
+  },
+  dark: {
+    id: 'dark', label: 'Dark', scheme: 'dark',
+    palette: {
+      background: '#0b1020', glow: '#1a2258', panel: '#11183a', surface: '#131a45', surfaceHover: '#172258',
+      border: '#1c2a5e', text: '#e5e7eb', muted: '#9aa3b2', link: '#b3d4ff',
+      tileHidden: '#1c2352', tileFlagged: '#1c254d', tileRevealed: '#0e1540', tileBorder: '#0a1140', gap: '#0b1020',
+      tileMine: '#3a1220', tileExploded: '#b91c3c', wrongFlag: '#fb7185',
+      glyph: '#ffffff', question: '#fde68a', focus: '#93c5fd',
+      hints: {
+        safe: { ring: '#34d399', fill: '#1f6b52' },
+        mine: { ring: '#f87171', fill: '#7a2a3a' },
+        guess: { ring: '#fbbf24', fill: '#7a6420' },
+      },
+      heat: { safe: '#15803d', mine: '#dc2626' },
+      numbers: ['#2dd4bf', '#60a5fa', '#f472b6', '#fbbf24', '#22d3ee', '#a78bfa', '#34d399', '#f87171'],
+    },
+    glyphs: EMOJI_GLYPHS,
+    markers: SHAPE_MARKERS,
+  },
+  'high-contrast': {
+    id: 'high-contrast', label: 'High contrast', scheme: 'dark',
+    palette: {
+      background: '#000000', glow: 'transparent', panel: '#000000', surface: '#000000', surfaceHover: '#1f1f1f',
+      border: '#ffffff', text: '#ffffff', muted: '#e6e6e6', link: '#ffff00',
+      tileHidden: '#4a4a4a', tileFlagged: '#4a4a4a', tileRevealed: '#000000', tileBorder: '#ffffff', gap: '#ffffff',
+      tileMine: '#5a0000', tileExploded: '#ff0000', wrongFlag: '#ff00ff',
+      glyph: '#ffffff', question: '#ffff00', focus: '#ffff00',
+      hints: {
+        safe: { ring: '#00ff00', fill: '#006400' },
+        mine: { ring: '#ff3030', fill: '#8b0000' },
+        guess: { ring: '#ffff00', fill: '#6b6b00' },
+      },
+      heat: { safe: '#00a000', mine: '#ff0000' },
+      numbers: ['#00ffff', '#00ff00', '#ff7070', '#ffff00', '#ffa500', '#ff66ff', '#ffffff', '#c8c8c8'],
+    },
+    // Text glyphs take the palette's colors, where emoji keep their own.
+    glyphs: { mine: '✹', flag: '⚑', question: '?', exploded: '✺', wrongFlag: '✗' },
+    markers: SHAPE_MARKERS,
+  },
+  // Okabe–Ito colors, which stay apart under the common forms of color blindness.
+  'color-blind': {
+    id: 'color-blind', label: 'Color-blind safe', scheme: 'dark',
+    palette: {
+      background: '#0d1117', glow: '#1b2230', panel: '#161b22', surface: '#1c222b', surfaceHover: '#262d38',
+      border: '#3a4350', text: '#f0f3f6', muted: '#a9b1bb', link: '#56b4e9',
+      tileHidden: '#2b323d', tileFlagged: '#2b323d', tileRevealed: '#11151b', tileBorder: '#0a0d12', gap: '#0d1117',
+      tileMine: '#4a2600', tileExploded: '#d55e00', wrongFlag: '#cc79a7',
+      glyph: '#ffffff', question: '#f0e442', focus: '#56b4e9',
+      hints: {
+        safe: { ring: '#56b4e9', fill: '#1d4f6e' },
+        mine: { ring: '#d55e00', fill: '#6b3000' },
+        guess: { ring: '#f0e442', fill: '#6e6a1e' },
+      },
+      heat: { safe: '#0072b2', mine: '#e69f00' },
+      numbers: ['#56b4e9', '#009e73', '#e69f00', '#f0e442', '#cc79a7', '#d55e00', '#ffffff', '#a0a0a0'],
+    },
+    glyphs: EMOJI_GLYPHS,
+    markers: SHAPE_MARKERS,
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+/** What `'system'` resolves to for each `prefers-color-scheme`. */
+export const SYSTEM_THEMES: Record<Theme['scheme'], ThemeId> = { light: 'classic', dark: 'dark' };
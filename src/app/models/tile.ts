@@ -4,5 +4,9 @@ export interface Tile {
   isMine: boolean;
   isRevealed: boolean;
   isFlagged: boolean;
+  /** `?` marker: the player is unsure. Never set together with a flag. */
+  isQuestioned: boolean;
+  /** The mine that lost the game. */
+  isExploded: boolean;
   adjacentMines: number;
 }
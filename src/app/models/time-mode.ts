@@ -0,0 +1,45 @@
+/** How the clock runs: counting up, or time attack (counting down to a loss), optionally earning time back. */
+export type TimeMode = 'up' | 'countdown' | 'bonus';
+
+export const TIME_MODES: TimeMode[] = ['up', 'countdown', 'bonus'];
+
+/** A time-attack countdown. Running out of time loses the game. */
+export interface TimeLimit {
+  /** Time on the clock at the first click. */
+  ms: number;
+  /** Added for every safe cell opened. */
+  bonusPerCellMs: number;
+}
+
+interface TimeModeInfo {
+  label: string;
+  description: string;
+  /** Countdown time per safe cell on the board, and the least any board gets. */
+  msPerSafeCell: number;
+  minMs: number;
+  bonusPerCellMs: number;
+}
+
+export const TIME_MODE_INFO: Record<Exclude<TimeMode, 'up'>, TimeModeInfo> = {
+  countdown: {
+    label: '⏳ Time attack', description: 'Clear the board before the countdown runs out',
+    msPerSafeCell: 1000, minMs: 30_000, bonusPerCellMs: 0,
+  },
+  bonus: {
+    label: '⏱ Bonus time', description: 'A short countdown that every safe cell you open adds to',
+    msPerSafeCell: 250, minMs: 20_000, bonusPerCellMs: 500,
+  },
+};
+
+/** The countdown for a board in `mode`, in whole seconds and scaled by its safe cells; none when counting up. */
+export function timeLimitFor(mode: TimeMode, rows: number, cols: number, mines: number): TimeLimit | undefined {
+  if (mode === 'up') return undefined;
+  const info = TIME_MODE_INFO[mode];
+  const ms = Math.max(info.minMs, Math.round((rows * cols - mines) * info.msPerSafeCell / 1000) * 1000);
+  return { ms, bonusPerCellMs: info.bonusPerCellMs };
+}
+
+/** The mode a game's countdown was made in. */
+export function timeModeOf(limit: TimeLimit | undefined): TimeMode {
+  return !limit ? 'up' : limit.bonusPerCellMs ? 'bonus' : 'countdown';
+}
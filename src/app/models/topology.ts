@@ -0,0 +1,92 @@
+export type TopologyKind = 'square' | 'torus' | 'hex';
+
+export interface Cell { x: number; y: number }
+
+/** How cells connect, and how the board draws them. Everything that walks neighbors goes through here. */
+export interface Topology {
+  kind: TopologyKind;
+  label: string;
+  /** Edges wrap around, so keyboard movement does too. */
+  wraps: boolean;
+  /** Tile shape drawn by `BoardComponent`. */
+  shape: 'square' | 'hex';
+  /** Distinct neighbors of (x, y), never including the cell itself. */
+  neighbors(rows: number, cols: number, x: number, y: number): Cell[];
+}
+
+const SQUARE_OFFSETS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+/** "Odd-r" offset layout: odd rows sit half a cell to the right, so the diagonals depend on row parity. */
+const HEX_OFFSETS_EVEN_ROW = [[-1, -1], [0, -1], [-1, 0], [1, 0], [-1, 1], [0, 1]];
+const HEX_OFFSETS_ODD_ROW = [[0, -1], [1, -1], [-1, 0], [1, 0], [0, 1], [1, 1]];
+
+function clipped(offsets: number[][], rows: number, cols: number, x: number, y: number): Cell[] {
+  const res: Cell[] = [];
+  for (const [dx, dy] of offsets) {
+    const nx = x + dx, ny = y + dy;
+    if (ny >= 0 && ny < rows && nx >= 0 && nx < cols) res.push({ x: nx, y: ny });
+  }
+  return res;
+}
+
+export const TOPOLOGIES: Record<TopologyKind, Topology> = {
+  square: {
+    kind: 'square', label: 'Square', wraps: false, shape: 'square',
+    neighbors: (rows, cols, x, y) => clipped(SQUARE_OFFSETS, rows, cols, x, y),
+  },
+  torus: {
+    kind: 'torus', label: 'Torus', wraps: true, shape: 'square',
+    neighbors(rows, cols, x, y) {
+      // On boards narrower than 3, wrapping reaches the same cell twice (or the cell itself).
+      const seen = new Set<number>([y * cols + x]);
+      const res: Cell[] = [];
+      for (const [dx, dy] of SQUARE_OFFSETS) {
+        const nx = (x + dx + cols) % cols, ny = (y + dy + rows) % rows;
+        if (seen.has(ny * cols + nx)) continue;
+        seen.add(ny * cols + nx);
+        res.push({ x: nx, y: ny });
+      }
+      return res;
+    },
+  },
+  hex: {
+    kind: 'hex', label: 'Hex', wraps: false, shape: 'hex',
+    neighbors: (rows, cols, x, y) => clipped(y % 2 ? HEX_OFFSETS_ODD_ROW : HEX_OFFSETS_EVEN_ROW, rows, cols, x, y),
+  },
+};
+
+export const TOPOLOGY_KINDS = Object.keys(TOPOLOGIES) as TopologyKind[];
+
+/** Row-major neighbor indices of every cell: cell `i` owns `list[start[i]]` up to `list[start[i + 1]]`. */
+export interface NeighborTable {
+  start: Int32Array;
+  list: Int32Array;
+}
+
+/** Tables are built once per board shape; a few are kept (current game, replays, the worker's copy). */
+const TABLE_CACHE_SIZE = 4;
+const tables = new Map<string, NeighborTable>();
+
+export function neighborTable(topology: TopologyKind, rows: number, cols: number): NeighborTable {
+  const key = `${topology}:${rows}x${cols}`;
+  const cached = tables.get(key);
+  if (cached) return cached;
+
+  const n = rows * cols, neighbors = TOPOLOGIES[topology].neighbors;
+  const start = new Int32Array(n + 1);
+  const list: number[] = [];
+  for (let i = 0; i < n; i++) {
+    start[i] = list.length;
+    for (const c of neighbors(rows, cols, i % cols, Math.floor(i / cols))) list.push(c.y * cols + c.x);
+  }
+  start[n] = list.length;
+  const table = { start, list: Int32Array.from(list) };
+  if (tables.size >= TABLE_CACHE_SIZE) tables.delete(tables.keys().next().value!);
+  tables.set(key, table);
+  return table;
+}
+
+/** Row-major neighbor indices of cell `i`. */
+export function neighborIndices(topology: TopologyKind, rows: number, cols: number, i: number): number[] {
+  const { start, list } = neighborTable(topology, rows, cols);
+  return Array.from(list.subarray(start[i], start[i + 1]));
+}
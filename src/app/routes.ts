@@ -2,10 +2,23 @@ import { Routes } from '@angular/router';
 import { GamePageComponent } from './views/game-page.component';
 import { LeaderboardComponent } from './components/leaderboard/leaderboard.component';
 import { AboutComponent } from './components/about/about.component';
+import { ReplayPageComponent } from './views/replay-page.component';
+import { StatisticsComponent } from './components/statistics/statistics.component';
+import { MatchPageComponent } from './views/match-page.component';
+import { SettingsPageComponent } from './views/settings-page.component';
+import { AchievementsPageComponent } from './views/achievements-page.component';
+import { EditorPageComponent } from './views/editor-page.component';
 
 export const routes: Routes = [
   { path: '', component: GamePageComponent, title: 'Minesweeper' },
+  { path: 'play/:code', component: GamePageComponent, title: 'Minesweeper' },
+  { path: 'editor', component: EditorPageComponent, title: 'Puzzle editor' },
+  { path: 'match', component: MatchPageComponent, title: 'Match' },
+  { path: 'replay', component: ReplayPageComponent, title: 'Replay' },
   { path: 'leaderboard', component: LeaderboardComponent, title: 'Leaderboard' },
+  { path: 'stats', component: StatisticsComponent, title: 'Statistics' },
+  { path: 'achievements', component: AchievementsPageComponent, title: 'Achievements' },
+  { path: 'settings', component: SettingsPageComponent, title: 'Settings' },
   { path: 'about', component: AboutComponent, title: 'About' },
   { path: '**', redirectTo: '' }
 ];
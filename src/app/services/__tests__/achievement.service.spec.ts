@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { AchievementService } from '../achievement.service';
+import { GameService } from '../game.service';
+import { provideGamePlugin } from '../game-plugin';
+import { toTiles } from '../../models/board';
+import { Achievement, AchievementId } from '../../models/achievement';
+
+describe('AchievementService', () => {
+  let game: GameService;
+  let achievements: AchievementService;
+
+  function setUp() {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [GameService, provideGamePlugin(() => TestBed.inject(AchievementService))],
+    });
+    game = TestBed.inject(GameService);
+    achievements = TestBed.inject(AchievementService);
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    setUp();
+  });
+
+  const progress = (id: AchievementId) => achievements.snapshot.find(p => p.achievement.id === id)!;
+
+  function win(seed: number) {
+    game.newPreset('Beginner', { seed });
+    game.reveal({ x: 4, y: 4 });
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+  }
+
+  function lose(seed: number) {
+    game.newPreset('Beginner', { seed });
+    game.reveal({ x: 4, y: 4 });
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => t.isMine)!);
+  }
+
+  it('unlocks feats on a win, toasts them once and keeps the dates across reloads', () => {
+    const toasts: Achievement[] = [];
+    achievements.unlocked$.subscribe(a => toasts.push(a));
+    win(3);
+    expect(toasts.map(a => a.id)).toEqual(jasmine.arrayContaining(['first-win', 'no-flags', 'no-hints']));
+    expect(progress('expert-100').unlockedAt).toBeNull();
+    expect(progress('wins-100').progress).toBe(1);
+
+    const count = toasts.length;
+    win(4);
+    expect(toasts.length).toBe(count);
+
+    const unlockedAt = progress('first-win').unlockedAt;
+    expect(Date.parse(unlockedAt!)).not.toBeNaN();
+    setUp();
+    expect(progress('first-win').unlockedAt).toBe(unlockedAt);
+    expect(progress('wins-100').progress).toBe(2);
+  });
+
+  it('counts the current win streak, and ignores practice games', () => {
+    win(3);
+    win(4);
+    expect(progress('streak-10').progress).toBe(2);
+
+    game.newPreset('Beginner', { seed: 5 });
+    game.reveal({ x: 4, y: 4 });
+    game.setAnalysis(true);
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => t.isMine)!);
+    expect(game.snapshot.practice).toBeTrue();
+    expect(progress('streak-10').progress).toBe(2);
+
+    game.setAnalysis(false);
+    lose(6);
+    expect(progress('streak-10').progress).toBe(0);
+    expect(progress('wins-100').progress).toBe(2);
+  });
+
+  it('keeps the largest flood fill as progress, from in-game events', () => {
+    const opened: number[] = [];
+    game.events$.subscribe(e => { if (e.type === 'flood-filled') opened.push(e.opened); });
+    game.newPreset('Beginner', { seed: 3 });
+    game.reveal({ x: 4, y: 4 });
+    expect(opened.length).toBe(1);
+    expect(progress('flood-50').progress).toBe(Math.min(opened[0], 50));
+    expect(progress('flood-50').unlockedAt !== null).toBe(opened[0] >= 50);
+  });
+
+  it('starts over on unreadable storage', () => {
+    localStorage.setItem('ms-achievements', '{"version":1,"progress":{"wins-100":"lots"},"unlocked":{"first-win":42}}');
+    setUp();
+    expect(progress('wins-100').progress).toBe(0);
+    expect(progress('first-win').unlockedAt).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { DailyService } from '../daily.service';
+import { GameService } from '../game.service';
+import { toTiles } from '../../models/board';
+import { dailyKey, dailySeed, dayBefore, isDailyKey } from '../../utils/daily';
+
+describe('DailyService', () => {
+  let game: GameService;
+  let daily: DailyService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [GameService, DailyService] });
+    game = TestBed.inject(GameService);
+    daily = TestBed.inject(DailyService);
+  });
+
+  function win(date: string) {
+    game.newDaily(date);
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+  }
+
+  function lose(date: string) {
+    game.newDaily(date);
+    game.reveal({ x: 8, y: 8 });
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => t.isMine)!);
+  }
+
+  it('keys days by the local calendar and seeds them the same everywhere', () => {
+    expect(dailyKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(dayBefore('2026-03-01')).toBe('2026-02-28');
+    expect(isDailyKey('2026-02-29')).toBeFalse();
+    expect(isDailyKey('2024-02-29')).toBeTrue();
+    expect(dailySeed('2026-01-05')).toBe(dailySeed('2026-01-05'));
+    expect(dailySeed('2026-01-05')).not.toBe(dailySeed('2026-01-06'));
+  });
+
+  it('keeps only the first finished attempt of a day', () => {
+    lose('2026-01-05');
+    game.undo();
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+    const r = daily.resultFor('2026-01-05')!;
+    expect(r.won).toBeFalse();
+    expect(r.cleared).toBeGreaterThan(0);
+    expect(r.cleared).toBeLessThan(1);
+    expect(daily.history().length).toBe(1);
+  });
+
+  it('counts streaks of consecutive won days', () => {
+    win('2026-01-01');
+    win('2026-01-02');
+    lose('2026-01-03');
+    win('2026-01-04');
+    win('2026-01-05');
+    win('2026-01-06');
+    expect(daily.streak('2026-01-06')).toEqual({ current: 3, best: 3 });
+    // Today not yet played: yesterday's streak still stands.
+    expect(daily.streak('2026-01-07')).toEqual({ current: 3, best: 3 });
+    expect(daily.streak('2026-01-08').current).toBe(0);
+    expect(daily.history().map(r => r.date)[0]).toBe('2026-01-06');
+  });
+
+  it('shares the result without giving the layout away', () => {
+    win('2026-01-01');
+    win('2026-01-02');
+    const text = daily.shareText('2026-01-02')!;
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('Minesweeper Daily 2026-01-02 🔥2');
+    expect(lines[1]).toMatch(/^🎉 \d+\.\d+s · \d+\.\d{2} 3BV\/s$/);
+    expect(lines[2]).toBe('🟩'.repeat(10));
+
+    lose('2026-01-03');
+    expect(daily.shareText('2026-01-03')!.split('\n')[2]).toMatch(/^🟩*💥⬜*$/u);
+    expect(daily.shareText('2026-01-09')).toBeNull();
+  });
+
+  it('survives a reload and ignores malformed storage', () => {
+    win('2026-01-01');
+    expect(new DailyService().resultFor('2026-01-01')?.won).toBeTrue();
+    localStorage.setItem('ms-daily', '{"version":1,"results":[{"date":"nope"}]}');
+    expect(new DailyService().history()).toEqual([]);
+  });
+});
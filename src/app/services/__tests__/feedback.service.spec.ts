@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { FeedbackService } from '../feedback.service';
+import { FEEDBACK_DEVICE, FeedbackDevice } from '../feedback-device';
+import { GAME_PLUGINS } from '../game-plugin';
+import { GameService } from '../game.service';
+import { SettingsService } from '../settings.service';
+import { CUE_TONES, Tone, VIBRATION_PATTERNS } from '../../models/feedback';
+import { toTiles } from '../../models/board';
+
+/** Remembers what it was asked to play and buzz. */
+class RecordingDevice implements FeedbackDevice {
+  canPlay = true;
+  canVibrate = true;
+  played: { tones: Tone[]; volume: number }[] = [];
+  vibrations: number[][] = [];
+  play(tones: Tone[], volume: number): void { this.played.push({ tones, volume }); }
+  vibrate(pattern: number[]): void { this.vibrations.push(pattern); }
+}
+
+describe('FeedbackService', () => {
+  let device: RecordingDevice;
+  let game: GameService;
+  let settings: SettingsService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    device = new RecordingDevice();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FEEDBACK_DEVICE, useValue: device },
+        { provide: GAME_PLUGINS, useFactory: () => [TestBed.inject(FeedbackService)] },
+      ],
+    });
+    game = TestBed.inject(GameService);
+    settings = TestBed.inject(SettingsService);
+  });
+
+  it('plays a cue per game action and buzzes on explosions', () => {
+    game.newGame(9, 9, 10, 'Beginner', { seed: 3 });
+    game.reveal({ x: 4, y: 4 });
+    expect(device.played.map(p => p.tones)).toEqual([CUE_TONES.cascade]);
+    expect(device.played[0].volume).toBe(settings.snapshot.volume);
+
+    const tiles = toTiles(game.snapshot.board).flat();
+    game.toggleFlag(tiles.find(t => !t.isRevealed)!);
+    game.reveal(tiles.find(t => t.isMine && !t.isFlagged)!);
+    expect(device.played.slice(1).map(p => p.tones)).toEqual([CUE_TONES.flag, CUE_TONES.explosion]);
+    expect(device.vibrations).toEqual([VIBRATION_PATTERNS.explosion]);
+  });
+
+  it('stays quiet when muted or at zero volume, and still when haptics are off', () => {
+    const feedback = TestBed.inject(FeedbackService);
+    settings.update({ muted: true });
+    feedback.play('win');
+    settings.update({ muted: false, volume: 0 });
+    feedback.play('win');
+    expect(device.played).toEqual([]);
+
+    settings.update({ volume: 3, haptics: false });
+    expect(settings.snapshot.volume).toBe(1);
+    feedback.onEvent({ type: 'game-won', elapsedMs: 1000, practice: false });
+    expect(device.played.length).toBe(1);
+    expect(device.vibrations).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { TestBed } from '@angular/core/testing';
+import { GameService, GAME_PERSISTENCE } from '../game.service';
+import { GameStatus } from '../../models/game-state';
+import { FLAGGED, MINE, REVEALED } from '../../models/board';
+
+/**
+ * Work done by single actions on very large boards. Wall-clock limits would fail on a slow or busy
+ * machine, so the specs check patch sizes and compare timings with each other; the timings
+ * themselves are recorded as spec properties (`ms: …`) for reporters to show.
+ */
+describe('GameService performance', () => {
+  let service: GameService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [GameService, { provide: GAME_PERSISTENCE, useValue: false }] });
+    service = TestBed.inject(GameService);
+  });
+
+  /** Best of `runs` timings of `action`, each after a fresh `setup`. */
+  function measure(setup: () => void, action: () => void, runs = 3): number {
+    let best = Infinity;
+    for (let i = 0; i < runs; i++) {
+      setup();
+      const start = performance.now();
+      action();
+      best = Math.min(best, performance.now() - start);
+    }
+    return best;
+  }
+
+  function report(label: string, ms: number): void {
+    setSpecProperty(`ms: ${label}`, Math.round(ms * 100) / 100);
+  }
+
+  for (const size of [100, 500]) {
+    const cells = size * size;
+
+    it(`flood-fills an empty ${size}×${size} board in one reveal`, () => {
+      const ms = measure(() => service.newGame(size, size, 0, 'Custom', { seed: 1 }), () => service.reveal({ x: 0, y: 0 }));
+      report(`${size}×${size} full flood fill (${cells} cells)`, ms);
+      expect(service.snapshot.status).toBe(GameStatus.Won);
+      expect(service.snapshot.board.changed!.length).toBe(cells);
+    });
+
+    it(`places mines and opens the first region on a ${size}×${size} board at 15% density`, () => {
+      const mines = Math.round(cells * 0.15);
+      const ms = measure(
+        () => service.newGame(size, size, mines, 'Custom', { seed: 7 }),
+        () => service.reveal({ x: size >> 1, y: size >> 1 }),
+      );
+      report(`${size}×${size} first click with ${mines} mines`, ms);
+      expect(service.snapshot.status).toBe(GameStatus.Playing);
+    });
+
+    it(`flags and reveals single cells on a ${size}×${size} board as small patches`, () => {
+      // The yardstick: opening every cell of the same board.
+      const floodMs = measure(
+        () => service.newGame(size, size, 0, 'Custom', { seed: 1 }),
+        () => service.reveal({ x: 0, y: 0 }),
+      );
+
+      let mine = { x: 0, y: 0 }, number = { x: 0, y: 0 };
+      const setup = () => {
+        service.newGame(size, size, Math.round(cells * 0.15), 'Custom', { seed: 7 });
+        service.reveal({ x: size >> 1, y: size >> 1 });
+        const { cells: bits, adjacent } = service.snapshot.board;
+        const hidden = (want: number) => {
+          for (let i = 0; i < bits.length; i++) {
+            if (!(bits[i] & (REVEALED | FLAGGED)) && (bits[i] & MINE) === want && (want || adjacent[i] > 0)) {
+              return { x: i % size, y: Math.floor(i / size) };
+            }
+          }
+          throw new Error('no such cell');
+        };
+        mine = hidden(MINE);
+        number = hidden(0);
+      };
+
+      const flagMs = measure(setup, () => service.toggleFlag(mine));
+      expect(service.snapshot.board.changed!.length).toBe(1);
+      const revealMs = measure(setup, () => service.reveal(number));
+      expect(service.snapshot.board.changed!.length).toBe(1);
+
+      report(`${size}×${size} full flood fill`, floodMs);
+      report(`${size}×${size} flag`, flagMs);
+      report(`${size}×${size} reveal of a number`, revealMs);
+      // A one-cell patch costs a board copy at most, far less than visiting every cell.
+      expect(flagMs).toBeLessThan(floodMs);
+      expect(revealMs).toBeLessThan(floodMs);
+    });
+  }
+});
@@ -1,11 +1,22 @@
 import { TestBed } from '@angular/core/testing';
-import { GameService } from '../game.service';
+import { GAME_PERSISTENCE, GameService } from '../game.service';
 import { GameStatus } from '../../models/game-state';
+import { unsolvedCellsFrom } from '../../solver/no-guess';
+import { PRESETS } from '../../models/presets';
+import { BoardConfigError } from '../../utils/board-config';
+import { tileAt, toTiles } from '../../models/board';
+import { Tile } from '../../models/tile';
+import { SettingsService } from '../settings.service';
+import { GamePlugin, provideGamePlugin } from '../game-plugin';
+import { GameEvent } from '../../models/game-event';
+import { gameMetrics, solvedThreeBV, threeBV, timeLeftMs } from '../../utils/metrics';
+import { ClockService, ManualClock } from '../clock.service';
 
 describe('GameService (core behaviors)', () => {
   let service: GameService;
 
   beforeEach(() => {
+    localStorage.clear();
     TestBed.configureTestingModule({ providers: [GameService] });
     service = TestBed.inject(GameService);
   });
@@ -15,7 +26,7 @@ describe('GameService (core behaviors)', () => {
     const s = service.snapshot;
     service.reveal({ x: 0, y: 0 });
     const after = service.snapshot;
-    expect(after.board[0][0].isMine).toBeFalse();
+    expect(toTiles(after.board)[0][0].isMine).toBeFalse();
     expect(after.status).toBe(GameStatus.Playing);
   });
 
@@ -23,11 +34,7 @@ describe('GameService (core behaviors)', () => {
     service.newGame(5, 5, 0, 'Custom');
     service.reveal({ x: 2, y: 2 });
     const s = service.snapshot;
-    let allRevealed = true;
-    for (let y = 0; y < s.rows; y++) for (let x = 0; x < s.cols; x++) {
-      if (!s.board[y][x].isRevealed) allRevealed = false;
-    }
-    expect(allRevealed).toBeTrue();
+    expect(toTiles(s.board).flat().every(t => t.isRevealed)).toBeTrue();
     expect(s.status === GameStatus.Playing || s.status === GameStatus.Won).toBeTrue();
   });
 
@@ -37,4 +44,487 @@ describe('GameService (core behaviors)', () => {
     const s = service.snapshot;
     expect(s.status).toBe(GameStatus.Won);
   });
+
+  it('same seed and first click produce the same mine layout', () => {
+    const mines = () => toTiles(service.snapshot.board).map(r => r.map(t => (t.isMine ? 1 : 0)).join('')).join('/');
+    service.newGame(16, 30, 99, 'Expert', { seed: 1234 });
+    service.reveal({ x: 5, y: 5 });
+    const first = mines();
+    service.newGame(16, 30, 99, 'Expert', { seed: 1234 });
+    service.reveal({ x: 5, y: 5 });
+    expect(mines()).toBe(first);
+  });
+
+  it('game codes round-trip to the exact same board', () => {
+    service.newPreset('Intermediate');
+    service.reveal({ x: 3, y: 7 });
+    const code = service.exportGameCode();
+    const layout = toTiles(service.snapshot.board).map(r => r.map(t => t.isMine));
+
+    expect(service.loadGameCode(code)).toBeTrue();
+    const loaded = service.snapshot;
+    expect(loaded.difficulty).toBe('Intermediate');
+    expect(loaded.status).toBe(GameStatus.Ready);
+    expect(loaded.firstClickCell).toEqual({ x: 3, y: 7 });
+    expect(toTiles(loaded.board).map(r => r.map(t => t.isMine))).toEqual(layout);
+  });
+
+  it('rejects malformed game codes', () => {
+    expect(service.loadGameCode('nonsense')).toBeFalse();
+    expect(service.loadGameCode('v1.9.9.zz.1')).toBeFalse();
+  });
+
+  it('hints point at a deduced cell without revealing it', () => {
+    service.newGame(9, 9, 10, 'Beginner', { seed: 42 });
+    service.reveal({ x: 4, y: 4 });
+    const before = service.snapshot;
+    service.useHint();
+    const after = service.snapshot;
+    const hint = after.hint!;
+    expect(hint).toBeDefined();
+    expect(after.hintsLeft).toBe(before.hintsLeft - 1);
+    const target = toTiles(after.board)[hint.y][hint.x];
+    expect(target.isRevealed).toBeFalse();
+    if (hint.kind === 'safe') expect(target.isMine).toBeFalse();
+    if (hint.kind === 'mine') expect(target.isMine).toBeTrue();
+
+    service.toggleFlag({ x: 0, y: 0 });
+    expect(service.snapshot.hint).toBeUndefined();
+  });
+
+  it('no-guess mode produces a board the solver clears from the first click', () => {
+    service.newPreset('Intermediate', { noGuess: true, seed: 7 });
+    service.reveal({ x: 8, y: 8 });
+    const s = service.snapshot;
+    expect(s.noGuess).toBeTrue();
+    expect(s.noGuessVerified).toBeTrue();
+    expect(unsolvedCellsFrom(s.board, s.mines, { x: 8, y: 8 })).toBe(0);
+
+    // The exported code reproduces the chosen layout without searching again.
+    const layout = toTiles(s.board).map(r => r.map(t => t.isMine));
+    expect(service.loadGameCode(service.exportGameCode())).toBeTrue();
+    expect(service.snapshot.noGuess).toBeTrue();
+    expect(toTiles(service.snapshot.board).map(r => r.map(t => t.isMine))).toEqual(layout);
+  });
+
+  it('undo steps back, keeps the game going and marks it as practice', () => {
+    service.newGame(9, 9, 10, 'Beginner', { seed: 3 });
+    service.reveal({ x: 4, y: 4 });
+    const before = service.snapshot.board;
+    service.reveal(toTiles(service.snapshot.board).flat().find(t => t.isMine)!);
+    expect(service.snapshot.status).toBe(GameStatus.Lost);
+
+    service.undo();
+    const s = service.snapshot;
+    expect(s.status).toBe(GameStatus.Playing);
+    expect(s.board).toBe(before);
+    expect(s.practice).toBeTrue();
+    expect(s.moves.map(m => m.kind)).toEqual(['reveal', 'reveal', 'undo']);
+
+    for (const t of toTiles(s.board).flat()) if (!t.isMine) service.reveal(t);
+    expect(service.snapshot.status).toBe(GameStatus.Won);
+    expect(service.getBestTimeSec({ ...PRESETS.Beginner, noGuess: false })).toBeNull();
+  });
+
+  it('rejects impossible board configurations with a clear error', () => {
+    expect(() => service.newGame(9, 9, 73, 'Custom')).toThrowError(BoardConfigError, /At most 72 mines fit on a 9×9 board/);
+    expect(() => service.newGame(1, 500, 0, 'Custom')).toThrowError(BoardConfigError, /Rows must be/);
+    expect(() => service.newGame(9, 9, 2.5, 'Custom')).toThrowError(BoardConfigError, /whole number/);
+    expect(service.loadGameCode('v1.9.9.21.1')).toBeFalse();
+
+    service.newGame(9, 9, 72, 'Custom');
+    service.reveal({ x: 4, y: 4 });
+    expect(toTiles(service.snapshot.board).flat().filter(t => t.isMine).length).toBe(72);
+  });
+
+  it('keeps custom best times per board size', () => {
+    const winCustom = (rows: number, cols: number, mines: number) => {
+      service.newGame(rows, cols, mines, 'Custom', { seed: 11 });
+      service.reveal({ x: 1, y: 1 });
+      for (const t of toTiles(service.snapshot.board).flat()) if (!t.isMine) service.reveal(t);
+    };
+    winCustom(6, 6, 3);
+    expect(service.getBestTimeSec({ difficulty: 'Custom', rows: 6, cols: 6, mines: 3, noGuess: false })).not.toBeNull();
+    expect(service.getBestTimeSec({ difficulty: 'Custom', rows: 7, cols: 6, mines: 3, noGuess: false })).toBeNull();
+  });
+
+  it('torus boards wrap the safe zone and flood fill across the edges', () => {
+    service.newGame(8, 8, 10, 'Custom', { seed: 5, topology: 'torus' });
+    service.reveal({ x: 0, y: 0 });
+    const b = toTiles(service.snapshot.board);
+    for (const [x, y] of [[7, 7], [7, 0], [0, 7], [1, 1]]) expect(b[y][x].isMine).toBeFalse();
+    for (const t of b.flat()) {
+      const mines = [-1, 0, 1].flatMap(dy => [-1, 0, 1].map(dx => b[(t.y + dy + 8) % 8][(t.x + dx + 8) % 8]))
+        .filter(n => n !== t && n.isMine).length;
+      if (!t.isMine) expect(t.adjacentMines).toBe(mines);
+    }
+  });
+
+  it('hex boards count six neighbors and keep their topology in game codes and best times', () => {
+    service.newGame(9, 9, 0, 'Custom', { seed: 3, topology: 'hex' });
+    service.reveal({ x: 4, y: 4 });
+    expect(service.snapshot.status).toBe(GameStatus.Won);
+    expect(service.getBestTimeSec({ difficulty: 'Custom', rows: 9, cols: 9, mines: 0, noGuess: false, topology: 'hex' }))
+      .not.toBeNull();
+    expect(service.getBestTimeSec({ difficulty: 'Custom', rows: 9, cols: 9, mines: 0, noGuess: false })).toBeNull();
+
+    service.newGame(9, 9, 60, 'Custom', { topology: 'hex' });
+    service.reveal({ x: 4, y: 3 });
+    const layout = toTiles(service.snapshot.board).map(r => r.map(t => t.isMine));
+    expect(Math.max(...service.snapshot.board.adjacent)).toBeLessThanOrEqual(6);
+    const code = service.exportGameCode();
+    expect(code.endsWith('.h')).toBeTrue();
+    service.newGame(9, 9, 10, 'Custom');
+    expect(service.loadGameCode(code)).toBeTrue();
+    expect(service.snapshot.topology).toBe('hex');
+    expect(toTiles(service.snapshot.board).map(r => r.map(t => t.isMine))).toEqual(layout);
+  });
+
+  it('analysis makes a game unranked when used during play, and carries over to new games', () => {
+    service.newPreset('Beginner', { seed: 9 });
+    service.reveal({ x: 4, y: 4 });
+    expect(service.snapshot.practice).toBeFalse();
+    service.setAnalysis(true);
+    expect(service.snapshot.practice).toBeTrue();
+
+    service.newPreset('Beginner');
+    expect(service.snapshot.analysis).toBeTrue();
+    expect(service.snapshot.practice).toBeFalse();
+    service.reveal({ x: 4, y: 4 });
+    expect(service.snapshot.practice).toBeTrue();
+
+    service.setAnalysis(false);
+    service.newPreset('Beginner');
+    service.reveal({ x: 4, y: 4 });
+    expect(service.snapshot.practice).toBeFalse();
+  });
+
+  it('daily boards are the same for a given day, and one attempt is all there is', () => {
+    expect(service.newDaily('2026-03-01')).toBeTrue();
+    const first = service.snapshot.board;
+    expect(service.snapshot.difficulty).toBe('Daily');
+    expect(service.snapshot.firstClickCell).toEqual({ x: 8, y: 8 });
+
+    service.newPreset('Beginner');
+    service.newDaily('2026-03-01');
+    expect(service.snapshot.board.cells).toEqual(first.cells);
+    service.newDaily('2026-03-02');
+    expect(service.snapshot.board.cells).not.toEqual(first.cells);
+
+    service.newDaily('2026-03-01');
+    service.reveal({ x: 8, y: 8 });
+    service.reveal(toTiles(service.snapshot.board).flat().find(t => t.isMine)!);
+    expect(service.snapshot.status).toBe(GameStatus.Lost);
+    expect(service.newDaily('2026-03-01')).toBeFalse();
+    service.restart();
+    expect(service.snapshot.difficulty).toBe('Intermediate');
+    expect(service.snapshot.daily).toBeUndefined();
+  });
+
+  it('leaving a started daily board for another game uses up the attempt', () => {
+    service.newDaily('2026-03-01');
+    service.reveal({ x: 8, y: 8 });
+    service.newPreset('Beginner');
+    expect(service.newDaily('2026-03-01')).toBeFalse();
+    expect(service.snapshot.difficulty).toBe('Beginner');
+  });
+
+  it('tracks 3BV from mine placement and counts clicks, wasted ones included', () => {
+    service.newPreset('Beginner', { seed: 3 });
+    expect(service.snapshot.bbbv).toBeUndefined();
+    service.reveal({ x: 4, y: 4 });
+    const s = service.snapshot;
+    expect(s.bbbv).toBe(threeBV(s.board));
+    expect(s.solvedBbbv).toBe(solvedThreeBV(s.board));
+    expect(s.solvedBbbv).toBeGreaterThan(0);
+
+    const hidden = toTiles(s.board).flat().find(t => !t.isRevealed)!;
+    service.reveal({ x: 4, y: 4 });
+    service.toggleFlag(hidden);
+    service.reveal(hidden);
+    service.toggleFlag({ x: 4, y: 4 });
+    service.chord({ x: 4, y: 4 });
+    expect(service.snapshot.clicks).toEqual({ left: 3, right: 2, chord: 1, wasted: 4 });
+
+    const metrics = gameMetrics(service.snapshot)!;
+    expect(metrics.clicks).toBe(6);
+    expect(metrics.ioe).toBe(service.snapshot.solvedBbbv / 6);
+  });
+
+  it('a lost game keeps the 3BV it cleared', () => {
+    service.newPreset('Beginner', { seed: 3 });
+    service.reveal({ x: 4, y: 4 });
+    const solved = service.snapshot.solvedBbbv;
+    service.reveal(toTiles(service.snapshot.board).flat().find(t => t.isMine)!);
+    expect(service.snapshot.status).toBe(GameStatus.Lost);
+    expect(service.snapshot.solvedBbbv).toBe(solved);
+  });
+
+  it('a loss marks the exploded mine and judges the move that caused it', () => {
+    service.newPreset('Beginner', { seed: 3 });
+    service.reveal({ x: 4, y: 4 });
+    const tiles = toTiles(service.snapshot.board).flat();
+    const near = (a: Tile, b: Tile) => a !== b && Math.abs(a.x - b.x) <= 1 && Math.abs(a.y - b.y) <= 1;
+    // A number next to one mine and a hidden safe cell: flagging the safe cell makes the chord open the mine.
+    const hiddenSafe = (t: Tile) => tiles.find(u => near(t, u) && !u.isRevealed && !u.isMine);
+    const n = tiles.find(t => t.isRevealed && t.adjacentMines === 1 && hiddenSafe(t))!;
+    const wrong = hiddenSafe(n)!;
+    const mine = tiles.find(u => near(n, u) && u.isMine)!;
+    service.toggleFlag(wrong);
+    service.chord(n);
+
+    const s = service.snapshot;
+    expect(s.status).toBe(GameStatus.Lost);
+    expect(tileAt(s.board, mine.x, mine.y).isExploded).toBeTrue();
+    expect(toTiles(s.board).flat().filter(t => t.isExploded).length).toBe(1);
+    expect(s.loss!.exploded).toEqual([{ x: mine.x, y: mine.y }]);
+    expect(s.loss!.wrongFlags).toEqual([{ x: wrong.x, y: wrong.y }]);
+    expect(s.loss!.missedMines.length).toBe(s.mines - 1);
+    expect(s.loss).toEqual(jasmine.objectContaining({
+      cause: 'mine', postMortem: jasmine.objectContaining({ move: 'chord', verdict: 'mistake' }),
+    }));
+
+    service.undo();
+    expect(service.snapshot.loss).toBeUndefined();
+  });
+
+  describe('input settings', () => {
+    let settings: SettingsService;
+    beforeEach(() => settings = TestBed.inject(SettingsService));
+
+    /** A revealed number next to exactly one mine, with that mine. */
+    function numberNextToOneMine() {
+      const tiles = toTiles(service.snapshot.board);
+      const n = tiles.flat().find(t => t.isRevealed && t.adjacentMines === 1)!;
+      const mine = tiles.flat().find(t => t.isMine && Math.abs(t.x - n.x) <= 1 && Math.abs(t.y - n.y) <= 1)!;
+      return { n, mine };
+    }
+
+    it('cycles flag, question mark and hidden when question marks are on', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      const cell = toTiles(service.snapshot.board).flat().find(t => !t.isRevealed)!;
+      const at = () => tileAt(service.snapshot.board, cell.x, cell.y);
+
+      service.mark(cell);
+      expect(at().isFlagged).toBeTrue();
+      service.mark(cell);
+      expect(at().isFlagged).toBeFalse();
+
+      settings.update({ questionMarks: true });
+      service.mark(cell);
+      service.mark(cell);
+      expect(at()).toEqual(jasmine.objectContaining({ isFlagged: false, isQuestioned: true }));
+      expect(service.snapshot.flagsPlaced).toBe(0);
+      service.mark(cell);
+      expect(at().isQuestioned).toBeFalse();
+      expect(service.snapshot.moves.map(m => m.kind).slice(-3)).toEqual(['flag', 'question', 'question']);
+    });
+
+    it('opens question-marked cells like any other', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      const safe = toTiles(service.snapshot.board).flat().find(t => !t.isRevealed && !t.isMine)!;
+      service.toggleQuestion(safe);
+      service.reveal(safe);
+      expect(tileAt(service.snapshot.board, safe.x, safe.y)).toEqual(jasmine.objectContaining({ isRevealed: true, isQuestioned: false }));
+    });
+
+    it('never flags in no-flag style', () => {
+      settings.update({ noFlag: true });
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      const cell = toTiles(service.snapshot.board).flat().find(t => !t.isRevealed)!;
+      service.mark(cell);
+      expect(service.snapshot.flagsPlaced).toBe(0);
+      expect(service.snapshot.moves.length).toBe(1);
+      settings.update({ questionMarks: true });
+      service.mark(cell);
+      expect(tileAt(service.snapshot.board, cell.x, cell.y).isQuestioned).toBeTrue();
+    });
+
+    it('chords a clicked or tapped number only when the matching setting is on', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      const { n, mine } = numberNextToOneMine();
+      service.toggleFlag(mine);
+      const before = service.snapshot.board;
+
+      service.activate(n);
+      service.activate(n, 'tap');
+      expect(service.snapshot.board).toBe(before);
+
+      settings.update({ tapChord: true });
+      service.activate(n);
+      expect(service.snapshot.board).toBe(before);
+      service.activate(n, 'tap');
+      expect(service.snapshot.moves[service.snapshot.moves.length - 1].kind).toBe('chord');
+
+      settings.update({ tapChord: false, clickChord: true });
+      service.activate(n);
+      expect(service.snapshot.moves[service.snapshot.moves.length - 1].kind).toBe('chord');
+    });
+  });
+
+  describe('clock', () => {
+    let clock: ManualClock;
+    beforeEach(() => {
+      clock = new ManualClock();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({ providers: [GameService, { provide: ClockService, useValue: clock }] });
+      service = TestBed.inject(GameService);
+    });
+
+    it('counts play time on ticks, stops while paused and covers nothing up after resuming', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      clock.advance(5000);
+      expect(service.snapshot.elapsedMs).toBe(0);
+      service.reveal({ x: 4, y: 4 });
+      clock.advance(1000);
+      expect(service.snapshot.elapsedMs).toBe(1000);
+
+      service.pause();
+      clock.advance(60_000);
+      expect(service.snapshot.elapsedMs).toBe(1000);
+      const hidden = toTiles(service.snapshot.board).flat().find(t => !t.isRevealed)!;
+      service.toggleFlag(hidden);
+      service.useHint();
+      expect(service.snapshot.moves.length).toBe(1);
+
+      service.resume();
+      clock.advance(400);
+      service.toggleFlag(hidden);
+      expect(service.snapshot.moves.at(-1)!.t).toBe(1400);
+    });
+
+    it('loses a time-attack game when the countdown runs out', () => {
+      service.newPreset('Beginner', { seed: 3, timeLimit: { ms: 30_000, bonusPerCellMs: 0 } });
+      service.reveal({ x: 4, y: 4 });
+      clock.advance(29_800);
+      expect(timeLeftMs(service.snapshot)).toBe(200);
+      expect(service.snapshot.status).toBe(GameStatus.Playing);
+
+      clock.advance(200);
+      const s = service.snapshot;
+      expect(s.status).toBe(GameStatus.Lost);
+      expect(s.elapsedMs).toBe(30_000);
+      expect(s.loss).toEqual(jasmine.objectContaining({ cause: 'time', exploded: [] }));
+      expect(toTiles(s.board).flat().filter(t => t.isMine).every(t => t.isRevealed)).toBeTrue();
+      expect(service.canUndo).toBeFalse();
+    });
+
+    it('adds bonus time for every safe cell opened', () => {
+      service.newPreset('Beginner', { seed: 3, timeLimit: { ms: 10_000, bonusPerCellMs: 1000 } });
+      service.reveal({ x: 4, y: 4 });
+      const opened = 81 - 10 - service.snapshot.board.safeLeft;
+      clock.advance(10_000);
+      expect(service.snapshot.status).toBe(GameStatus.Playing);
+      expect(timeLeftMs(service.snapshot)).toBe(opened * 1000);
+      clock.advance(opened * 1000);
+      expect(service.snapshot.status).toBe(GameStatus.Lost);
+    });
+  });
+
+  describe('events', () => {
+    let events: GameEvent[];
+    beforeEach(() => {
+      events = [];
+      service.events$.subscribe(e => events.push(e));
+    });
+    const types = () => events.map(e => e.type);
+
+    it('reports a flood fill and a win in order, after the state they led to', () => {
+      const seen: GameStatus[] = [];
+      service.events$.subscribe(() => seen.push(service.snapshot.status));
+      service.newGame(5, 5, 0, 'Custom');
+      service.reveal({ x: 2, y: 2 });
+
+      expect(types()).toEqual(['game-created', 'game-started', 'tile-revealed', 'flood-filled', 'game-won']);
+      expect(events[3]).toEqual({ type: 'flood-filled', cell: { x: 2, y: 2 }, opened: 25 });
+      expect(seen.slice(1)).toEqual(Array(4).fill(GameStatus.Won));
+    });
+
+    it('reports markers, failed chords and wasted clicks', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      const tiles = toTiles(service.snapshot.board).flat();
+      const n = tiles.find(t => t.isRevealed && t.adjacentMines > 0)!;
+      const hidden = tiles.find(t => !t.isRevealed)!;
+      events = [];
+
+      service.chord(n);
+      service.chord({ x: 4, y: 4 });
+      service.toggleFlag(hidden);
+      service.toggleFlag(hidden);
+      service.reveal({ x: 4, y: 4 });
+
+      expect(events).toEqual([
+        { type: 'chord-failed', cell: { x: n.x, y: n.y }, reason: 'flag-count' },
+        { type: 'wasted-click', click: 'chord' },
+        { type: 'chord-failed', cell: { x: 4, y: 4 }, reason: 'not-a-number' },
+        { type: 'wasted-click', click: 'chord' },
+        { type: 'marker-changed', cell: { x: hidden.x, y: hidden.y }, marker: 'flag' },
+        { type: 'marker-changed', cell: { x: hidden.x, y: hidden.y }, marker: null },
+        { type: 'wasted-click', click: 'left' },
+      ]);
+    });
+
+    it('reports a losing chord as the chord, the mines it hit, then the loss', () => {
+      service.newPreset('Beginner', { seed: 3 });
+      service.reveal({ x: 4, y: 4 });
+      service.useHint();
+      const tiles = toTiles(service.snapshot.board).flat();
+      const near = (a: Tile, b: Tile) => a !== b && Math.abs(a.x - b.x) <= 1 && Math.abs(a.y - b.y) <= 1;
+      const hiddenSafe = (t: Tile) => tiles.find(u => near(t, u) && !u.isRevealed && !u.isMine);
+      const n = tiles.find(t => t.isRevealed && t.adjacentMines === 1 && hiddenSafe(t))!;
+      const mine = tiles.find(u => near(n, u) && u.isMine)!;
+      service.toggleFlag(hiddenSafe(n)!);
+      service.chord(n);
+
+      expect(types()).toEqual([
+        'game-created', 'game-started', 'tile-revealed', 'flood-filled', 'hint-used', 'marker-changed', 'chorded',
+        'mine-hit', 'game-lost',
+      ]);
+      expect(events[7]).toEqual({ type: 'mine-hit', cells: [{ x: mine.x, y: mine.y }] });
+      expect(events[8]).toEqual(jasmine.objectContaining({ type: 'game-lost', loss: service.snapshot.loss! }));
+
+      service.undo();
+      expect(types().slice(-1)).toEqual(['undone']);
+    });
+
+    it('hands every event to registered plugins, before events$, and survives one that throws', () => {
+      const calls: string[] = [];
+      const broken: GamePlugin = { name: 'broken', onEvent: () => { throw new Error('boom'); } };
+      const logger: GamePlugin = { name: 'logger', onEvent: (e, s) => calls.push(`${e.type}:${s.status}`) };
+      spyOn(console, 'error');
+      service.register(broken);
+      const detach = service.register(logger);
+      service.events$.subscribe(e => calls.push(`events$:${e.type}`));
+
+      service.newGame(2, 2, 0, 'Custom');
+      expect(calls).toEqual(['game-created:ready', 'events$:game-created']);
+      expect(console.error).toHaveBeenCalledTimes(1);
+
+      detach();
+      service.reveal({ x: 0, y: 0 });
+      expect(calls.filter(c => !c.startsWith('events$')).length).toBe(1);
+      expect(service.snapshot.status).toBe(GameStatus.Won);
+    });
+
+    it('attaches provided plugins to the app game only, not to private games', () => {
+      const seen: string[] = [];
+      const plugin: GamePlugin = { name: 'spy', onEvent: e => seen.push(e.type) };
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({ providers: [GameService, provideGamePlugin(() => plugin)] });
+      TestBed.inject(GameService).newGame(5, 5, 0, 'Custom');
+      expect(seen).toEqual(['game-created']);
+
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [GameService, provideGamePlugin(() => plugin), { provide: GAME_PERSISTENCE, useValue: false }],
+      });
+      TestBed.inject(GameService).newGame(5, 5, 0, 'Custom');
+      expect(seen.length).toBe(1);
+    });
+  });
 });
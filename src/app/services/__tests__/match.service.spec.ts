@@ -0,0 +1,165 @@
+import { Injector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { MatchService, createMatchSetup } from '../match.service';
+import { BroadcastChannelTransport, MATCH_TRANSPORT, MatchTransport, createLoopbackPair } from '../match-transport';
+import { GameStatus } from '../../models/game-state';
+import { MINE, REVEALED, toTiles } from '../../models/board';
+import { MatchMessage, MatchSetup } from '../../models/match';
+
+/** Let queued transport messages arrive. */
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+describe('MatchService', () => {
+  let injector: Injector;
+
+  beforeEach(() => {
+    localStorage.clear();
+    injector = TestBed.inject(Injector);
+  });
+
+  function matchOn(transport: MatchTransport): MatchService {
+    return Injector.create({
+      providers: [MatchService, { provide: MATCH_TRANSPORT, useValue: () => transport }],
+      parent: injector,
+    }).get(MatchService);
+  }
+
+  function setup(mode: 'race' | 'flags', seed = 7): MatchSetup {
+    return { ...createMatchSetup(mode, 9, 9, 10), seed };
+  }
+
+  describe('split screen race', () => {
+    it('gives both players the same board and lets the first to clear win', () => {
+      const match = TestBed.runInInjectionContext(() => new MatchService());
+      match.startLocal(setup('race'));
+      expect(match.engine(0)).not.toBe(match.engine(1));
+      expect(match.engine(0).snapshot.board).toEqual(match.engine(1).snapshot.board);
+      expect(match.canAct(0) && match.canAct(1)).toBeTrue();
+
+      for (const t of toTiles(match.engine(1).snapshot.board).flat()) if (!t.isMine) match.engine(1).reveal(t);
+      const m = match.snapshot;
+      expect(m.phase).toBe('over');
+      expect(m.result?.winner).toBe(1);
+      expect(m.players[1].score).toBe(71);
+      expect(match.canAct(0)).toBeFalse();
+      match.leave();
+      expect(match.snapshot.phase).toBe('idle');
+    });
+
+    it('knocks out a player who hits a mine', () => {
+      const match = TestBed.runInInjectionContext(() => new MatchService());
+      match.startLocal(setup('race'));
+      match.engine(0).reveal(match.snapshot.setup!.startCell);
+      match.engine(0).reveal(toTiles(match.engine(0).snapshot.board).flat().find(t => t.isMine)!);
+      expect(match.snapshot.result).toEqual(jasmine.objectContaining({ winner: 1 }));
+      expect(match.snapshot.players[0].status).toBe(GameStatus.Lost);
+      match.leave();
+    });
+  });
+
+  describe('split screen Flags', () => {
+    it('shares one board, scores found mines and passes the turn on a miss', () => {
+      const match = TestBed.runInInjectionContext(() => new MatchService());
+      match.startLocal(setup('flags'));
+      expect(match.engine(0)).toBe(match.engine(1));
+      expect(match.canAct(0)).toBeTrue();
+      expect(match.canAct(1)).toBeFalse();
+
+      match.engine(0).reveal({ x: 4, y: 4 });
+      expect(match.snapshot.turn).toBe(1);
+
+      const mine = toTiles(match.engine(1).snapshot.board).flat().find(t => t.isMine)!;
+      match.engine(1).reveal(mine);
+      const m = match.snapshot;
+      expect(m.players[1].score).toBe(1);
+      expect(m.turn).toBe(1);
+      expect(m.phase).toBe('playing');
+      expect(match.engine(1).snapshot.board.cells[mine.y * 9 + mine.x] & (MINE | REVEALED)).toBe(MINE | REVEALED);
+      match.leave();
+    });
+
+    it('ends once a player holds a majority of the mines', () => {
+      const match = TestBed.runInInjectionContext(() => new MatchService());
+      match.startLocal(setup('flags'));
+      match.engine(0).reveal({ x: 4, y: 4 });
+      const engine = match.engine(1);
+      for (const t of toTiles(engine.snapshot.board).flat().filter(t => t.isMine).slice(0, 6)) engine.reveal(t);
+      expect(match.snapshot.phase).toBe('over');
+      expect(match.snapshot.result?.winner).toBe(1);
+      match.leave();
+    });
+  });
+
+  describe('two instances over a transport', () => {
+    it('starts when the guest joins and mirrors every move', async () => {
+      const [hostEnd, guestEnd] = createLoopbackPair();
+      const host = matchOn(hostEnd), guest = matchOn(guestEnd);
+      const room = host.host(setup('race'));
+      expect(host.snapshot.phase).toBe('waiting');
+      guest.join(room, 'Guest');
+      await flush();
+
+      expect(guest.snapshot.phase).toBe('playing');
+      expect(guest.snapshot.setup).toEqual(host.snapshot.setup);
+      expect(host.snapshot.players[1].name).toBe('Guest');
+      expect(host.canAct(0) && !host.canAct(1)).toBeTrue();
+      expect(guest.canAct(1) && !guest.canAct(0)).toBeTrue();
+
+      host.engine(0).reveal(host.snapshot.setup!.startCell);
+      await flush();
+      expect(guest.engine(0).snapshot.board).toEqual(host.engine(0).snapshot.board);
+      expect(guest.engine(1).snapshot.status).toBe(GameStatus.Ready);
+
+      const mine = toTiles(guest.engine(1).snapshot.board).flat().find(t => t.isMine)!;
+      guest.engine(1).reveal(mine);
+      await flush();
+      expect(host.snapshot.result?.winner).toBe(0);
+      expect(guest.snapshot.result?.winner).toBe(0);
+
+      guest.leave();
+      await flush();
+      expect(host.snapshot.opponentLeft).toBeTrue();
+      host.leave();
+    });
+
+    it('ignores moves for seats the sender does not play or out of turn', async () => {
+      const [hostEnd, guestEnd] = createLoopbackPair();
+      const host = matchOn(hostEnd);
+      host.host(setup('flags'));
+      guestEnd.send({ type: 'join', name: 'Guest' });
+      await flush();
+      expect(host.snapshot.phase).toBe('playing');
+
+      guestEnd.send({ type: 'move', seat: 0, move: { kind: 'reveal', x: 4, y: 4, t: 0 } });
+      guestEnd.send({ type: 'move', seat: 1, move: { kind: 'reveal', x: 4, y: 4, t: 0 } });
+      await flush();
+      expect(host.engine(0).snapshot.moves.length).toBe(0);
+      host.leave();
+    });
+
+    it('rejects a start message describing an unplayable board', async () => {
+      const [hostEnd, guestEnd] = createLoopbackPair();
+      const guest = matchOn(guestEnd);
+      guest.join('room');
+      hostEnd.send({ type: 'start', setup: { ...setup('race'), rows: 0 } });
+      await flush();
+      expect(guest.snapshot.phase).toBe('waiting');
+      guest.leave();
+    });
+  });
+
+  it('carries messages between two BroadcastChannel ends', async () => {
+    // Node's BroadcastChannel delivers through an internal MessagePort that zone.js cannot patch.
+    if (typeof BroadcastChannel === 'undefined' || 'process' in globalThis) {
+      return pending('needs a browser BroadcastChannel');
+    }
+    const a = new BroadcastChannelTransport('ms-match-spec'), b = new BroadcastChannelTransport('ms-match-spec');
+    const received: MatchMessage[] = [];
+    b.messages$.subscribe(msg => received.push(msg));
+    a.send({ type: 'join', name: 'Tab A' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual([{ type: 'join', name: 'Tab A' }]);
+    a.close();
+    b.close();
+  });
+});
@@ -0,0 +1,38 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { ProbabilityService } from '../probability.service';
+import { Tile } from '../../models/tile';
+import { fromTiles } from '../../models/board';
+
+function tile(x: number, y: number, isMine: boolean, isRevealed = false, adjacentMines = 0): Tile {
+  return { x, y, isMine, isRevealed, isFlagged: false, isQuestioned: false, isExploded: false, adjacentMines };
+}
+
+describe('ProbabilityService', () => {
+  let service: ProbabilityService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ProbabilityService);
+  });
+
+  it('weighs local constraints against the global mine count', async () => {
+    // A revealed 1 touches a and b; c is unconstrained. With 1 mine in total it must be a or b.
+    const board = [[tile(0, 0, false, true, 1), tile(1, 0, true)], [tile(0, 1, false), tile(1, 1, false)]];
+    const oneMine = await firstValueFrom(service.compute(fromTiles(board), 1, 'square'));
+    expect(oneMine[0][0]).toBeNull();
+    for (const p of [oneMine[0][1], oneMine[1][0], oneMine[1][1]]) expect(p).toBeCloseTo(1 / 3, 6);
+
+    const far = [[tile(0, 0, false, true, 1), tile(1, 0, true), tile(2, 0, false)]];
+    const p = await firstValueFrom(service.compute(fromTiles(far), 1, 'square'));
+    expect(p[0][1]).toBe(1);
+    expect(p[0][2]).toBe(0);
+  });
+
+  it('never lets hidden mines influence the answer', async () => {
+    const a = [[tile(0, 0, true), tile(1, 0, false)], [tile(0, 1, false), tile(1, 1, false)]];
+    const b = [[tile(0, 0, false), tile(1, 0, false)], [tile(0, 1, false), tile(1, 1, true)]];
+    expect(await firstValueFrom(service.compute(fromTiles(a), 1, 'square')))
+      .toEqual(await firstValueFrom(service.compute(fromTiles(b), 1, 'square')));
+  });
+});
@@ -0,0 +1,123 @@
+import { TestBed } from '@angular/core/testing';
+import { ProfileImportError, ProfileService, RESET_UNDO_MS } from '../profile.service';
+import { StatsService } from '../stats.service';
+import { SettingsService } from '../settings.service';
+import { DailyService } from '../daily.service';
+import { CustomPresetsService } from '../custom-presets.service';
+import { AchievementService } from '../achievement.service';
+import { GameRecord } from '../../models/stats';
+import { DailyResult } from '../../models/daily';
+import { PRESETS } from '../../models/presets';
+
+describe('ProfileService', () => {
+  let profiles: ProfileService;
+  let stats: StatsService;
+  let settings: SettingsService;
+  let daily: DailyService;
+  let presets: CustomPresetsService;
+
+  function setUp() {
+    TestBed.resetTestingModule();
+    profiles = TestBed.inject(ProfileService);
+    stats = TestBed.inject(StatsService);
+    settings = TestBed.inject(SettingsService);
+    daily = TestBed.inject(DailyService);
+    presets = TestBed.inject(CustomPresetsService);
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    setUp();
+  });
+
+  const game = (date: string, timeMs: number): GameRecord => ({
+    date, difficulty: 'Beginner', rows: 9, cols: 9, mines: 10, topology: 'square', noGuess: false, won: true, timeMs,
+    clicks: 20, hintsUsed: 0, bbbv: 15, wastedClicks: 0, solvedBbbv: 15, ranked: true,
+  });
+  const dailyResult = (date: string, won: boolean): DailyResult => ({
+    date, won, abandoned: false, timeMs: 60_000, cleared: won ? 1 : .5, bbbv: 40, hintsUsed: 0, practice: false,
+  });
+
+  it('round-trips the whole profile through a file into a fresh browser', () => {
+    stats.restore([game('2026-01-05T10:00:00.000Z', 12_300)]);
+    daily.restore([dailyResult('2026-01-05', true)]);
+    presets.save({ name: 'Wide', rows: 10, cols: 40, mines: 60 });
+    settings.update({ theme: 'high-contrast', questionMarks: true });
+    const unlocked = '2026-01-05T10:00:00.000Z';
+    TestBed.inject(AchievementService).restore({ progress: { 'first-win': 1 }, unlocked: { 'first-win': unlocked } });
+    const file = profiles.serialize();
+
+    localStorage.clear();
+    setUp();
+    const report = profiles.import(profiles.parse(file), 'replace');
+    expect(report.added.stats).toBe(1);
+    expect(stats.bestTimeSec({ ...PRESETS.Beginner, noGuess: false })).toBe(12.3);
+    expect(daily.resultFor('2026-01-05')?.won).toBeTrue();
+    expect(presets.list.map(p => p.name)).toEqual(['Wide']);
+    expect(settings.snapshot).toEqual(jasmine.objectContaining({ theme: 'high-contrast', questionMarks: true }));
+    expect(TestBed.inject(AchievementService).export().unlocked['first-win']).toBe(unlocked);
+  });
+
+  it('merges new entries, skips duplicates and reports conflicts, keeping the local side', () => {
+    stats.restore([game('2026-01-05T10:00:00.000Z', 12_300)]);
+    daily.restore([dailyResult('2026-01-05', true)]);
+    presets.save({ name: 'Big', rows: 20, cols: 20, mines: 50 });
+    const incoming = {
+      ...profiles.snapshot(),
+      settings: { ...settings.snapshot, theme: 'dark' as const },
+      stats: [game('2026-01-05T10:00:00.000Z', 12_300), game('2026-01-04T09:00:00.000Z', 20_000)],
+      daily: [dailyResult('2026-01-05', false), dailyResult('2026-01-06', true)],
+      customPresets: [{ name: 'Big', rows: 30, cols: 30, mines: 100 }, { name: 'Tiny', rows: 5, cols: 5, mines: 3 }],
+    };
+
+    const report = profiles.import(incoming, 'merge');
+    expect(report.added).toEqual({ settings: 0, stats: 1, daily: 1, customPresets: 1, achievements: 0 });
+    expect(report.duplicates).toBe(1);
+    expect(report.conflicts.map(c => `${c.section}:${c.key}`))
+      .toEqual(['daily:2026-01-05', 'customPresets:Big', 'settings:theme']);
+    expect(stats.records.map(g => g.timeMs)).toEqual([20_000, 12_300]);
+    expect(daily.resultFor('2026-01-05')?.won).toBeTrue();
+    expect(presets.list.find(p => p.name === 'Big')?.rows).toBe(20);
+    expect(settings.snapshot.theme).toBe('system');
+  });
+
+  it('rejects files that are not valid profiles, naming the problems', () => {
+    const problems = (json: string) => {
+      try {
+        profiles.parse(json);
+      } catch (e) {
+        expect(e).toBeInstanceOf(ProfileImportError);
+        return (e as ProfileImportError).problems;
+      }
+      return [];
+    };
+    expect(problems('{oops')).toEqual(['The file is not valid JSON.']);
+    expect(problems('{"version":1}')).toEqual(['This is not a Minesweeper profile file.']);
+    const future = JSON.stringify({ ...profiles.snapshot(), version: 9 });
+    expect(problems(future)).toEqual(['Unsupported profile version: 9.']);
+
+    const broken = { ...profiles.snapshot(), stats: [game('not a date', 1), { won: 'yes' }], daily: 'none' };
+    expect(problems(JSON.stringify(broken))).toEqual([
+      'stats entry 1 is invalid.', 'stats entry 2 is invalid.', '"daily" must be a list.',
+    ]);
+  });
+
+  it('undoes a reset only within its window', () => {
+    let now = Date.now();
+    spyOn(Date, 'now').and.callFake(() => now);
+    stats.restore([game('2026-01-05T10:00:00.000Z', 12_300)]);
+    settings.update({ markers: true });
+    profiles.reset(['stats']);
+    expect(stats.records.length).toBe(0);
+    expect(settings.snapshot.markers).toBeTrue();
+    expect(profiles.undoReset()).toBeTrue();
+    expect(stats.records.length).toBe(1);
+
+    profiles.reset();
+    expect(settings.snapshot.markers).toBeFalse();
+    now += RESET_UNDO_MS + 1;
+    expect(profiles.canUndoReset).toBeFalse();
+    expect(profiles.undoReset()).toBeFalse();
+    expect(stats.records.length).toBe(0);
+  });
+});
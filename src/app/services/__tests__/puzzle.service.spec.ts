@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+import { PuzzleService } from '../puzzle.service';
+import { GameService } from '../game.service';
+import { StatsService } from '../stats.service';
+import { GameStatus } from '../../models/game-state';
+import { Puzzle } from '../../models/puzzle';
+import { decodePuzzle, encodePuzzle, parsePuzzleFile, puzzleFile, puzzleId } from '../../utils/puzzle-code';
+
+describe('PuzzleService', () => {
+  // Mines at (0,0) and (1,1); the start region in the far corner leaves (1,0) and (0,1) to open.
+  const corner: Puzzle = { name: 'Corner', rows: 4, cols: 4, topology: 'square', mines: [0, 5], revealed: [15] };
+  let game: GameService;
+  let puzzles: PuzzleService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    game = TestBed.inject(GameService);
+    puzzles = TestBed.inject(PuzzleService);
+  });
+
+  it('round-trips puzzle codes and files, and rejects malformed ones', () => {
+    const named = { ...corner, name: 'Ünïcode. 50% off', topology: 'hex' as const };
+    expect(decodePuzzle(encodePuzzle(named))).toEqual(named);
+    expect(parsePuzzleFile(JSON.stringify(puzzleFile(named)))).toEqual(named);
+    expect(parsePuzzleFile(encodePuzzle(corner))).toEqual(corner);
+    // The id names the layout, whatever the puzzle is called.
+    expect(puzzleId(named)).not.toBe(puzzleId(corner));
+    expect(puzzleId({ ...corner, name: 'Other' })).toBe(puzzleId(corner));
+
+    const code = encodePuzzle(corner);
+    expect(code).toBe('p1.4.4.s.BQAAAC.Corner');
+    expect(decodePuzzle(code.toUpperCase())).toBeNull();
+    expect(decodePuzzle(code.replace('.s.', '.x.'))).toBeNull();
+    expect(decodePuzzle(code.replace('.4.4.', '.4.5.'))).toBeNull();
+    expect(decodePuzzle(code.replace('.BQAAAC', '._QAAAC'))).toBeNull();
+    expect(parsePuzzleFile('{"format":"something-else"}')).toBeNull();
+  });
+
+  it('saves puzzles by name and keeps them across reloads', () => {
+    expect(puzzles.save(corner)).toBeTrue();
+    expect(puzzles.save({ ...corner, name: '  ' })).toBeFalse();
+    expect(puzzles.save({ ...corner, mines: [] })).toBeFalse();
+    puzzles.save({ ...corner, mines: [0] });
+    expect(new PuzzleService().list).toEqual([{ ...corner, mines: [0] }]);
+    puzzles.remove('Corner');
+    expect(new PuzzleService().list).toEqual([]);
+  });
+
+  it('plays a puzzle code and keeps its solve times apart from the difficulty statistics', () => {
+    const stats = TestBed.inject(StatsService);
+    const recorded = spyOn(stats, 'record');
+    expect(game.loadGameCode(encodePuzzle(corner))).toBeTrue();
+    expect(game.snapshot.puzzle).toEqual(corner);
+    expect(game.exportGameCode()).toBe(encodePuzzle(corner));
+
+    spyOn(Date, 'now').and.returnValues(1000, 4500);
+    game.reveal({ x: 1, y: 0 });
+    game.reveal({ x: 0, y: 1 });
+    expect(game.snapshot.status).toBe(GameStatus.Won);
+    expect(recorded).not.toHaveBeenCalled();
+    expect(puzzles.timesMs({ ...corner, name: 'Renamed' })).toEqual([3500]);
+    expect(puzzles.bestTimeMs(corner)).toBe(3500);
+    // Hand-placed mines have no seed and first click, so there is no replay to offer.
+    expect(game.canReplay).toBeFalse();
+    expect(game.exportReplay()).toBeNull();
+
+    game.restart();
+    expect(game.snapshot.status).toBe(GameStatus.Ready);
+    expect(game.snapshot.puzzle).toEqual(corner);
+    expect(game.snapshot.board.safeLeft).toBe(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { ClockService, ManualClock } from '../clock.service';
+import { GameService } from '../game.service';
+import { ReplayService } from '../replay.service';
+import { GameStatus } from '../../models/game-state';
+import { QUESTION, REVEALED, toTiles } from '../../models/board';
+
+describe('ReplayService', () => {
+  let game: GameService;
+  let replays: ReplayService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [GameService, ReplayService] });
+    game = TestBed.inject(GameService);
+    replays = TestBed.inject(ReplayService);
+  });
+
+  /** Reveal safe cells in reading order until the game is won. */
+  function playToWin() {
+    game.newGame(9, 9, 10, 'Beginner', { seed: 99 });
+    game.reveal({ x: 4, y: 4 });
+    game.toggleFlag(toTiles(game.snapshot.board).flat().find(t => t.isMine && !t.isRevealed)!);
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+  }
+
+  it('records every action with timestamps relative to the start', () => {
+    playToWin();
+    const s = game.snapshot;
+    expect(s.status).toBe(GameStatus.Won);
+    expect(s.moves[0]).toEqual({ kind: 'reveal', x: 4, y: 4, t: 0 });
+    expect(s.moves[1].kind).toBe('flag');
+    expect(s.moves.every(m => m.t >= 0)).toBeTrue();
+  });
+
+  it('round-trips through JSON and rebuilds the final board', () => {
+    playToWin();
+    const replay = replays.parse(replays.serialize(game.exportReplay()!));
+    const frames = replays.frames(replay);
+    expect(frames.length).toBe(replay.moves.length + 1);
+    expect(frames[0].board.cells.some(c => c & REVEALED)).toBeFalse();
+    const last = frames[frames.length - 1];
+    expect(last.status).toBe(GameStatus.Won);
+    expect(last.board).toEqual(game.snapshot.board);
+  });
+
+  it('imports its own replays with ? marks', () => {
+    game.newGame(9, 9, 10, 'Beginner', { seed: 5 });
+    game.reveal({ x: 4, y: 4 });
+    const hidden = toTiles(game.snapshot.board).flat().find(t => !t.isRevealed)!;
+    game.toggleQuestion(hidden);
+
+    const replay = replays.parse(replays.serialize(game.exportReplay()!));
+    expect(replay.moves.at(-1)).toEqual(jasmine.objectContaining({ kind: 'question', x: hidden.x, y: hidden.y }));
+    const last = replays.frames(replay).at(-1)!;
+    expect(last.board.cells[hidden.y * 9 + hidden.x] & QUESTION).toBe(QUESTION);
+    expect(last.board).toEqual(game.snapshot.board);
+  });
+
+  it('replays undo steps', () => {
+    game.newGame(9, 9, 10, 'Beginner', { seed: 5 });
+    game.reveal({ x: 4, y: 4 });
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => t.isMine)!);
+    expect(game.snapshot.status).toBe(GameStatus.Lost);
+    game.undo();
+
+    const frames = replays.frames(game.exportReplay()!);
+    expect(frames.map(f => f.status)).toEqual([GameStatus.Ready, GameStatus.Playing, GameStatus.Lost, GameStatus.Playing]);
+    expect(frames[3].practice).toBeTrue();
+  });
+
+  it('rejects malformed or tampered replays', () => {
+    playToWin();
+    const replay = game.exportReplay()!;
+    expect(() => replays.parse('{')).toThrowError(/valid JSON/);
+    expect(() => replays.parse(JSON.stringify({ ...replay, version: 3 }))).toThrowError(/version/);
+    expect(() => replays.parse(JSON.stringify({ ...replay, timeLimit: { ms: -1 } }))).toThrowError(/time limit/);
+    expect(() => replays.parse(JSON.stringify({ ...replay, moves: [{ kind: 'dance', t: 0 }] }))).toThrowError(/Move 1/);
+    const shifted = { ...replay, mineLayout: replay.mineLayout.map(i => (i + 1) % 81) };
+    expect(() => replays.frames(replays.parse(JSON.stringify(shifted)))).toThrowError(/does not match its seed/);
+  });
+
+  it('replays a time-attack game through to the time-out, and still reads version 1 replays', () => {
+    const clock = new ManualClock();
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [GameService, ReplayService, { provide: ClockService, useValue: clock }],
+    });
+    game = TestBed.inject(GameService);
+    replays = TestBed.inject(ReplayService);
+
+    const timeLimit = { ms: 30_000, bonusPerCellMs: 500 };
+    game.newPreset('Beginner', { seed: 3, timeLimit });
+    game.reveal({ x: 4, y: 4 });
+    clock.advance(60_000);
+    expect(game.snapshot.loss?.cause).toBe('time');
+
+    const replay = replays.parse(replays.serialize(game.exportReplay()!));
+    expect(replay.version).toBe(2);
+    expect(replay.timeLimit).toEqual(timeLimit);
+    const frames = replays.frames(replay);
+    expect(frames.length).toBe(replay.moves.length + 2);
+    const last = frames.at(-1)!;
+    expect(last.status).toBe(GameStatus.Lost);
+    expect(last.loss?.cause).toBe('time');
+    expect(last.board).toEqual(game.snapshot.board);
+
+    const { timeLimit: _, ...countUp } = replay;
+    const old = replays.parse(JSON.stringify({ ...countUp, version: 1, status: GameStatus.Playing }));
+    expect(old.timeLimit).toBeUndefined();
+    expect(replays.frames(old).at(-1)!.status).toBe(GameStatus.Playing);
+  });
+});
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import { GameService } from '../game.service';
+import { SessionService } from '../session.service';
+import { ClockService, ManualClock } from '../clock.service';
+import { GameStatus } from '../../models/game-state';
+import { toTiles } from '../../models/board';
+
+const KEY = 'ms-active-game';
+
+describe('SessionService', () => {
+  let game: GameService;
+  let session: SessionService;
+  let clock: ManualClock;
+  const advance = (ms: number) => clock.advance(ms);
+
+  /** A fresh app start: new service instances reading whatever is in localStorage. */
+  function reload() {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [{ provide: ClockService, useValue: clock }] });
+    game = TestBed.inject(GameService);
+    session = TestBed.inject(SessionService);
+    session.start();
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    clock = new ManualClock();
+    reload();
+  });
+
+  afterEach(() => TestBed.resetTestingModule());
+
+  function startExpert() {
+    game.newGame(16, 30, 99, 'Expert', { seed: 42 });
+    game.reveal({ x: 10, y: 8 });
+    const flag = toTiles(game.snapshot.board).flat().find(t => !t.isRevealed)!;
+    game.toggleFlag(flag);
+  }
+
+  it('restores board, flags, hints and elapsed time after a reload', () => {
+    startExpert();
+    game.useHint();
+    advance(5000);
+    game.pause();
+    const before = game.snapshot;
+
+    reload();
+    const after = game.snapshot;
+    expect(after.status).toBe(GameStatus.Playing);
+    expect(toTiles(after.board)).toEqual(toTiles(before.board));
+    expect(after.board.safeLeft).toBe(before.board.safeLeft);
+    expect(after.flagsPlaced).toBe(1);
+    expect(after.hintsLeft).toBe(2);
+    expect(after.elapsedMs).toBe(5000);
+    expect(after.moves).toEqual(before.moves);
+    expect(after.seed).toBe(before.seed);
+  });
+
+  it('does not count time while the tab was closed', () => {
+    startExpert();
+    advance(3000);
+    window.dispatchEvent(new Event('pagehide'));
+    advance(24 * 3600_000); // a day later
+
+    reload();
+    expect(game.snapshot.elapsedMs).toBe(3000);
+    advance(1000);
+    game.pause();
+    expect(game.snapshot.elapsedMs).toBe(4000);
+  });
+
+  it('pauses the clock while the page is hidden', () => {
+    startExpert();
+    advance(2000);
+    Object.defineProperty(document, 'hidden', { value: true, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(game.snapshot.paused).toBeTrue();
+    advance(60_000);
+    expect(game.snapshot.elapsedMs).toBe(2000);
+    Object.defineProperty(document, 'hidden', { value: false, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(game.snapshot.paused).toBeFalse();
+    advance(1000);
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => !t.isRevealed && !t.isFlagged && !t.isMine)!);
+    expect(game.snapshot.moves.at(-1)!.t).toBe(3000);
+  });
+
+  it('leaves a pause the player chose in place when the page comes back, and saves the time limit', () => {
+    const timeLimit = { ms: 60_000, bonusPerCellMs: 500 };
+    game.newGame(16, 30, 99, 'Expert', { seed: 42, timeLimit });
+    game.reveal({ x: 10, y: 8 });
+    advance(2000);
+    game.pause();
+    Object.defineProperty(document, 'hidden', { value: true, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    Object.defineProperty(document, 'hidden', { value: false, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(game.snapshot.paused).toBeTrue();
+
+    reload();
+    expect(game.snapshot.timeLimit).toEqual(timeLimit);
+    expect(game.snapshot.elapsedMs).toBe(2000);
+  });
+
+  it('clears the save once the game ends or a new one starts', () => {
+    startExpert();
+    expect(localStorage.getItem(KEY)).not.toBeNull();
+    game.newPreset('Beginner');
+    expect(localStorage.getItem(KEY)).toBeNull();
+    reload();
+    expect(game.snapshot.status).toBe(GameStatus.Ready);
+  });
+
+  it('discards corrupt or tampered saves', () => {
+    startExpert();
+    const stored = JSON.parse(localStorage.getItem(KEY)!);
+
+    for (const bad of ['{not json', JSON.stringify({ ...stored, version: 99 }),
+      JSON.stringify({ ...stored, cells: stored.cells.replace('1', '0') }), // mine count no longer matches
+      JSON.stringify({ ...stored, moves: [{ kind: 'explode', t: 0 }] })]) {
+      localStorage.setItem(KEY, bad);
+      reload();
+      expect(game.snapshot.status).toBe(GameStatus.Ready);
+      expect(localStorage.getItem(KEY)).toBeNull();
+    }
+  });
+});
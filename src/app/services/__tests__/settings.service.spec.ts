@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { SettingsService, keyLabel } from '../settings.service';
+import { DEFAULT_SETTINGS } from '../../models/settings';
+
+describe('SettingsService', () => {
+  beforeEach(() => localStorage.clear());
+
+  const key = (k: string, init: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key: k, ...init });
+
+  it('starts from the defaults and persists changes', () => {
+    const settings = TestBed.inject(SettingsService);
+    expect(settings.snapshot).toEqual(DEFAULT_SETTINGS);
+    settings.update({ longPressMs: 600, questionMarks: true });
+    const reloaded = new SettingsService();
+    expect(reloaded.snapshot.longPressMs).toBe(600);
+    expect(reloaded.snapshot.questionMarks).toBeTrue();
+  });
+
+  it('clamps the long-press duration and drops invalid stored values', () => {
+    const settings = TestBed.inject(SettingsService);
+    settings.update({ longPressMs: 5 });
+    expect(settings.snapshot.longPressMs).toBe(150);
+    localStorage.setItem('ms-settings', JSON.stringify({
+      version: 1, longPressMs: 'slow', noFlag: true, tapChord: 'yes', keys: { reveal: ['arrowup'], flag: ['g'] },
+      theme: 'neon', motion: 'reduced',
+    }));
+    const loaded = new SettingsService().snapshot;
+    expect(loaded.longPressMs).toBe(DEFAULT_SETTINGS.longPressMs);
+    expect(loaded.noFlag).toBeTrue();
+    expect(loaded.tapChord).toBeFalse();
+    expect(loaded.keys).toEqual({ ...DEFAULT_SETTINGS.keys, flag: ['g'] });
+    expect(loaded.theme).toBe('system');
+    expect(loaded.motion).toBe('reduced');
+  });
+
+  it('maps keys to actions and moves a rebound key to its new action', () => {
+    const settings = TestBed.inject(SettingsService);
+    expect(settings.keyAction(key('F'))).toBe('flag');
+    expect(settings.keyAction(key(' '))).toBe('reveal');
+    expect(settings.keyAction(key('f', { ctrlKey: true }))).toBeNull();
+
+    expect(settings.bindKey('chord', 'F')).toBeTrue();
+    expect(settings.keyAction(key('f'))).toBe('chord');
+    expect(settings.snapshot.keys.flag).toEqual([]);
+    expect(settings.bindKey('flag', 'ArrowUp')).toBeFalse();
+    settings.unbindKey('reveal', 'Enter');
+    expect(settings.keyAction(key('Enter'))).toBeNull();
+
+    settings.reset();
+    expect(settings.snapshot).toEqual(DEFAULT_SETTINGS);
+    expect(keyLabel(' ')).toBe('Space');
+    expect(keyLabel('enter')).toBe('Enter');
+  });
+});
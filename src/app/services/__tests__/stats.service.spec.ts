@@ -0,0 +1,126 @@
+import { TestBed } from '@angular/core/testing';
+import { StatsService } from '../stats.service';
+import { GameService } from '../game.service';
+import { GameStatus } from '../../models/game-state';
+import { PRESETS } from '../../models/presets';
+import { Board, REVEALED, fromTiles, toTiles } from '../../models/board';
+import { solvedThreeBV, threeBV } from '../../utils/metrics';
+
+describe('StatsService', () => {
+  beforeEach(() => localStorage.clear());
+
+  function create() {
+    TestBed.configureTestingModule({ providers: [StatsService, GameService] });
+    return { stats: TestBed.inject(StatsService), game: TestBed.inject(GameService) };
+  }
+
+  function win(game: GameService, seed: number) {
+    game.newGame(9, 9, 10, 'Beginner', { seed });
+    game.reveal({ x: 4, y: 4 });
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+  }
+
+  function lose(game: GameService, seed: number) {
+    game.newGame(9, 9, 10, 'Beginner', { seed });
+    game.reveal({ x: 4, y: 4 });
+    game.reveal(toTiles(game.snapshot.board).flat().find(t => t.isMine)!);
+  }
+
+  it('migrates the old ms-best-times storage once', () => {
+    localStorage.setItem('ms-best-times', JSON.stringify({ Beginner: 12.5, 'Expert:no-guess': 140, bogus: 'x' }));
+    const { stats } = create();
+    expect(stats.bestTimeSec({ ...PRESETS.Beginner, noGuess: false })).toBe(12.5);
+    expect(stats.bestTimeSec({ ...PRESETS.Expert, noGuess: true })).toBe(140);
+    expect(stats.records.length).toBe(2);
+    expect(localStorage.getItem('ms-best-times')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('ms-stats')!).version).toBe(1);
+  });
+
+  it('discards unreadable storage instead of failing', () => {
+    localStorage.setItem('ms-stats', '{not json');
+    expect(create().stats.records).toEqual([]);
+  });
+
+  it('records every finished game with its metrics', () => {
+    const { stats, game } = create();
+    win(game, 1);
+    lose(game, 2);
+    const [won, lost] = stats.records;
+    expect(won.won).toBeTrue();
+    expect(won.bbbv).toBeGreaterThan(0);
+    expect(won.clicks).toBeGreaterThan(0);
+    expect(won.hintsUsed).toBe(0);
+    expect(won.solvedBbbv).toBe(won.bbbv!);
+    // Revealing every safe cell in turn clicks on cells the first opening already cleared.
+    expect(won.wastedClicks).toBeGreaterThan(0);
+    expect(lost.won).toBeFalse();
+    expect(lost.solvedBbbv).toBeGreaterThan(0);
+    expect(lost.solvedBbbv).toBeLessThan(lost.bbbv!);
+    expect(game.snapshot.status).toBe(GameStatus.Lost);
+  });
+
+  it('summarises win rate and streaks', () => {
+    const { stats, game } = create();
+    win(game, 1); win(game, 2); lose(game, 3); win(game, 4);
+    const s = stats.summary('Beginner');
+    expect(s.played).toBe(4);
+    expect(s.winRate).toBe(0.75);
+    expect(s.currentStreak).toBe(1);
+    expect(s.bestStreak).toBe(2);
+    expect(stats.topTimes({ ...PRESETS.Beginner, noGuess: false }).length).toBe(3);
+    expect(stats.summary('Expert').played).toBe(0);
+  });
+
+  it('records a game once when undo reopens it, and leaves practice games out of the summary', () => {
+    const { stats, game } = create();
+    lose(game, 1);
+    game.undo();
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+    expect(game.snapshot.status).toBe(GameStatus.Won);
+    expect(stats.records.map(g => [g.won, g.ranked])).toEqual([[false, true]]);
+
+    game.newGame(9, 9, 10, 'Beginner', { seed: 2 });
+    game.reveal({ x: 4, y: 4 });
+    game.setAnalysis(true);
+    for (const t of toTiles(game.snapshot.board).flat()) if (!t.isMine) game.reveal(t);
+    expect(stats.records.length).toBe(2);
+    expect(stats.records[1].ranked).toBeFalse();
+    const s = stats.summary('Beginner');
+    expect(s.played).toBe(1);
+    expect(s.won).toBe(0);
+    expect(s.bestStreak).toBe(0);
+  });
+});
+
+describe('threeBV', () => {
+  const board = (rows: string[]): Board => {
+    const mine = (x: number, y: number) => rows[y]?.[x] === '*';
+    return fromTiles(rows.map((row, y) => [...row].map((ch, x) => {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) if (mine(x + dx, y + dy)) n++;
+      return {
+        x, y, isMine: ch === '*', isRevealed: false, isFlagged: false, isQuestioned: false, isExploded: false,
+        adjacentMines: ch === '*' ? 0 : n,
+      };
+    })));
+  };
+
+  it('counts one click per opening plus isolated numbers', () => {
+    expect(threeBV(board(['....', '....', '....']))).toBe(1);
+    expect(threeBV(board(['*.*']))).toBe(1);
+    expect(threeBV(board(['...*', '....', '*...']))).toBe(2);
+  });
+
+  it('counts the units with a revealed cell as solved', () => {
+    const b = board(['.*..*.']);
+    expect(threeBV(b)).toBe(4);
+    expect(solvedThreeBV(b)).toBe(0);
+    b.cells[0] |= REVEALED;
+    b.cells[2] |= REVEALED;
+    expect(solvedThreeBV(b)).toBe(2);
+
+    const open = board(['....', '....']);
+    open.cells[5] |= REVEALED;
+    expect(solvedThreeBV(open)).toBe(1);
+  });
+});
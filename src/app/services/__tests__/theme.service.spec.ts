@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+import { ThemeService, resolveTheme, themeVariables } from '../theme.service';
+import { SettingsService } from '../settings.service';
+import { DEFAULT_SETTINGS } from '../../models/settings';
+import { THEMES, THEME_IDS } from '../../models/theme';
+
+describe('ThemeService', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('resolves system choices against the media preferences', () => {
+    const light = { dark: false, reducedMotion: false }, dark = { dark: true, reducedMotion: true };
+    expect(resolveTheme(DEFAULT_SETTINGS, light).theme.id).toBe('classic');
+    expect(resolveTheme(DEFAULT_SETTINGS, dark)).toEqual({ theme: THEMES.dark, markers: false, reducedMotion: true });
+
+    const chosen = { ...DEFAULT_SETTINGS, theme: 'high-contrast' as const, motion: 'full' as const, markers: true };
+    expect(resolveTheme(chosen, dark)).toEqual({ theme: THEMES['high-contrast'], markers: true, reducedMotion: false });
+    expect(resolveTheme({ ...chosen, motion: 'reduced' }, light).reducedMotion).toBeTrue();
+  });
+
+  it('defines every color and marker each renderer needs', () => {
+    for (const id of THEME_IDS) {
+      const theme = THEMES[id];
+      expect(theme.id).toBe(id);
+      expect(theme.palette.numbers.length).withContext(id).toBe(8);
+      expect(new Set(theme.markers).size).withContext(id).toBe(8);
+      expect(Object.values(themeVariables(theme)).every(v => /^(#[0-9a-f]{6}|transparent)$/.test(v))).withContext(id).toBeTrue();
+    }
+  });
+
+  it('applies the chosen theme to the page and follows setting changes', () => {
+    const themes = TestBed.inject(ThemeService);
+    const settings = TestBed.inject(SettingsService);
+    themes.start();
+    settings.update({ theme: 'color-blind', motion: 'reduced' });
+
+    const root = document.documentElement;
+    expect(themes.snapshot.theme.id).toBe('color-blind');
+    expect(root.dataset['theme']).toBe('color-blind');
+    expect(root.style.getPropertyValue('--n1')).toBe(THEMES['color-blind'].palette.numbers[0]);
+    expect(root.classList.contains('reduce-motion')).toBeTrue();
+
+    settings.update({ motion: 'full' });
+    expect(root.classList.contains('reduce-motion')).toBeFalse();
+  });
+});
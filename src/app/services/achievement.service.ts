@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import {
+  ACHIEVEMENTS, ACHIEVEMENT_IDS, Achievement, AchievementProgress, AchievementRecord,
+} from '../models/achievement';
+import { GameEvent } from '../models/game-event';
+import { GameState } from '../models/game-state';
+import { PRESETS } from '../models/presets';
+import { GamePlugin } from './game-plugin';
+
+const STORAGE_KEY = 'ms-achievements';
+const STORAGE_VERSION = 1;
+
+interface StoredAchievements extends AchievementRecord {
+  version: number;
+}
+
+/**
+ * Runs the achievement rules on the game's events (as a game plugin) and keeps progress and unlock
+ * dates. Practice games, hand-made puzzles and boards with fewer mines than Beginner don't count.
+ */
+@Injectable({ providedIn: 'root' })
+export class AchievementService implements GamePlugin {
+  readonly name = 'achievements';
+  private stored = this.load();
+  private readonly _progress$ = new BehaviorSubject<AchievementProgress[]>(this.list());
+  readonly progress$ = this._progress$.asObservable();
+  private readonly _unlocked$ = new Subject<Achievement>();
+  /** Each achievement as it unlocks. */
+  readonly unlocked$ = this._unlocked$.asObservable();
+
+  get snapshot(): AchievementProgress[] { return this._progress$.getValue(); }
+
+  onEvent(event: GameEvent, state: GameState): void {
+    if (state.practice || state.puzzle || state.mines < PRESETS.Beginner.mines) return;
+    const unlocked: Achievement[] = [];
+    let changed = false;
+    for (const id of ACHIEVEMENT_IDS) {
+      const achievement = ACHIEVEMENTS[id];
+      const before = this.stored.progress[id] ?? 0;
+      const after = achievement.advance(before, event, state);
+      if (after === before) continue;
+      changed = true;
+      this.stored.progress[id] = after;
+      if (after >= achievement.goal && !this.stored.unlocked[id]) {
+        this.stored.unlocked[id] = new Date().toISOString();
+        unlocked.push(achievement);
+      }
+    }
+    if (!changed) return;
+    this.save();
+    this._progress$.next(this.list());
+    for (const achievement of unlocked) this._unlocked$.next(achievement);
+  }
+
+  /** A copy of the saved progress and unlock dates. */
+  export(): AchievementRecord {
+    return { progress: { ...this.stored.progress }, unlocked: { ...this.stored.unlocked } };
+  }
+
+  /** Replace all progress and unlocks, e.g. from an imported profile; unknown or invalid entries are dropped. */
+  restore(record: AchievementRecord): void {
+    this.stored = { version: STORAGE_VERSION, ...sanitizeAchievements(record) };
+    this.save();
+    this._progress$.next(this.list());
+  }
+
+  clear(): void { this.restore({ progress: {}, unlocked: {} }); }
+
+  private list(): AchievementProgress[] {
+    return ACHIEVEMENT_IDS.map(id => ({
+      achievement: ACHIEVEMENTS[id],
+      progress: Math.min(this.stored.progress[id] ?? 0, ACHIEVEMENTS[id].goal),
+      unlockedAt: this.stored.unlocked[id] ?? null,
+    }));
+  }
+
+  private load(): StoredAchievements {
+    try {
+      const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Partial<StoredAchievements> | null;
+      if (raw?.version === STORAGE_VERSION) return { version: STORAGE_VERSION, ...sanitizeAchievements(raw) };
+    } catch {}
+    return { version: STORAGE_VERSION, progress: {}, unlocked: {} };
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stored));
+  }
+}
+
+/** What is still readable, for achievements that still exist. */
+export function sanitizeAchievements(raw: Partial<AchievementRecord>): AchievementRecord {
+  const stored: AchievementRecord = { progress: {}, unlocked: {} };
+  for (const id of ACHIEVEMENT_IDS) {
+    const progress = raw.progress?.[id], unlocked = raw.unlocked?.[id];
+    if (typeof progress === 'number' && progress >= 0) stored.progress[id] = progress;
+    if (typeof unlocked === 'string' && !isNaN(Date.parse(unlocked))) stored.unlocked[id] = unlocked;
+  }
+  return stored;
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@angular/core';
+import { Observable, interval } from 'rxjs';
+
+/** Where games read the time. Provide a `ManualClock` instead to move time by hand, e.g. in specs. */
+@Injectable({ providedIn: 'root' })
+export class ClockService {
+  /** Milliseconds, comparable only with other readings of the same clock. */
+  now(): number { return Date.now(); }
+
+  /** Emits every `ms` milliseconds until unsubscribed. */
+  every(ms: number): Observable<number> { return interval(ms); }
+
+  /** A stopped stopwatch reading this clock. */
+  stopwatch(): Stopwatch { return new Stopwatch(this); }
+}
+
+/** Play time that can be paused: it only counts while running. */
+export class Stopwatch {
+  /** Clock reading when the current run began; null while stopped. */
+  private runningSince: number | null = null;
+  /** Time counted before the current run. */
+  private banked = 0;
+
+  constructor(private readonly clock: ClockService) {}
+
+  get running(): boolean { return this.runningSince !== null; }
+
+  get elapsedMs(): number {
+    return this.banked + (this.runningSince === null ? 0 : this.clock.now() - this.runningSince);
+  }
+
+  /** Run from `elapsedMs`, e.g. to pick a saved game up where it was left. */
+  start(elapsedMs = 0): void {
+    this.banked = elapsedMs;
+    this.runningSince = this.clock.now();
+  }
+
+  /** Stop counting and return the time so far. */
+  pause(): number {
+    this.banked = this.elapsedMs;
+    this.runningSince = null;
+    return this.banked;
+  }
+
+  resume(): void {
+    if (this.runningSince === null) this.runningSince = this.clock.now();
+  }
+
+  reset(): void {
+    this.banked = 0;
+    this.runningSince = null;
+  }
+}
+
+interface ManualTimer {
+  period: number;
+  /** Clock time of the next tick. */
+  due: number;
+  count: number;
+  fire: (n: number) => void;
+}
+
+/** A clock that stands still until `advance` moves it, firing the `every` ticks that fall due on the way. */
+export class ManualClock extends ClockService {
+  private readonly timers = new Set<ManualTimer>();
+
+  constructor(private time = Date.UTC(2026, 0, 1)) { super(); }
+
+  override now(): number { return this.time; }
+
+  override every(ms: number): Observable<number> {
+    return new Observable<number>(subscriber => {
+      const timer: ManualTimer = { period: ms, due: this.time + ms, count: 0, fire: (n: number) => subscriber.next(n) };
+      this.timers.add(timer);
+      return () => this.timers.delete(timer);
+    });
+  }
+
+  /** Move time forward by `ms`, stopping at each tick on the way so it sees the time it fired at. */
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      let next: ManualTimer | undefined;
+      for (const timer of this.timers) if (!next || timer.due < next.due) next = timer;
+      if (!next || next.due > end) break;
+      this.time = next.due;
+      next.due += next.period;
+      next.fire(next.count++);
+    }
+    this.time = end;
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { BoardConfig, validateBoardConfig } from '../utils/board-config';
+
+export interface CustomPreset extends BoardConfig {
+  name: string;
+}
+
+const STORAGE_KEY = 'ms-custom-presets';
+const STORAGE_VERSION = 1;
+
+/** User-saved custom board sizes, kept in localStorage. */
+@Injectable({ providedIn: 'root' })
+export class CustomPresetsService {
+  private presets: CustomPreset[] = this.load();
+
+  get list(): readonly CustomPreset[] { return this.presets; }
+
+  /** Save (or overwrite by name) a preset; invalid configurations are rejected. */
+  save(preset: CustomPreset): void {
+    const name = preset.name.trim();
+    if (!name || validateBoardConfig(preset).length) return;
+    const { rows, cols, mines } = preset;
+    this.presets = [...this.presets.filter(p => p.name !== name), { name, rows, cols, mines }];
+    this.persist();
+  }
+
+  remove(name: string): void {
+    this.presets = this.presets.filter(p => p.name !== name);
+    this.persist();
+  }
+
+  /** Replace every preset, e.g. from an imported profile. */
+  restore(presets: CustomPreset[]): void {
+    this.presets = presets.map(({ name, rows, cols, mines }) => ({ name, rows, cols, mines }));
+    this.persist();
+  }
+
+  private load(): CustomPreset[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      if (stored?.version === STORAGE_VERSION && Array.isArray(stored.presets)) {
+        return stored.presets.filter((p: CustomPreset) => typeof p?.name === 'string' && !validateBoardConfig(p).length);
+      }
+    } catch {}
+    return [];
+  }
+
+  private persist(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, presets: this.presets }));
+  }
+}
@@ -0,0 +1,108 @@
+import { Injectable } from '@angular/core';
+import { GameState, GameStatus } from '../models/game-state';
+import { DailyResult, DailyStreak } from '../models/daily';
+import { dailyKey, dayAfter, dayBefore, isDailyKey } from '../utils/daily';
+import { threeBV } from '../utils/metrics';
+
+const STORAGE_KEY = 'ms-daily';
+const STORAGE_VERSION = 1;
+/** Squares in the shared progress bar. */
+const SHARE_BAR = 10;
+
+interface StoredDaily {
+  version: number;
+  results: DailyResult[];
+}
+
+/** One attempt per daily board: results, streaks and the spoiler-free share text. */
+@Injectable({ providedIn: 'root' })
+export class DailyService {
+  /** Oldest first. */
+  private results: DailyResult[] = this.load();
+
+  /**
+   * Keep the first finished attempt at a daily board. Later finishes of the same day (after an
+   * undo, say) never replace it.
+   */
+  record(s: GameState, abandoned = false): void {
+    if (!s.daily || this.resultFor(s.daily)) return;
+    if (!abandoned && s.status !== GameStatus.Won && s.status !== GameStatus.Lost) return;
+    const safeCells = s.rows * s.cols - s.mines;
+    const won = !abandoned && s.status === GameStatus.Won;
+    this.results = [...this.results, {
+      date: s.daily, won, abandoned, timeMs: s.elapsedMs,
+      cleared: won ? 1 : (safeCells - s.board.safeLeft) / safeCells,
+      bbbv: s.bbbv ?? threeBV(s.board, s.topology),
+      hintsUsed: s.moves.filter(m => m.kind === 'hint').length,
+      practice: s.practice,
+    }].sort((a, b) => a.date.localeCompare(b.date));
+    this.save();
+  }
+
+  /** Replace every result, e.g. from an imported profile. */
+  restore(results: DailyResult[]): void {
+    this.results = [...results].sort((a, b) => a.date.localeCompare(b.date));
+    this.save();
+  }
+
+  resultFor(date: string): DailyResult | null {
+    return this.results.find(r => r.date === date) ?? null;
+  }
+
+  /** Newest first. */
+  history(): DailyResult[] {
+    return [...this.results].reverse();
+  }
+
+  streak(today = dailyKey()): DailyStreak {
+    const won = new Set(this.results.filter(r => r.won).map(r => r.date));
+    let best = 0;
+    for (const date of won) {
+      if (won.has(dayBefore(date))) continue;
+      let run = 0;
+      for (let d = date; won.has(d); d = dayAfter(d)) run++;
+      best = Math.max(best, run);
+    }
+    // Today still unplayed doesn't break the streak yet.
+    let day = this.resultFor(today) ? today : dayBefore(today);
+    let current = 0;
+    for (; won.has(day); day = dayBefore(day)) current++;
+    return { current, best };
+  }
+
+  /** A result to paste anywhere: outcome, time and a progress bar, but nothing about the layout. */
+  shareText(date: string): string | null {
+    const r = this.resultFor(date);
+    if (!r) return null;
+    const filled = r.won ? SHARE_BAR : Math.min(SHARE_BAR - 1, Math.floor(r.cleared * SHARE_BAR));
+    const bar = '🟩'.repeat(filled) + (r.won ? '' : '💥') + '⬜'.repeat(Math.max(0, SHARE_BAR - filled - 1));
+    const seconds = (r.timeMs / 1000).toFixed(1);
+    const outcome = r.won
+      ? `🎉 ${seconds}s · ${(r.bbbv / (r.timeMs / 1000 || 1)).toFixed(2)} 3BV/s`
+      : `${r.abandoned ? '🏳️' : '💥'} ${Math.round(r.cleared * 100)}% cleared`;
+    const extras = [r.hintsUsed ? `💡×${r.hintsUsed}` : '', r.practice ? '🧪' : ''].filter(Boolean).join(' ');
+    const { current } = this.streak(date);
+    return [
+      `Minesweeper Daily ${date}${current > 1 ? ` 🔥${current}` : ''}`,
+      extras ? `${outcome} ${extras}` : outcome,
+      bar,
+    ].join('\n');
+  }
+
+  // ---------- storage ----------
+
+  private load(): DailyResult[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as StoredDaily | null;
+      if (stored?.version === STORAGE_VERSION && Array.isArray(stored.results)) {
+        return stored.results.filter(r => isDailyKey(r?.date));
+      }
+    } catch {}
+    return [];
+  }
+
+  private save(): void {
+    const stored: StoredDaily = { version: STORAGE_VERSION, results: this.results };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+}
@@ -0,0 +1,88 @@
+import { InjectionToken } from '@angular/core';
+import { Tone } from '../models/feedback';
+
+/** Where sounds and vibrations go. Either may be missing on a device; calls then do nothing. */
+export interface FeedbackDevice {
+  /** Whether `play` can make a sound here. */
+  readonly canPlay: boolean;
+  /** Whether `vibrate` can buzz here. */
+  readonly canVibrate: boolean;
+  /** Play tones together, scaled by `volume` (0 to 1). */
+  play(tones: Tone[], volume: number): void;
+  vibrate(pattern: number[]): void;
+}
+
+type AudioContextConstructor = new () => AudioContext;
+
+/**
+ * The Web Audio and Vibration APIs. The audio context is created on the first sound, which follows
+ * a tap or click, so autoplay rules let it start; a failing API is treated as missing.
+ */
+export class BrowserFeedbackDevice implements FeedbackDevice {
+  private AudioContextType: AudioContextConstructor | undefined = typeof window === 'undefined' ? undefined
+    : window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+  private context: AudioContext | null = null;
+  private noise: AudioBuffer | null = null;
+
+  get canPlay(): boolean { return !!this.AudioContextType; }
+  get canVibrate(): boolean { return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function'; }
+
+  play(tones: Tone[], volume: number): void {
+    const ctx = this.audio();
+    if (!ctx || volume <= 0) return;
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+    for (const tone of tones) {
+      const start = ctx.currentTime + tone.delayMs / 1000, end = start + tone.durationMs / 1000;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(tone.gain * volume, start);
+      gain.gain.exponentialRampToValueAtTime(0.0001, end);
+      gain.connect(ctx.destination);
+      let source: AudioScheduledSourceNode;
+      if (tone.wave === 'noise') {
+        source = this.noiseSource(ctx);
+      } else {
+        const osc = ctx.createOscillator();
+        osc.type = tone.wave;
+        osc.frequency.setValueAtTime(tone.hz, start);
+        if (tone.toHz) osc.frequency.exponentialRampToValueAtTime(tone.toHz, end);
+        source = osc;
+      }
+      source.connect(gain);
+      source.start(start);
+      source.stop(end);
+    }
+  }
+
+  vibrate(pattern: number[]): void {
+    if (!this.canVibrate) return;
+    try { navigator.vibrate(pattern); } catch {}
+  }
+
+  private audio(): AudioContext | null {
+    if (!this.context && this.AudioContextType) {
+      try {
+        this.context = new this.AudioContextType();
+      } catch {
+        this.AudioContextType = undefined;
+      }
+    }
+    return this.context;
+  }
+
+  /** One second of white noise, made once and replayed for explosions. */
+  private noiseSource(ctx: AudioContext): AudioBufferSourceNode {
+    if (!this.noise) {
+      this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    return source;
+  }
+}
+
+/** The device game feedback plays on; specs swap in a recording fake. */
+export const FEEDBACK_DEVICE = new InjectionToken<FeedbackDevice>('FEEDBACK_DEVICE', {
+  factory: () => new BrowserFeedbackDevice(),
+});
@@ -0,0 +1,40 @@
+import { Injectable, inject } from '@angular/core';
+import { CUE_TONES, FeedbackCue, VIBRATION_PATTERNS, cueFor } from '../models/feedback';
+import { GameEvent } from '../models/game-event';
+import { FEEDBACK_DEVICE } from './feedback-device';
+import { GamePlugin } from './game-plugin';
+import { SettingsService } from './settings.service';
+
+/**
+ * Sound and haptics for the game, as a game plugin: reveals, cascades, flags, explosions and wins
+ * each have a cue, played at the volume from the settings. Devices without audio or vibration
+ * simply stay quiet or still.
+ */
+@Injectable({ providedIn: 'root' })
+export class FeedbackService implements GamePlugin {
+  readonly name = 'feedback';
+  private readonly device = inject(FEEDBACK_DEVICE);
+  private readonly settings = inject(SettingsService);
+
+  get canPlay(): boolean { return this.device.canPlay; }
+  get canVibrate(): boolean { return this.device.canVibrate; }
+
+  onEvent(event: GameEvent): void {
+    const cue = cueFor(event);
+    if (!cue) return;
+    this.play(cue);
+    if (cue === 'explosion' || cue === 'win') this.vibrate(cue);
+  }
+
+  /** Play a cue now, unless muted. */
+  play(cue: FeedbackCue): void {
+    const { muted, volume } = this.settings.snapshot;
+    if (muted || volume <= 0) return;
+    this.device.play(CUE_TONES[cue], volume);
+  }
+
+  /** Buzz, if haptics are on. */
+  vibrate(pattern: keyof typeof VIBRATION_PATTERNS): void {
+    if (this.settings.snapshot.haptics) this.device.vibrate(VIBRATION_PATTERNS[pattern]);
+  }
+}
@@ -0,0 +1,19 @@
+import { InjectionToken, Provider } from '@angular/core';
+import { GameEvent } from '../models/game-event';
+import { GameState } from '../models/game-state';
+
+/** Reacts to game events (sound, achievements, analytics) without `GameService` knowing about it. */
+export interface GamePlugin {
+  /** Named in the console when the plugin throws. */
+  readonly name: string;
+  /** Called once per event, in order, after `state` (the state the action left) is on `state$`. */
+  onEvent(event: GameEvent, state: GameState): void;
+}
+
+/** Plugins attached to the app's game. Private games (replays, match boards) don't get them. */
+export const GAME_PLUGINS = new InjectionToken<readonly GamePlugin[]>('GAME_PLUGINS', { factory: () => [] });
+
+/** Attach a plugin to the app's game; `factory` runs in an injection context, so it may `inject()`. */
+export function provideGamePlugin(factory: () => GamePlugin): Provider {
+  return { provide: GAME_PLUGINS, useFactory: factory, multi: true };
+}
@@ -1,305 +1,369 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Subscription, interval } from 'rxjs';
-import { Difficulty, GameState, GameStatus } from '../models/game-state';
-import { Tile } from '../models/tile';
-
-function createMatrix<T>(rows: number, cols: number, factory: (r: number, c: number) => T): T[][] {
-  return Array.from({ length: rows }, (_, y) => Array.from({ length: cols }, (_, x) => factory(y, x)));
-}
-
-type Preset = { rows:number; cols:number; mines:number; difficulty: Difficulty };
-
-const PRESETS: Record<Exclude<Difficulty,'Custom'>, Preset> = {
-  Beginner: { rows: 9, cols: 9, mines: 10, difficulty: 'Beginner' },
-  Intermediate: { rows: 16, cols: 16, mines: 40, difficulty: 'Intermediate' },
-  Expert: { rows: 16, cols: 30, mines: 99, difficulty: 'Expert' },
-};
+import { Injectable, InjectionToken, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { Difficulty, GameState, GameStatus, NewGameOptions } from '../models/game-state';
+import { GameEvent } from '../models/game-event';
+import { Replay } from '../models/replay';
+import { Puzzle } from '../models/puzzle';
+import { PRESETS, difficultyFor } from '../models/presets';
+import { FLAGGED, MINE, QUESTION, REVEALED, mineIndices } from '../models/board';
+import { decodeGameCode, encodeGameCode } from '../utils/game-code';
+import { decodePuzzle, encodePuzzle } from '../utils/puzzle-code';
+import { dailyKey, dailySeed } from '../utils/daily';
+import * as engine from '../engine/game-engine';
+import { StatsService } from './stats.service';
+import { DailyService } from './daily.service';
+import { PuzzleService } from './puzzle.service';
+import { SettingsService } from './settings.service';
+import { GAME_PLUGINS, GamePlugin } from './game-plugin';
+import { ClockService } from './clock.service';
+import { RankedBoard } from '../utils/ranking';
+import { validateBoardConfig } from '../utils/board-config';
+import { timeLeftMs } from '../utils/metrics';
+
+/** How often the displayed time (and a time-attack countdown) is brought up to date. */
+const TICK_MS = 200;
+
+/** Undo steps kept. Each holds a full board version, which adds up on 500×500 boards. */
+const MAX_UNDO = 100;
+
+/** Whether finished games are written to statistics. Off for private re-simulations such as replays. */
+export const GAME_PERSISTENCE = new InjectionToken<boolean>('GAME_PERSISTENCE', { factory: () => true });
 
 @Injectable({ providedIn: 'root' })
-export class GameService {
-  private readonly _state$ = new BehaviorSubject<GameState>(this.initialState(9, 9, 10, 'Beginner'));
+export class GameService implements OnDestroy {
+  private readonly _state$ = new BehaviorSubject<GameState>(engine.newGame(9, 9, 10, 'Beginner').state);
   readonly state$ = this._state$.asObservable();
-
+  private readonly _events$ = new Subject<GameEvent>();
+  /**
+   * What happens, as it happens. The events of one action arrive together and in order, after
+   * `state$` has the state they led to.
+   */
+  readonly events$ = this._events$.asObservable();
+
+  private readonly stats = inject(StatsService);
+  private readonly daily = inject(DailyService);
+  private readonly puzzles = inject(PuzzleService);
+  private readonly settings = inject(SettingsService);
+  private readonly persist = inject(GAME_PERSISTENCE);
+  private readonly clock = inject(ClockService);
+  /** Play time of the current game; runs from the first reveal and stops while paused and once finished. */
+  private readonly stopwatch = this.clock.stopwatch();
+  /** Who paused the game: the page coming back into view doesn't lift the player's own pause. */
+  private pausedBy: 'player' | 'page' | null = null;
+  private readonly plugins: GamePlugin[] = this.persist ? [...inject(GAME_PLUGINS)] : [];
   private timerSub?: Subscription;
+  /** States before each action since the first reveal, for practice undo. */
+  private history: GameState[] = [];
 
   constructor() {}
 
+  ngOnDestroy(): void {
+    this.stopTimer();
+    this._events$.complete();
+  }
+
   get snapshot(): GameState { return this._state$.getValue(); }
+  /** Time attack ends for good when the time runs out. */
+  get canUndo(): boolean {
+    const s = this.snapshot;
+    return this.history.length > 0 && s.status !== GameStatus.Won && s.loss?.cause !== 'time' && !s.paused;
+  }
+
+  /**
+   * Whether `exportReplay` has a game to give: not before the first reveal, and never for puzzles,
+   * whose hand-placed mines have no seed and first click to replay from.
+   */
+  get canReplay(): boolean {
+    const s = this.snapshot;
+    return !!s.firstClickCell && s.moves.length > 0;
+  }
+
+  /** Play time right now, to the millisecond; `elapsedMs` in the state catches up on each tick. */
+  get elapsedMs(): number { return this.stopwatch.elapsedMs; }
+
+  /** Attach a plugin to this game; returns a function that detaches it. */
+  register(plugin: GamePlugin): () => void {
+    this.plugins.push(plugin);
+    return () => {
+      const i = this.plugins.indexOf(plugin);
+      if (i >= 0) this.plugins.splice(i, 1);
+    };
+  }
 
   /** Create a preset game */
-  newPreset(which: Exclude<Difficulty,'Custom'>): void {
+  newPreset(which: Exclude<Difficulty,'Custom'>, options: NewGameOptions = {}): void {
     const p = PRESETS[which];
-    this.newGame(p.rows, p.cols, p.mines, p.difficulty);
+    this.newGame(p.rows, p.cols, p.mines, p.difficulty, options);
   }
 
-  /** Create a custom game */
-  newGame(rows: number, cols: number, mines: number, difficulty: Difficulty = 'Custom'): void {
-    this.stopTimer();
-    this._state$.next(this.initialState(rows, cols, mines, difficulty));
+  /** Create a custom game. Throws a `BoardConfigError` for boards that can't be generated. */
+  newGame(rows: number, cols: number, mines: number, difficulty: Difficulty = 'Custom', options: NewGameOptions = {}): void {
+    this.begin(engine.newGame(rows, cols, mines, difficulty, options, this.snapshot.analysis));
   }
 
-  restart(): void {
-    const s = this.snapshot;
-    this.newGame(s.rows, s.cols, s.mines, s.difficulty);
+  /** Play a hand-made puzzle. Throws a `BoardConfigError` for puzzles that can't be played. */
+  loadPuzzle(puzzle: Puzzle): void {
+    this.begin(engine.newPuzzle(puzzle, this.snapshot.analysis));
   }
 
-  toggleFlag(tile: Tile | {x:number;y:number}): void {
+  /**
+   * The daily challenge of a local calendar day: one seeded layout around the center cell, the same
+   * for everyone. Returns false once that day's attempt is finished.
+   */
+  newDaily(date = dailyKey()): boolean {
     const s = this.snapshot;
-    if (s.status === GameStatus.Lost || s.status === GameStatus.Won) return;
-    const t = this.tileAt(s, tile.y, tile.x);
-    if (!t || t.isRevealed) return;
-
-    const flagged = !t.isFlagged;
-    const board = s.board.map((row, ry) => (ry === t.y ? row.slice() : row));
-    board[t.y] = board[t.y].slice();
-    board[t.y][t.x] = { ...t, isFlagged: flagged };
-
-    const flagsPlaced = s.flagsPlaced + (flagged ? 1 : -1);
-    const minesLeft = Math.max(0, s.mines - flagsPlaced);
-    this._state$.next({ ...s, board, flagsPlaced, minesLeft });
+    if (s.daily === date && (s.status === GameStatus.Ready || s.status === GameStatus.Playing)) return true;
+    if (this.daily.resultFor(date)) return false;
+    const p = PRESETS.Daily;
+    this.newGame(p.rows, p.cols, p.mines, 'Daily', {
+      seed: dailySeed(date), firstClickCell: { x: Math.floor(p.cols / 2), y: Math.floor(p.rows / 2) }, daily: date,
+    });
+    return true;
   }
 
-  /** Reveal tile; if first click, place mines excluding the tile and its neighbors. */
-  reveal(tile: Tile | {x:number;y:number}): void {
-    let s = this.snapshot;
-    if (s.status === GameStatus.Lost || s.status === GameStatus.Won) return;
-    const t = this.tileAt(s, tile.y, tile.x);
-    if (!t || t.isRevealed || t.isFlagged) return;
-
-    if (s.firstClick) {
-      s = this.placeMinesAfterFirstClick(s, t.x, t.y);
-      s.status = GameStatus.Playing;
-      s.firstClick = false;
-      s.startedAt = Date.now();
-      this.startTimer();
-    }
-
-    if (t.isMine) {
-      const board = this.revealAllMines(s.board);
-      this.stopTimer();
-      this._state$.next({ ...s, board, status: GameStatus.Lost });
-      return;
+  /** Start the exact board described by a game code or puzzle code. Returns false if the code is invalid. */
+  loadGameCode(code: string): boolean {
+    const puzzle = decodePuzzle(code);
+    if (puzzle) {
+      try {
+        this.loadPuzzle(puzzle);
+        return true;
+      } catch {
+        return false;
+      }
     }
+    const parsed = decodeGameCode(code);
+    if (!parsed || validateBoardConfig(parsed).length) return false;
+    this.newGame(parsed.rows, parsed.cols, parsed.mines, difficultyFor(parsed.rows, parsed.cols, parsed.mines), {
+      seed: parsed.seed, firstClickCell: parsed.firstClickCell, noGuess: parsed.noGuess, topology: parsed.topology,
+    });
+    return true;
+  }
 
-    const revealedBoard = this.revealFloodFill(s.board, t.x, t.y);
-    s = { ...s, board: revealedBoard };
+  /**
+   * Shareable code for the current board; includes the first-click cell once mines are placed.
+   * Puzzles share their puzzle code.
+   */
+  exportGameCode(): string {
+    const s = this.snapshot;
+    if (s.puzzle) return encodePuzzle(s.puzzle);
+    return encodeGameCode({
+      rows: s.rows, cols: s.cols, mines: s.mines, seed: s.seed, firstClickCell: s.firstClickCell, noGuess: s.noGuess,
+      topology: s.topology,
+    });
+  }
 
-    if (this.countHiddenNonMines(s.board) === 0) {
-      s.status = GameStatus.Won;
-      this.stopTimer();
-      this.persistBestTime(s);
+  /**
+   * New board with the same settings; `options` override them (the seed is always fresh). After a
+   * daily board this is an ordinary random board of the same size. A puzzle starts over as it was.
+   */
+  restart(options: Pick<NewGameOptions, 'noGuess' | 'topology' | 'timeLimit'> = {}): void {
+    const s = this.snapshot;
+    if (s.puzzle) {
+      this.loadPuzzle(s.puzzle);
+      return;
     }
-    this._state$.next(s);
+    const difficulty = s.difficulty === 'Daily' ? difficultyFor(s.rows, s.cols, s.mines) : s.difficulty;
+    this.newGame(s.rows, s.cols, s.mines, difficulty, {
+      noGuess: s.noGuess, topology: s.topology, timeLimit: s.timeLimit, ...options,
+    });
   }
 
-  /** Number-click chording: if flags around equal adjacent number, reveal all other neighbors. */
-  chord(tile: Tile | {x:number;y:number}): void {
-    let s = this.snapshot;
-    if (s.status !== GameStatus.Playing) return;
-    const t = this.tileAt(s, tile.y, tile.x);
-    if (!t || !t.isRevealed || t.isMine || t.adjacentMines === 0) return;
-
-    const neighbors = this.neighbors(s.board, t.x, t.y);
-    const flags = neighbors.filter(n => n.isFlagged).length;
-    if (flags !== t.adjacentMines) return;
-
-    // Reveal unflagged neighbors
-    let board = s.board.map(r => r.slice());
-    let hitMine = false;
-    for (const n of neighbors) {
-      if (!n.isFlagged && !n.isRevealed) {
-        if (n.isMine) {
-          hitMine = true;
-          board[n.y][n.x] = { ...n, isRevealed: true };
-        } else {
-          board = this.revealFloodFill(board, n.x, n.y);
-        }
-      }
-    }
+  /**
+   * Secondary action (right click, long press, flag key) as the settings have it: the flag, then a
+   * `?` when question marks are on, then clear. In no-flag style only the `?` is left, if enabled.
+   */
+  mark(cell: { x: number; y: number }): void {
+    const s = this.snapshot;
+    const i = engine.cellIndex(s, cell);
+    if (i < 0) return;
+    const { noFlag, questionMarks } = this.settings.snapshot;
+    const bits = s.board.cells[i];
+    if (bits & QUESTION || (bits & FLAGGED && questionMarks)) this.toggleQuestion(cell);
+    else if (bits & FLAGGED || !noFlag) this.toggleFlag(cell);
+    else if (questionMarks) this.toggleQuestion(cell);
+  }
 
-    if (hitMine) {
-      board = this.revealAllMines(board);
-      this.stopTimer();
-      this._state$.next({ ...s, board, status: GameStatus.Lost });
+  /**
+   * Primary action (click, tap): reveal a hidden cell. A revealed number chords when the settings
+   * say clicks (flag-chord) or taps do.
+   */
+  activate(cell: { x: number; y: number }, via: 'click' | 'tap' = 'click'): void {
+    const s = this.snapshot;
+    const i = engine.cellIndex(s, cell);
+    if (i < 0) return;
+    if ((s.board.cells[i] & (REVEALED | MINE)) === REVEALED) {
+      const { clickChord, tapChord } = this.settings.snapshot;
+      if (via === 'click' ? clickChord : tapChord) this.chord(cell);
       return;
     }
+    this.reveal(cell);
+  }
 
-    s = { ...s, board };
-
-    if (this.countHiddenNonMines(s.board) === 0) {
-      s.status = GameStatus.Won;
-      this.stopTimer();
-      this.persistBestTime(s);
-    }
-    this._state$.next(s);
+  /** Flag or unflag a hidden cell; a `?` there gives way to the flag. */
+  toggleFlag(cell: { x: number; y: number }): void {
+    this.apply(engine.toggleMarker(this.snapshot, cell, 'flag', this.elapsedMs));
   }
 
-  /** Reveal a guaranteed-safe tile (if any). */
-  useHint(): void {
-    let s = this.snapshot;
-    if (s.hintsLeft <= 0 || s.status === GameStatus.Lost || s.status === GameStatus.Won) return;
-
-    // Naive strategy: find a non-mine unrevealed tile. If first click, just reveal a corner.
-    // After first click, we can compute probabilities, but for demo we choose the first safe deterministically.
-    // We'll scan for any tile that is not a mine AND not revealed.
-    for (let y = 0; y < s.rows; y++) {
-      for (let x = 0; x < s.cols; x++) {
-        const t = s.board[y][x];
-        if (!t.isMine && !t.isRevealed && !t.isFlagged) {
-          this.reveal({x,y});
-          // decrement hints after reveal call may change state, so snapshot again and update hints.
-          s = this.snapshot;
-          this._state$.next({ ...s, hintsLeft: Math.max(0, s.hintsLeft - 1) });
-          return;
-        }
-      }
-    }
+  /** Put a `?` on a hidden cell or take it off; a flag there gives way to it. */
+  toggleQuestion(cell: { x: number; y: number }): void {
+    this.apply(engine.toggleMarker(this.snapshot, cell, 'question', this.elapsedMs));
   }
 
-  // ======================== helpers & state ========================
+  /** Reveal a cell; if first click, place mines excluding the cell and its neighbors. */
+  reveal(cell: { x: number; y: number }): void {
+    this.apply(engine.reveal(this.snapshot, cell, this.elapsedMs));
+  }
 
-  private initialState(rows: number, cols: number, mines: number, difficulty: Difficulty): GameState {
-    const board = createMatrix<Tile>(rows, cols, (y, x) => ({
-      x, y, isMine: false, isRevealed: false, isFlagged: false, adjacentMines: 0,
-    }));
-    return {
-      board, rows, cols, mines,
-      flagsPlaced: 0, minesLeft: mines,
-      status: GameStatus.Ready, firstClick: true,
-      elapsedMs: 0, difficulty, hintsLeft: 3,
-    };
+  /** Number-click chording: if flags around equal adjacent number, reveal all other neighbors. */
+  chord(cell: { x: number; y: number }): void {
+    this.apply(engine.chord(this.snapshot, cell, this.elapsedMs));
   }
 
-  private tileAt(s: GameState, y: number, x: number): Tile | undefined {
-    if (y < 0 || y >= s.rows || x < 0 || x >= s.cols) return undefined;
-    return s.board[y][x];
+  /** Point out the next logical move (or the safest guess) using visible information only. */
+  useHint(): void {
+    this.apply(engine.useHint(this.snapshot, this.elapsedMs));
   }
 
-  private placeMinesAfterFirstClick(s: GameState, safeX: number, safeY: number): GameState {
-    const total = s.rows * s.cols;
-    const indices = Array.from({ length: total }, (_, i) => i);
+  /** Practice undo: step back one action. The clock keeps running and the game becomes unranked. */
+  undo(): void {
+    if (!this.canUndo) return;
+    const prev = this.history.pop()!;
+    this.stopwatch.resume();
+    this.apply(engine.undo(prev, this.snapshot, this.elapsedMs));
+    this.startTimer();
+  }
 
-    const forbidden = new Set<number>();
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        const y = safeY + dy, x = safeX + dx;
-        if (y >= 0 && y < s.rows && x >= 0 && x < s.cols) forbidden.add(y * s.cols + x);
-      }
-    }
-    const candidates = indices.filter(i => !forbidden.has(i));
-    for (let i = candidates.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
-    }
-    const minePositions = new Set(candidates.slice(0, s.mines));
+  /** Show or hide the probability overlay. Turning it on mid-game makes the game unranked. */
+  setAnalysis(on: boolean): void {
+    this.apply(engine.setAnalysis(this.snapshot, on));
+  }
 
-    const board = s.board.map(r => r.slice());
-    for (let i = 0; i < total; i++) {
-      const y = Math.floor(i / s.cols);
-      const x = i % s.cols;
-      if (minePositions.has(i)) board[y][x] = { ...board[y][x], isMine: true };
-    }
-    this.recalculateAdjacency(board);
-    return { ...s, board };
+  /**
+   * Stop the clock, by the player's choice or because the page was hidden. Time spent paused never
+   * counts, and nothing can be played until `resume`.
+   */
+  pause(by: 'player' | 'page' = 'player'): void {
+    const s = this.snapshot;
+    if (s.status !== GameStatus.Playing || s.paused) return;
+    this.stopTimer();
+    this.pausedBy = by;
+    this.publish({ ...s, paused: true, elapsedMs: this.stopwatch.pause() }, [{ type: 'paused' }]);
   }
 
-  private neighbors(board: Tile[][], x: number, y: number): Tile[] {
-    const res: Tile[] = [];
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        const ny = y + dy, nx = x + dx;
-        if (ny >= 0 && ny < board.length && nx >= 0 && nx < board[0].length) res.push(board[ny][nx]);
-      }
-    }
-    return res;
+  /** Restart the clock from the frozen elapsed time. The page alone can't lift a pause the player chose. */
+  resume(by: 'player' | 'page' = 'player'): void {
+    const s = this.snapshot;
+    if (s.status !== GameStatus.Playing || !s.paused) return;
+    if (by === 'page' && this.pausedBy === 'player') return;
+    this.pausedBy = null;
+    this.stopwatch.resume();
+    this.publish({ ...s, paused: false }, [{ type: 'resumed' }]);
+    this.startTimer();
   }
 
-  private recalculateAdjacency(board: Tile[][]): void {
-    for (let y = 0; y < board.length; y++) {
-      for (let x = 0; x < board[0].length; x++) {
-        if (board[y][x].isMine) {
-          board[y][x] = { ...board[y][x], adjacentMines: 0 };
-        } else {
-          const count = this.neighbors(board, x, y).filter(t => t.isMine).length;
-          board[y][x] = { ...board[y][x], adjacentMines: count };
-        }
-      }
-    }
+  /** Continue a saved in-progress game; its clock picks up from the saved elapsed time. */
+  restore(saved: GameState): void {
+    if (saved.status !== GameStatus.Playing) return;
+    this.stopTimer();
+    this.history = [];
+    this.pausedBy = null;
+    this.stopwatch.start(saved.elapsedMs);
+    this.publish({ ...saved, hint: undefined, paused: false }, [{ type: 'game-restored' }]);
+    this.startTimer();
   }
 
-  private revealAllMines(board: Tile[][]): Tile[][] {
-    return board.map(row => row.map(t => t.isMine ? ({ ...t, isRevealed: true }) : t));
+  /** Everything needed to play the current game back; null when `canReplay` is false. */
+  exportReplay(): Replay | null {
+    const s = this.snapshot;
+    if (!s.firstClickCell || s.moves.length === 0) return null;
+    const mineLayout = mineIndices(s.board);
+    return {
+      version: 2, difficulty: s.difficulty, rows: s.rows, cols: s.cols, mines: s.mines, topology: s.topology,
+      timeLimit: s.timeLimit, seed: s.seed, noGuess: s.noGuess, firstClickCell: s.firstClickCell, mineLayout,
+      moves: s.moves, status: s.status, elapsedMs: s.elapsedMs, practice: s.practice,
+    };
   }
 
-  private countHiddenNonMines(board: Tile[][]): number {
-    let count = 0;
-    for (const row of board) for (const t of row) if (!t.isMine && !t.isRevealed) count++;
-    return count;
+  // ======================== helpers & state ========================
+
+  /** Leave the current game for the one `step` created. */
+  private begin(step: engine.Step): void {
+    const s = this.snapshot;
+    // Walking away from a started daily board uses up the day's attempt.
+    if (this.persist && s.daily && s.status === GameStatus.Playing) this.daily.record(s, true);
+    this.stopTimer();
+    this.stopwatch.reset();
+    this.pausedBy = null;
+    this.history = [];
+    this.publish(step.state, step.events);
   }
 
-  private revealFloodFill(board: Tile[][], startX: number, startY: number): Tile[][] {
-    const rows = board.length, cols = board[0].length;
-    const out = board.map(r => r.slice());
-    const queue: Array<{x:number;y:number}> = [];
-    const visited = new Set<string>();
-
-    const enqueue = (x:number, y:number) => {
-      const key = y + ':' + x;
-      if (x < 0 || x >= cols || y < 0 || y >= rows) return;
-      if (visited.has(key)) return;
-      visited.add(key);
-      queue.push({x,y});
-    };
-    enqueue(startX, startY);
-
-    while (queue.length) {
-      const {x, y} = queue.shift()!;
-      const t = out[y][x];
-      if (t.isRevealed || t.isFlagged) continue;
-      out[y][x] = { ...t, isRevealed: true };
-      if (t.adjacentMines === 0 && !t.isMine) {
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            if (dx === 0 && dy === 0) continue;
-            enqueue(x + dx, y + dy);
-          }
-        }
-      }
-    }
-    return out;
+  private remember(s: GameState): void {
+    if (s.status !== GameStatus.Playing) return;
+    this.history.push(s);
+    if (this.history.length > MAX_UNDO) this.history.shift();
   }
 
   // ---------- timer & persistence ----------
 
   private startTimer(): void {
     this.stopTimer();
-    this.timerSub = interval(200).subscribe(() => {
+    this.timerSub = this.clock.every(TICK_MS).subscribe(() => {
       const s = this.snapshot;
-      if (s.status !== GameStatus.Playing || !s.startedAt) return;
-      const elapsedMs = Date.now() - s.startedAt;
-      this._state$.next({ ...s, elapsedMs });
+      if (s.status !== GameStatus.Playing || s.paused) return;
+      const next = { ...s, elapsedMs: this.stopwatch.elapsedMs };
+      if (timeLeftMs(next) === 0) this.apply(engine.timeUp(next, next.elapsedMs));
+      else this.publish(next);
     });
   }
   private stopTimer(): void {
     if (this.timerSub) { this.timerSub.unsubscribe(); this.timerSub = undefined; }
   }
 
-  /** Persist best time by difficulty to localStorage */
-  private persistBestTime(s: GameState): void {
-    const sec = s.elapsedMs / 1000;
-    const key = 'ms-best-times';
-    const current = JSON.parse(localStorage.getItem(key) || '{}');
-    const prev = current[s.difficulty];
-    if (!prev || sec < prev) {
-      current[s.difficulty] = sec;
-      localStorage.setItem(key, JSON.stringify(current));
+  /**
+   * Take an engine step: keep the state before it for undo, start the clock on the first reveal,
+   * stop it and record the result when the game ends (the first time only, if undo reopened it), then publish.
+   */
+  private apply(step: engine.Step | null): void {
+    if (!step) return;
+    const before = this.snapshot, s = step.state;
+    if (s.moves.length > before.moves.length && s.moves.at(-1)!.kind !== 'undo') this.remember(before);
+    if (before.status === GameStatus.Ready && s.status !== GameStatus.Ready) {
+      this.stopwatch.start();
+      this.startTimer();
+    }
+    if (engine.isOver(s) && !engine.isOver(before)) {
+      this.stopTimer();
+      this.stopwatch.pause();
+      // Puzzles keep their own solve times, apart from the difficulty statistics.
+      if (this.persist && s.puzzle) {
+        if (s.status === GameStatus.Won && !s.practice) this.puzzles.recordSolve(s.puzzle, s.elapsedMs);
+      } else if (this.persist && !s.endedBefore) {
+        this.stats.record(s);
+        this.daily.record(s);
+      }
+    }
+    this.publish(s, step.events);
+  }
+
+  /** Set the new state, then hand the action's events to the plugins and `events$`, in order. */
+  private publish(s: GameState, events: GameEvent[] = []): void {
+    this._state$.next(s);
+    for (const event of events) {
+      for (const plugin of [...this.plugins]) {
+        try {
+          plugin.onEvent(event, s);
+        } catch (err) {
+          console.error(`Game plugin "${plugin.name}" failed on ${event.type}`, err);
+        }
+      }
+      this._events$.next(event);
     }
   }
 
-  getBestTimeSec(difficulty: Difficulty): number | null {
-    const key = 'ms-best-times';
-    const current = JSON.parse(localStorage.getItem(key) || '{}');
-    return typeof current[difficulty] === 'number' ? current[difficulty] : null;
+  /** Best ranked time for this board's leaderboard bucket (see `rankingKey`). */
+  getBestTimeSec(board: RankedBoard): number | null {
+    return this.stats.bestTimeSec(board);
   }
 }
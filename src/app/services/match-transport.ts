@@ -0,0 +1,49 @@
+import { InjectionToken } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { MatchMessage } from '../models/match';
+
+/** A connection to the other side of a match. Messages are delivered asynchronously and never to the sender. */
+export interface MatchTransport {
+  readonly messages$: Observable<MatchMessage>;
+  send(message: MatchMessage): void;
+  close(): void;
+}
+
+/** Tabs of the same browser, talking over a named BroadcastChannel. */
+export class BroadcastChannelTransport implements MatchTransport {
+  private readonly channel: BroadcastChannel;
+  private readonly incoming = new Subject<MatchMessage>();
+  readonly messages$ = this.incoming.asObservable();
+
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (e: MessageEvent<MatchMessage>) => this.incoming.next(e.data);
+  }
+
+  send(message: MatchMessage): void { this.channel.postMessage(message); }
+
+  close(): void {
+    this.channel.close();
+    this.incoming.complete();
+  }
+}
+
+/** Two connected in-memory ends, e.g. to run both sides of a match in one test. */
+export function createLoopbackPair(): [MatchTransport, MatchTransport] {
+  const inboxes = [new Subject<MatchMessage>(), new Subject<MatchMessage>()];
+  const end = (own: number): MatchTransport => ({
+    messages$: inboxes[own].asObservable(),
+    // Structured-clone semantics, like a real channel: the receiver never shares the sender's objects.
+    send: message => {
+      const copy = structuredClone(message);
+      queueMicrotask(() => inboxes[1 - own].next(copy));
+    },
+    close: () => inboxes[own].complete(),
+  });
+  return [end(0), end(1)];
+}
+
+/** Opens the transport for a two-tab match room. */
+export const MATCH_TRANSPORT = new InjectionToken<(room: string) => MatchTransport>('MATCH_TRANSPORT', {
+  factory: () => room => new BroadcastChannelTransport(`ms-match-${room}`),
+});
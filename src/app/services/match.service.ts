@@ -0,0 +1,280 @@
+import { DestroyableInjector, Injectable, Injector, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { GameState, GameStatus } from '../models/game-state';
+import { MatchMessage, MatchMode, MatchResult, MatchSetup, MatchState, PlayerState, Seat } from '../models/match';
+import { MINE } from '../models/board';
+import { Move } from '../models/replay';
+import { TOPOLOGY_KINDS, TopologyKind } from '../models/topology';
+import { validateBoardConfig } from '../utils/board-config';
+import { randomSeed } from '../utils/rng';
+import { GAME_PERSISTENCE, GameService } from './game.service';
+import { MATCH_TRANSPORT, MatchTransport } from './match-transport';
+
+const MODES: MatchMode[] = ['race', 'flags'];
+
+/** A fresh match on a new seed; race boards start from the center cell. */
+export function createMatchSetup(
+  mode: MatchMode, rows: number, cols: number, mines: number, topology: TopologyKind = 'square',
+  names: [string, string] = ['Player 1', 'Player 2'],
+): MatchSetup {
+  return {
+    mode, rows, cols, mines, topology, seed: randomSeed(),
+    startCell: { x: Math.floor(cols / 2), y: Math.floor(rows / 2) }, names,
+  };
+}
+
+function idleState(): MatchState {
+  const player = (name: string): PlayerState => ({ name, status: GameStatus.Ready, score: 0, elapsedMs: 0 });
+  return {
+    phase: 'idle', setup: null, localSeats: [], players: [player('Player 1'), player('Player 2')], turn: 0,
+    result: null, room: null, opponentLeft: false,
+  };
+}
+
+/**
+ * Local two-player matches. Every game runs on its own `GameService` (one per player in a race,
+ * one shared board in Flags), created in a private injector scope that never touches statistics.
+ * Moves made on this device are sent through a `MatchTransport`; moves from the other side are
+ * replayed on the same seeded games, so both sides always agree on every board.
+ * Provided by the match page, so leaving the page ends the match.
+ */
+@Injectable()
+export class MatchService implements OnDestroy {
+  private readonly _state$ = new BehaviorSubject<MatchState>(idleState());
+  readonly state$ = this._state$.asObservable();
+
+  private readonly injector = inject(Injector);
+  private readonly openTransport = inject(MATCH_TRANSPORT);
+  private transport: MatchTransport | null = null;
+  private transportSub?: Subscription;
+  private scopes: DestroyableInjector[] = [];
+  private engines: GameService[] = [];
+  private engineSubs = new Subscription();
+  /** Moves already seen per engine, to pick out the new one on each state change. */
+  private seenMoves: number[] = [];
+  private flagScores: [number, number] = [0, 0];
+  /** Set while replaying the other side's move, so it isn't sent straight back. */
+  private applyingRemote = false;
+
+  get snapshot(): MatchState { return this._state$.getValue(); }
+
+  ngOnDestroy(): void { this.leave(); }
+
+  /** The game a seat plays: its own board in a race, the shared one in Flags. */
+  engine(seat: Seat): GameService {
+    return this.engines[this.engines.length > 1 ? seat : 0];
+  }
+
+  /** Injector providing `engine(seat)` as `GameService`, for rendering that seat's board. */
+  scope(seat: Seat): Injector {
+    return this.scopes[this.scopes.length > 1 ? seat : 0];
+  }
+
+  /** Whether a seat may act now: it is played here, the match is on, and (in Flags) it is its turn. */
+  canAct(seat: Seat): boolean {
+    const m = this.snapshot;
+    return m.phase === 'playing' && m.localSeats.includes(seat) && (m.setup!.mode === 'race' || m.turn === seat);
+  }
+
+  /** Both seats on this device: a split screen. */
+  startLocal(setup: MatchSetup): void {
+    this.leave();
+    this.begin(setup, [0, 1]);
+  }
+
+  /** Open a two-tab room as player 1; the match starts when another tab joins. */
+  host(setup: MatchSetup): string {
+    this.leave();
+    const room = randomSeed().toString(36);
+    this.connect(room);
+    this.next({ ...idleState(), phase: 'waiting', setup, localSeats: [0], room });
+    return room;
+  }
+
+  /** Join a room hosted in another tab as player 2. */
+  join(room: string, name = 'Player 2'): void {
+    this.leave();
+    this.connect(room);
+    this.next({ ...idleState(), phase: 'waiting', localSeats: [1], room });
+    this.transport!.send({ type: 'join', name });
+  }
+
+  /** Same mode and board, new seed; in a two-tab match the other side restarts too. */
+  rematch(): void {
+    const m = this.snapshot;
+    if (!m.setup || m.opponentLeft) return;
+    const setup = { ...m.setup, seed: randomSeed() };
+    this.transport?.send({ type: 'start', setup });
+    this.begin(setup, m.localSeats, m.room);
+  }
+
+  /** End the match, telling the other side, and go back to the lobby. */
+  leave(): void {
+    if (this.transport) {
+      this.transport.send({ type: 'leave' });
+      this.transportSub?.unsubscribe();
+      this.transport.close();
+      this.transport = null;
+    }
+    this.destroyEngines();
+    if (this.snapshot.phase !== 'idle') this.next(idleState());
+  }
+
+  // ---------- match flow ----------
+
+  private connect(room: string): void {
+    this.transport = this.openTransport(room);
+    this.transportSub = this.transport.messages$.subscribe(msg => this.receive(msg));
+  }
+
+  private receive(msg: MatchMessage): void {
+    const m = this.snapshot;
+    switch (msg?.type) {
+      case 'join': {
+        // Only the host answers, with the board to play.
+        if (!m.localSeats.includes(0) || !m.setup || typeof msg.name !== 'string') return;
+        const setup: MatchSetup = { ...m.setup, names: [m.setup.names[0], msg.name.slice(0, 24) || 'Player 2'] };
+        this.transport!.send({ type: 'start', setup });
+        this.begin(setup, m.localSeats, m.room);
+        break;
+      }
+      case 'start':
+        if (isSetup(msg.setup)) this.begin(msg.setup, m.localSeats, m.room);
+        break;
+      case 'move':
+        this.applyRemote(msg.seat, msg.move);
+        break;
+      case 'leave':
+        this.stopEngines();
+        this.next({
+          ...m, opponentLeft: true, phase: m.phase === 'idle' ? 'idle' : 'over',
+          result: m.phase === 'playing' ? { winner: m.localSeats[0], reason: 'Your opponent left the match.' } : m.result,
+        });
+        break;
+    }
+  }
+
+  private begin(setup: MatchSetup, localSeats: Seat[], room: string | null = null): void {
+    this.destroyEngines();
+    const race = setup.mode === 'race';
+    for (let i = 0; i < (race ? 2 : 1); i++) {
+      const scope = Injector.create({
+        providers: [GameService, { provide: GAME_PERSISTENCE, useValue: false }],
+        parent: this.injector,
+      });
+      const engine = scope.get(GameService);
+      // Race boards are laid out up front so both players get the same mines; Flags lays them
+      // out around the first click, which both sides replay identically.
+      engine.newGame(setup.rows, setup.cols, setup.mines, 'Custom', {
+        seed: setup.seed, topology: setup.topology,
+        firstClickCell: race ? setup.startCell : undefined, claimMines: !race,
+      });
+      this.scopes.push(scope);
+      this.engines.push(engine);
+      this.seenMoves.push(0);
+    }
+    this.flagScores = [0, 0];
+    this.next({ ...idleState(), phase: 'playing', setup, localSeats, room });
+    this.engines.forEach((engine, i) => this.engineSubs.add(engine.state$.subscribe(s => this.onEngineState(i, s))));
+  }
+
+  private applyRemote(seat: Seat, move: Move): void {
+    const m = this.snapshot;
+    if (m.phase !== 'playing' || (seat !== 0 && seat !== 1) || m.localSeats.includes(seat)) return;
+    if (m.setup!.mode === 'flags' && seat !== m.turn) return;
+    const engine = this.engine(seat), cell = { x: move?.x ?? -1, y: move?.y ?? -1 };
+    this.applyingRemote = true;
+    try {
+      switch (move?.kind) {
+        case 'reveal': engine.reveal(cell); break;
+        case 'flag': engine.toggleFlag(cell); break;
+        case 'question': engine.toggleQuestion(cell); break;
+        case 'chord': engine.chord(cell); break;
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /** Every engine update: pass on and score new moves, then check whether the match is decided. */
+  private onEngineState(index: number, s: GameState): void {
+    const m = this.snapshot;
+    if (m.phase !== 'playing') return;
+    let turn = m.turn;
+    if (s.moves.length > this.seenMoves[index]) {
+      this.seenMoves[index] = s.moves.length;
+      const move = s.moves[s.moves.length - 1];
+      const seat: Seat = m.setup!.mode === 'race' ? (index as Seat) : m.turn;
+      if (this.transport && !this.applyingRemote) this.transport.send({ type: 'move', seat, move });
+      if (m.setup!.mode === 'flags' && (move.kind === 'reveal' || move.kind === 'chord')) {
+        // Finding a mine earns another go; anything else hands the turn over.
+        let claimed = 0;
+        for (const i of s.board.changed ?? []) if (s.board.cells[i] & MINE) claimed++;
+        this.flagScores[seat] += claimed;
+        if (!claimed) turn = (1 - seat) as Seat;
+      }
+    }
+    const players = this.playerStates(m.setup!);
+    const result = this.decide(m.setup!, players);
+    if (result) this.stopEngines();
+    this.next({ ...m, players, turn, result, phase: result ? 'over' : 'playing' });
+  }
+
+  private playerStates(setup: MatchSetup): [PlayerState, PlayerState] {
+    const safeCells = setup.rows * setup.cols - setup.mines;
+    const player = (seat: Seat): PlayerState => {
+      const s = this.engine(seat).snapshot;
+      return {
+        name: setup.names[seat], status: s.status, elapsedMs: s.elapsedMs,
+        score: setup.mode === 'race' ? safeCells - s.board.safeLeft : this.flagScores[seat],
+      };
+    };
+    return [player(0), player(1)];
+  }
+
+  private decide(setup: MatchSetup, players: [PlayerState, PlayerState]): MatchResult | null {
+    const [a, b] = players;
+    if (setup.mode === 'race') {
+      // The first to clear wins; hitting a mine knocks a player out.
+      for (const seat of [0, 1] as Seat[]) {
+        const other = (1 - seat) as Seat;
+        if (players[seat].status === GameStatus.Won) return { winner: seat, reason: `${players[seat].name} cleared the board first.` };
+        if (players[seat].status === GameStatus.Lost) return { winner: other, reason: `${players[seat].name} hit a mine.` };
+      }
+      return null;
+    }
+    // Flags: a majority of the mines wins outright; otherwise play until none are left to find.
+    for (const seat of [0, 1] as Seat[]) {
+      if (players[seat].score * 2 > setup.mines) {
+        return { winner: seat, reason: `${players[seat].name} found ${players[seat].score} of ${setup.mines} mines.` };
+      }
+    }
+    if (a.score + b.score < setup.mines && a.status !== GameStatus.Won) return null;
+    if (a.score === b.score) return { winner: null, reason: `Both players found ${a.score} mines.` };
+    const winner: Seat = a.score > b.score ? 0 : 1;
+    return { winner, reason: `${players[winner].name} found more mines.` };
+  }
+
+  private stopEngines(): void {
+    for (const engine of this.engines) engine.pause();
+  }
+
+  private destroyEngines(): void {
+    this.engineSubs.unsubscribe();
+    this.engineSubs = new Subscription();
+    for (const scope of this.scopes) scope.destroy();
+    this.scopes = [];
+    this.engines = [];
+    this.seenMoves = [];
+  }
+
+  private next(state: MatchState): void { this._state$.next(state); }
+}
+
+/** A setup from another tab is only trusted as far as it describes a playable board. */
+function isSetup(s: MatchSetup): boolean {
+  return !!s && MODES.includes(s.mode) && TOPOLOGY_KINDS.includes(s.topology) && Number.isInteger(s.seed)
+    && !validateBoardConfig(s).length && Array.isArray(s.names) && s.names.length === 2
+    && !!s.startCell && Number.isInteger(s.startCell.x) && Number.isInteger(s.startCell.y)
+    && s.startCell.x >= 0 && s.startCell.x < s.cols && s.startCell.y >= 0 && s.startCell.y < s.rows;
+}
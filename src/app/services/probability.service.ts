@@ -0,0 +1,58 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { Board, MINE, REVEALED, toTiles } from '../models/board';
+import { TopologyKind } from '../models/topology';
+import { mineProbabilities } from '../solver/solver';
+import { ProbabilityRequest, ProbabilityResponse } from '../solver/probability-messages';
+
+export type ProbabilityMap = (number | null)[][];
+
+/**
+ * Mine probabilities for the analysis overlay. Full frontier enumeration can take a while on
+ * Expert, so it runs in a Web Worker; where workers are unavailable it falls back to the main thread.
+ */
+@Injectable({ providedIn: 'root' })
+export class ProbabilityService implements OnDestroy {
+  private worker?: Worker;
+  private nextId = 0;
+
+  constructor() {
+    if (typeof Worker !== 'undefined') {
+      this.worker = new Worker(new URL('../solver/probability.worker', import.meta.url), { type: 'module' });
+    }
+  }
+
+  ngOnDestroy(): void { this.worker?.terminate(); }
+
+  /**
+   * Emits once with the probability of every hidden, unflagged cell (null elsewhere), respecting
+   * the global mine count. Unsubscribing drops the answer to a stale request.
+   */
+  compute(board: Board, mines: number, topology: TopologyKind): Observable<ProbabilityMap> {
+    // Only visible information leaves this service: hidden cells lose their mine bit and count.
+    const cells = board.cells.slice(), adjacent = board.adjacent.slice();
+    for (let i = 0; i < cells.length; i++) {
+      if (!(cells[i] & REVEALED)) { cells[i] &= ~MINE; adjacent[i] = 0; }
+    }
+    const visible: Board = { ...board, cells, adjacent, base: null, changed: null };
+    const worker = this.worker;
+    if (!worker) return of(mineProbabilities(toTiles(visible), mines, topology));
+
+    const request: ProbabilityRequest = { id: ++this.nextId, board: visible, mines, topology };
+    return new Observable<ProbabilityMap>(subscriber => {
+      const onMessage = ({ data }: MessageEvent<ProbabilityResponse>) => {
+        if (data.id !== request.id) return;
+        subscriber.next(data.probabilities);
+        subscriber.complete();
+      };
+      const onError = (e: ErrorEvent) => subscriber.error(e);
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      worker.postMessage(request);
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+      };
+    });
+  }
+}
@@ -0,0 +1,261 @@
+import { Injectable, inject } from '@angular/core';
+import { ACHIEVEMENT_IDS, AchievementRecord } from '../models/achievement';
+import { DailyResult } from '../models/daily';
+import { Difficulty } from '../models/game-state';
+import {
+  ImportMode, ImportReport, PROFILE_FORMAT, PROFILE_SECTIONS, PROFILE_VERSION, Profile, ProfileSection,
+} from '../models/profile';
+import { DEFAULT_SETTINGS, Settings } from '../models/settings';
+import { GameRecord } from '../models/stats';
+import { TOPOLOGY_KINDS } from '../models/topology';
+import { validateBoardConfig } from '../utils/board-config';
+import { isDailyKey } from '../utils/daily';
+import { isObject, isOneOf } from '../utils/guards';
+import { AchievementService, sanitizeAchievements } from './achievement.service';
+import { CustomPresetsService } from './custom-presets.service';
+import { DailyService } from './daily.service';
+import { SettingsService, sanitizeSettings } from './settings.service';
+import { StatsService } from './stats.service';
+
+/** How long a reset can be taken back. */
+export const RESET_UNDO_MS = 10_000;
+
+const DIFFICULTIES: Difficulty[] = ['Beginner', 'Intermediate', 'Expert', 'Daily', 'Custom'];
+/** Problems listed in an import error before the rest are summed up. */
+const MAX_PROBLEMS = 5;
+
+export class ProfileImportError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.join(' '));
+    this.name = 'ProfileImportError';
+  }
+}
+
+/** The whole local profile (settings, statistics, dailies, presets, achievements) as one versioned file. */
+@Injectable({ providedIn: 'root' })
+export class ProfileService {
+  private readonly settings = inject(SettingsService);
+  private readonly stats = inject(StatsService);
+  private readonly daily = inject(DailyService);
+  private readonly presets = inject(CustomPresetsService);
+  private readonly achievements = inject(AchievementService);
+  /** What the last reset removed, until its undo window closes. */
+  private backup: { profile: Profile; sections: ProfileSection[]; until: number } | null = null;
+
+  snapshot(): Profile {
+    return {
+      format: PROFILE_FORMAT, version: PROFILE_VERSION, exportedAt: new Date().toISOString(),
+      settings: this.settings.snapshot,
+      stats: [...this.stats.records],
+      daily: [...this.daily.history()].reverse(),
+      customPresets: [...this.presets.list],
+      achievements: this.achievements.export(),
+    };
+  }
+
+  serialize(profile: Profile = this.snapshot()): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  /** Parse and validate a profile file; throws a `ProfileImportError` listing what is wrong with it. */
+  parse(json: string): Profile {
+    let parsed: unknown;
+    try { parsed = JSON.parse(json); } catch { throw new ProfileImportError(['The file is not valid JSON.']); }
+    if (!isObject(parsed) || parsed['format'] !== PROFILE_FORMAT) {
+      throw new ProfileImportError(['This is not a Minesweeper profile file.']);
+    }
+    const data = parsed;
+    if (data['version'] !== PROFILE_VERSION) {
+      throw new ProfileImportError([`Unsupported profile version: ${String(data['version'])}.`]);
+    }
+
+    const problems: string[] = [];
+    const list = <T>(section: ProfileSection, valid: (v: unknown) => v is T): T[] => {
+      const items: unknown = data[section];
+      if (!Array.isArray(items)) {
+        problems.push(`"${section}" must be a list.`);
+        return [];
+      }
+      items.forEach((item, i) => { if (!valid(item)) problems.push(`${section} entry ${i + 1} is invalid.`); });
+      return items.filter(valid);
+    };
+    const stats = list('stats', isGameRecord);
+    const daily = list('daily', isDailyResult);
+    const customPresets = list('customPresets', isCustomPreset);
+    const settings = data['settings'];
+    if (!isObject(settings)) problems.push('"settings" must be an object.');
+    const achievements = data['achievements'];
+    if (!isObject(achievements) || !isObject(achievements['progress']) || !isObject(achievements['unlocked'])) {
+      problems.push('"achievements" must hold "progress" and "unlocked" objects.');
+    }
+    if (problems.length > MAX_PROBLEMS) {
+      problems.splice(MAX_PROBLEMS, problems.length, `…and ${problems.length - MAX_PROBLEMS} more problems.`);
+    }
+    if (problems.length) throw new ProfileImportError(problems);
+
+    return {
+      format: PROFILE_FORMAT, version: PROFILE_VERSION, exportedAt: String(data['exportedAt'] ?? ''),
+      // Both sanitizers check every field they keep and fall back to defaults for the rest.
+      settings: sanitizeSettings(settings as Partial<Settings>), stats, daily, customPresets,
+      achievements: sanitizeAchievements(achievements as Partial<AchievementRecord>),
+    };
+  }
+
+  /** Bring an imported profile in, merged with this browser's or in place of it, and say what happened. */
+  import(incoming: Profile, mode: ImportMode): ImportReport {
+    const { profile, report } = mode === 'merge'
+      ? mergeProfiles(this.snapshot(), incoming)
+      : { profile: incoming, report: replaceReport(incoming) };
+    this.apply(profile, PROFILE_SECTIONS);
+    return report;
+  }
+
+  /** Wipe `sections` back to a fresh start. `undoReset` brings them back for `RESET_UNDO_MS`. */
+  reset(sections: ProfileSection[] = PROFILE_SECTIONS): void {
+    this.backup = { profile: this.snapshot(), sections, until: Date.now() + RESET_UNDO_MS };
+    this.apply({
+      format: PROFILE_FORMAT, version: PROFILE_VERSION, exportedAt: '',
+      settings: DEFAULT_SETTINGS, stats: [], daily: [], customPresets: [],
+      achievements: { progress: {}, unlocked: {} },
+    }, sections);
+  }
+
+  get canUndoReset(): boolean { return !!this.backup && Date.now() < this.backup.until; }
+
+  /** Put back what the last reset removed. Returns false once the undo window has closed. */
+  undoReset(): boolean {
+    if (!this.canUndoReset) return false;
+    const { profile, sections } = this.backup!;
+    this.backup = null;
+    this.apply(profile, sections);
+    return true;
+  }
+
+  private apply(profile: Profile, sections: readonly ProfileSection[]): void {
+    if (sections.includes('settings')) this.settings.restore(profile.settings);
+    if (sections.includes('stats')) this.stats.restore(profile.stats);
+    if (sections.includes('daily')) this.daily.restore(profile.daily);
+    if (sections.includes('customPresets')) this.presets.restore(profile.customPresets);
+    if (sections.includes('achievements')) this.achievements.restore(profile.achievements);
+  }
+}
+
+/**
+ * `local` with whatever `incoming` adds. Where both have an entry (a day's daily result, a preset
+ * name, the settings) and they differ, the local one stays and a conflict is reported; achievements
+ * keep the higher progress and the earlier unlock.
+ */
+export function mergeProfiles(local: Profile, incoming: Profile): { profile: Profile; report: ImportReport } {
+  const report: ImportReport = { mode: 'merge', added: emptyCounts(), duplicates: 0, conflicts: [] };
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  const seen = new Set(local.stats.map(recordKey));
+  const stats = [...local.stats];
+  for (const g of incoming.stats) {
+    if (seen.has(recordKey(g))) { report.duplicates++; continue; }
+    seen.add(recordKey(g));
+    stats.push(g);
+    report.added.stats++;
+  }
+  stats.sort((a, b) => a.date.localeCompare(b.date));
+
+  /** Entries keyed by `key`: new ones are added, differing ones reported. */
+  const byKey = <T>(
+    section: ProfileSection, mine: T[], theirs: T[], key: (v: T) => string, describe: (v: T) => string,
+  ): T[] => {
+    const merged = new Map(mine.map(v => [key(v), v]));
+    for (const v of theirs) {
+      const existing = merged.get(key(v));
+      if (!existing) {
+        merged.set(key(v), v);
+        report.added[section]++;
+      } else if (same(existing, v)) {
+        report.duplicates++;
+      } else {
+        report.conflicts.push({
+          section, key: key(v), detail: `Kept ${describe(existing)} here; the file has ${describe(v)}.`,
+        });
+      }
+    }
+    return [...merged.values()];
+  };
+  const daily = byKey('daily', local.daily, incoming.daily, r => r.date, describeDaily)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const customPresets = byKey('customPresets', local.customPresets, incoming.customPresets, p => p.name,
+    p => `${p.rows}×${p.cols} with ${p.mines} mines`);
+
+  for (const key of Object.keys(local.settings) as (keyof Settings)[]) {
+    const mine = JSON.stringify(local.settings[key]), theirs = JSON.stringify(incoming.settings[key]);
+    if (mine === theirs) continue;
+    report.conflicts.push({ section: 'settings', key, detail: `Kept ${mine} here; the file has ${theirs}.` });
+  }
+
+  const achievements: AchievementRecord = {
+    progress: { ...local.achievements.progress }, unlocked: { ...local.achievements.unlocked },
+  };
+  for (const id of ACHIEVEMENT_IDS) {
+    const progress = incoming.achievements.progress[id], unlocked = incoming.achievements.unlocked[id];
+    if (progress !== undefined) achievements.progress[id] = Math.max(progress, achievements.progress[id] ?? 0);
+    if (unlocked === undefined) continue;
+    const mine = achievements.unlocked[id];
+    if (mine === undefined) report.added.achievements++;
+    if (mine === undefined || Date.parse(unlocked) < Date.parse(mine)) achievements.unlocked[id] = unlocked;
+  }
+
+  return {
+    profile: { ...local, stats, daily, customPresets, achievements },
+    report,
+  };
+}
+
+function replaceReport(p: Profile): ImportReport {
+  return {
+    mode: 'replace', duplicates: 0, conflicts: [],
+    added: {
+      settings: 1, stats: p.stats.length, daily: p.daily.length, customPresets: p.customPresets.length,
+      achievements: Object.keys(p.achievements.unlocked).length,
+    },
+  };
+}
+
+function emptyCounts(): Record<ProfileSection, number> {
+  return { settings: 0, stats: 0, daily: 0, customPresets: 0, achievements: 0 };
+}
+
+/** The same game recorded in two browsers' copies of a profile. */
+function recordKey(g: GameRecord): string {
+  return [g.date, g.difficulty, g.rows, g.cols, g.mines, g.topology ?? 'square', g.won, g.timeMs].join('|');
+}
+
+function describeDaily(r: DailyResult): string {
+  return r.won ? `a win in ${(r.timeMs / 1000).toFixed(1)}s` : r.abandoned ? 'an abandoned board' : 'a loss';
+}
+
+// ---------- schema ----------
+
+const count = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+const countOrNull = (v: unknown) => v === null || count(v);
+const optional = (v: unknown, test: (v: unknown) => boolean) => v === undefined || test(v);
+const bool = (v: unknown) => typeof v === 'boolean';
+
+function isGameRecord(g: unknown): g is GameRecord {
+  return isObject(g) && typeof g['date'] === 'string' && !isNaN(Date.parse(g['date']))
+    && isOneOf(g['difficulty'], DIFFICULTIES) && count(g['rows']) && count(g['cols']) && count(g['mines'])
+    && optional(g['topology'], t => isOneOf(t, TOPOLOGY_KINDS))
+    && bool(g['noGuess']) && bool(g['won']) && bool(g['ranked']) && count(g['timeMs'])
+    && countOrNull(g['clicks']) && countOrNull(g['hintsUsed']) && countOrNull(g['bbbv'])
+    && optional(g['wastedClicks'], count) && optional(g['solvedBbbv'], count) && optional(g['migrated'], bool);
+}
+
+function isDailyResult(r: unknown): r is DailyResult {
+  return isObject(r) && isDailyKey(r['date']) && bool(r['won']) && bool(r['abandoned']) && bool(r['practice'])
+    && count(r['timeMs']) && typeof r['cleared'] === 'number' && r['cleared'] >= 0 && r['cleared'] <= 1
+    && count(r['bbbv']) && count(r['hintsUsed']);
+}
+
+function isCustomPreset(p: unknown): p is Profile['customPresets'][number] {
+  if (!isObject(p) || typeof p['name'] !== 'string' || !p['name'].trim()) return false;
+  const { rows, cols, mines } = p;
+  return count(rows) && count(cols) && count(mines)
+    && validateBoardConfig({ rows, cols, mines }).length === 0;
+}
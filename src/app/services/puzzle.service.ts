@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { Puzzle, isPuzzle, validatePuzzle } from '../models/puzzle';
+import { puzzleId } from '../utils/puzzle-code';
+
+const STORAGE_KEY = 'ms-puzzles';
+const STORAGE_VERSION = 1;
+/** Solve times kept per puzzle, most recent last. */
+const MAX_TIMES = 50;
+
+interface StoredPuzzles {
+  version: number;
+  puzzles: Puzzle[];
+  /** Winning times in ms by `puzzleId`, apart from the `Difficulty` best times in statistics. */
+  times: Record<string, number[]>;
+}
+
+/** Puzzles saved from the editor and the times they were solved in, kept in localStorage. */
+@Injectable({ providedIn: 'root' })
+export class PuzzleService {
+  private stored: StoredPuzzles = this.load();
+
+  get list(): readonly Puzzle[] { return this.stored.puzzles; }
+
+  /** Save (or overwrite by name) a puzzle; unplayable ones are rejected. */
+  save(puzzle: Puzzle): boolean {
+    const name = puzzle.name.trim();
+    if (!name || validatePuzzle(puzzle).length) return false;
+    const { rows, cols, topology, mines, revealed } = puzzle;
+    const saved = { name, rows, cols, topology, mines: [...mines], revealed: [...revealed] };
+    this.stored.puzzles = [...this.stored.puzzles.filter(p => p.name !== name), saved];
+    this.persist();
+    return true;
+  }
+
+  remove(name: string): void {
+    this.stored.puzzles = this.stored.puzzles.filter(p => p.name !== name);
+    this.persist();
+  }
+
+  /** Note a win on a puzzle layout, whichever name it was played under. */
+  recordSolve(puzzle: Puzzle, elapsedMs: number): void {
+    const id = puzzleId(puzzle);
+    this.stored.times[id] = [...(this.stored.times[id] ?? []), Math.round(elapsedMs)].slice(-MAX_TIMES);
+    this.persist();
+  }
+
+  /** Every recorded solve of a layout, oldest first. */
+  timesMs(puzzle: Puzzle): readonly number[] {
+    return this.stored.times[puzzleId(puzzle)] ?? [];
+  }
+
+  bestTimeMs(puzzle: Puzzle): number | null {
+    const times = this.timesMs(puzzle);
+    return times.length ? Math.min(...times) : null;
+  }
+
+  private load(): StoredPuzzles {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      if (stored?.version === STORAGE_VERSION && Array.isArray(stored.puzzles)) {
+        const times: Record<string, number[]> = {};
+        for (const [id, list] of Object.entries(stored.times ?? {})) {
+          if (Array.isArray(list)) times[id] = list.filter(t => Number.isInteger(t) && t >= 0);
+        }
+        return { version: STORAGE_VERSION, puzzles: stored.puzzles.filter(isPuzzle), times };
+      }
+    } catch {}
+    return { version: STORAGE_VERSION, puzzles: [], times: {} };
+  }
+
+  private persist(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stored));
+  }
+}
@@ -0,0 +1,112 @@
+import { DestroyRef, Injectable, inject, isDevMode } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+/** What the app shell can offer about installing and updating. */
+export interface PwaState {
+  /** A newer version is downloaded and takes over on reload. */
+  updateAvailable: boolean;
+  /** The browser offered to install the app and is waiting for a click. */
+  installable: boolean;
+  /** The app is cached and will start without a network. */
+  offlineReady: boolean;
+}
+
+/** Chromium's install prompt, which lib.dom doesn't describe. */
+interface InstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  readonly userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/** Served from `public/`; see there for the caching rules. */
+const WORKER_URL = '/sw.js';
+
+/**
+ * Registers the service worker that keeps the app playable offline, and reports when a new version
+ * is ready or the app can be installed. Browsers without service workers just run online.
+ */
+@Injectable({ providedIn: 'root' })
+export class PwaService {
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly _state$ = new BehaviorSubject<PwaState>({ updateAvailable: false, installable: false, offlineReady: false });
+  readonly state$ = this._state$.asObservable();
+  private registration: ServiceWorkerRegistration | null = null;
+  private installPrompt: InstallPromptEvent | null = null;
+  private started = false;
+
+  get snapshot(): PwaState { return this._state$.getValue(); }
+
+  /** Register the worker and listen for updates and install offers. Call once at startup. */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    // A caching worker would serve stale bundles to `ng serve`.
+    if (isDevMode() || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+    const onInstallPrompt = (e: Event) => {
+      e.preventDefault();
+      this.installPrompt = e as InstallPromptEvent;
+      this.set({ installable: true });
+    };
+    const onInstalled = () => {
+      this.installPrompt = null;
+      this.set({ installable: false });
+    };
+    // The worker saw a new index.html while serving the cached one.
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'update-available') this.set({ updateAvailable: true });
+    };
+    window.addEventListener('beforeinstallprompt', onInstallPrompt);
+    window.addEventListener('appinstalled', onInstalled);
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    // Deliver messages the worker sent while the app was still starting.
+    navigator.serviceWorker.startMessages();
+    this.destroyRef.onDestroy(() => {
+      window.removeEventListener('beforeinstallprompt', onInstallPrompt);
+      window.removeEventListener('appinstalled', onInstalled);
+      navigator.serviceWorker.removeEventListener('message', onMessage);
+    });
+
+    navigator.serviceWorker.register(WORKER_URL).then(registration => {
+      this.registration = registration;
+      if (registration.waiting && navigator.serviceWorker.controller) this.set({ updateAvailable: true });
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state !== 'installed') return;
+          // With a controller this is an update; without one, the first install.
+          if (navigator.serviceWorker.controller) this.set({ updateAvailable: true });
+          else this.set({ offlineReady: true });
+        });
+      });
+    }, err => console.warn('Service worker registration failed; the app works online only.', err));
+  }
+
+  /** Switch to the new version: a waiting worker takes over, then the page reloads. */
+  applyUpdate(): void {
+    const waiting = this.registration?.waiting;
+    if (!waiting) {
+      // Only the app files changed; the worker drops old bundles and the reload fetches new ones.
+      navigator.serviceWorker.controller?.postMessage({ type: 'drop-assets' });
+      location.reload();
+      return;
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', () => location.reload(), { once: true });
+    waiting.postMessage({ type: 'skip-waiting' });
+  }
+
+  dismissUpdate(): void { this.set({ updateAvailable: false }); }
+  dismissOfflineReady(): void { this.set({ offlineReady: false }); }
+
+  /** Show the browser's install dialog, if it offered one. */
+  async install(): Promise<void> {
+    const prompt = this.installPrompt;
+    if (!prompt) return;
+    this.installPrompt = null;
+    this.set({ installable: false });
+    await prompt.prompt();
+  }
+
+  private set(changes: Partial<PwaState>): void {
+    this._state$.next({ ...this.snapshot, ...changes });
+  }
+}
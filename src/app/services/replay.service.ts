@@ -0,0 +1,120 @@
+import { Injectable, Injector, inject } from '@angular/core';
+import { timeUp } from '../engine/game-engine';
+import { mineIndices } from '../models/board';
+import { Difficulty, GameState, GameStatus } from '../models/game-state';
+import { Move, MoveKind, Replay } from '../models/replay';
+import { TimeLimit } from '../models/time-mode';
+import { Cell, TOPOLOGY_KINDS } from '../models/topology';
+import { isObject, isOneOf } from '../utils/guards';
+import { GAME_PERSISTENCE, GameService } from './game.service';
+
+const DIFFICULTIES: Difficulty[] = ['Beginner', 'Intermediate', 'Expert', 'Daily', 'Custom'];
+/** Keyed by kind, so a new `MoveKind` can't be left out of what imports accept. */
+const MOVE_KIND_SET: Record<MoveKind, true> = {
+  reveal: true, flag: true, question: true, chord: true, hint: true, undo: true,
+};
+const MOVE_KINDS = Object.keys(MOVE_KIND_SET) as MoveKind[];
+const STATUSES = Object.values(GameStatus);
+
+/** Replay import/export and frame reconstruction. */
+@Injectable({ providedIn: 'root' })
+export class ReplayService {
+  private readonly injector = inject(Injector);
+
+  serialize(replay: Replay): string {
+    return JSON.stringify(replay, null, 2);
+  }
+
+  /** Parse and validate replay JSON; throws an Error naming the first problem found. */
+  parse(json: string): Replay {
+    let parsed: unknown;
+    try { parsed = JSON.parse(json); } catch { throw new Error('Replay is not valid JSON.'); }
+    if (!isObject(parsed)) throw new Error('Replay must be a JSON object.');
+    const data = parsed;
+    const version = data['version'];
+    if (version !== 1 && version !== 2) throw new Error(`Unsupported replay version: ${String(version)}.`);
+
+    const int = (v: unknown, min = 0): v is number => typeof v === 'number' && Number.isInteger(v) && v >= min;
+    const { rows, cols, mines, seed, elapsedMs } = data;
+    if (!int(rows, 1) || !int(cols, 1) || !int(mines) || !int(seed) || !int(elapsedMs)) {
+      throw new Error('Replay has invalid board dimensions, mine count, seed or time.');
+    }
+    const { difficulty, status } = data;
+    if (!isOneOf(difficulty, DIFFICULTIES)) throw new Error(`Unknown difficulty: ${String(difficulty)}.`);
+    if (!isOneOf(status, STATUSES)) throw new Error(`Unknown game status: ${String(status)}.`);
+    // Replays from before topologies existed are square boards.
+    const topology = data['topology'] ?? 'square';
+    if (!isOneOf(topology, TOPOLOGY_KINDS)) throw new Error(`Unknown board topology: ${String(topology)}.`);
+    // Only version 2 records a countdown; without one the game counted up.
+    const timeLimit = version === 2 ? data['timeLimit'] : undefined;
+    const isTimeLimit = (v: unknown): v is TimeLimit => isObject(v) && int(v['ms'], 1) && int(v['bonusPerCellMs']);
+    if (timeLimit !== undefined && !isTimeLimit(timeLimit)) {
+      throw new Error('Replay has an invalid time limit.');
+    }
+    const inBoard = (c: unknown): c is Cell =>
+      isObject(c) && int(c['x']) && int(c['y']) && c['x'] < cols && c['y'] < rows;
+    const isMove = (m: unknown): m is Move => isObject(m) && isOneOf(m['kind'], MOVE_KINDS) && int(m['t'])
+      && (m['kind'] === 'hint' || m['kind'] === 'undo' || inBoard(m));
+
+    const { firstClickCell, mineLayout, moves } = data;
+    if (!inBoard(firstClickCell)) throw new Error('Replay has an invalid first-click cell.');
+    const isCellList = (v: unknown): v is number[] => Array.isArray(v) && v.every(i => int(i) && i < rows * cols);
+    if (!isCellList(mineLayout) || mineLayout.length !== mines) {
+      throw new Error('Replay mine layout does not match its mine count.');
+    }
+    if (!Array.isArray(moves)) throw new Error('Replay has no move list.');
+    const checked = moves.map((m: unknown, i) => {
+      if (!isMove(m)) throw new Error(`Move ${i + 1} is invalid.`);
+      return { ...m };
+    });
+    return {
+      version, difficulty, rows, cols, mines, topology, seed, noGuess: !!data['noGuess'],
+      ...(timeLimit ? { timeLimit: { ms: timeLimit.ms, bonusPerCellMs: timeLimit.bonusPerCellMs } } : {}),
+      firstClickCell: { x: firstClickCell.x, y: firstClickCell.y }, mineLayout,
+      moves: checked, status, elapsedMs, practice: !!data['practice'],
+    };
+  }
+
+  /**
+   * Re-play every move on a private game that never touches statistics: frames[0] is the board before the first move,
+   * frames[i] the board after move i. A time-attack game lost on time gets one more frame, where the
+   * countdown runs out. Throws if the seed doesn't reproduce the recorded mines.
+   */
+  frames(replay: Replay): GameState[] {
+    const scope = Injector.create({
+      providers: [GameService, { provide: GAME_PERSISTENCE, useValue: false }],
+      parent: this.injector,
+    });
+    const engine = scope.get(GameService);
+    try {
+      engine.newGame(replay.rows, replay.cols, replay.mines, replay.difficulty, {
+        seed: replay.seed, firstClickCell: replay.firstClickCell, noGuess: replay.noGuess, topology: replay.topology,
+        timeLimit: replay.timeLimit,
+      });
+      const mines = mineIndices(engine.snapshot.board);
+      const expected = [...replay.mineLayout].sort((a, b) => a - b);
+      if (mines.join() !== expected.join()) throw new Error('Replay mine layout does not match its seed.');
+
+      const frames = [engine.snapshot];
+      for (const m of replay.moves) {
+        const cell = { x: m.x ?? 0, y: m.y ?? 0 };
+        switch (m.kind) {
+          case 'reveal': engine.reveal(cell); break;
+          case 'flag': engine.toggleFlag(cell); break;
+          case 'question': engine.toggleQuestion(cell); break;
+          case 'chord': engine.chord(cell); break;
+          case 'hint': engine.useHint(); break;
+          case 'undo': engine.undo(); break;
+        }
+        frames.push(engine.snapshot);
+      }
+      const last = engine.snapshot;
+      if (replay.timeLimit && replay.status === GameStatus.Lost && last.status === GameStatus.Playing) {
+        frames.push(timeUp(last, replay.elapsedMs).state);
+      }
+      return frames;
+    } finally {
+      scope.destroy();
+    }
+  }
+}
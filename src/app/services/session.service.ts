@@ -0,0 +1,157 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { distinctUntilChanged } from 'rxjs';
+import { Board, FLAGGED, MINE, QUESTION, REVEALED, countAdjacent } from '../models/board';
+import { ClickCounts, Difficulty, GameState, GameStatus } from '../models/game-state';
+import { Move, MoveKind } from '../models/replay';
+import { TOPOLOGY_KINDS } from '../models/topology';
+import { TimeLimit } from '../models/time-mode';
+import { isPuzzle } from '../models/puzzle';
+import { validateBoardConfig } from '../utils/board-config';
+import { isDailyKey } from '../utils/daily';
+import { solvedThreeBV, threeBV } from '../utils/metrics';
+import { GameService } from './game.service';
+
+const STORAGE_KEY = 'ms-active-game';
+const STORAGE_VERSION = 1;
+const DIFFICULTIES: Difficulty[] = ['Beginner', 'Intermediate', 'Expert', 'Daily', 'Custom'];
+const MOVE_KINDS: MoveKind[] = ['reveal', 'flag', 'question', 'chord', 'hint', 'undo'];
+
+interface StoredGame extends Omit<GameState, 'board' | 'hint' | 'paused' | 'bbbv' | 'solvedBbbv'> {
+  version: number;
+  /** One character per cell, row-major: the `Board.cells` bits (mine = 1, revealed = 2, flagged = 4, `?` = 8). */
+  cells: string;
+}
+
+/**
+ * Keeps the in-progress game in localStorage so a reload picks it up again, and stops the clock
+ * while the page is hidden. Elapsed time is saved, not timestamps, so time away never counts.
+ */
+@Injectable({ providedIn: 'root' })
+export class SessionService {
+  private readonly game = inject(GameService);
+  private readonly destroyRef = inject(DestroyRef);
+  private started = false;
+
+  /** Resume any saved game, then keep the save current. Call once at startup. */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    const saved = this.load();
+    if (saved) this.game.restore(saved);
+
+    // Timer ticks only change elapsedMs; everything else is worth a write.
+    const sub = this.game.state$.pipe(distinctUntilChanged((a, b) =>
+      a.board === b.board && a.moves === b.moves && a.clicks === b.clicks && a.status === b.status &&
+      a.hintsLeft === b.hintsLeft && a.paused === b.paused && a.analysis === b.analysis,
+    )).subscribe(s => this.save(s));
+
+    const onVisibility = () => document.hidden ? this.game.pause('page') : this.game.resume('page');
+    const onPageHide = () => this.game.pause('page');
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('pagehide', onPageHide);
+    this.destroyRef.onDestroy(() => {
+      sub.unsubscribe();
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('pagehide', onPageHide);
+    });
+  }
+
+  /** Forget the saved game without touching the one on screen. */
+  discard(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  // ---------- storage ----------
+
+  private save(s: GameState): void {
+    if (s.status !== GameStatus.Playing) { this.discard(); return; }
+    const { board, hint, paused, bbbv, solvedBbbv, ...rest } = s;
+    const stored: StoredGame = {
+      ...rest,
+      version: STORAGE_VERSION,
+      elapsedMs: this.game.elapsedMs,
+      cells: board.cells.join(''),
+    };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // Quota exceeded: losing the save is better than breaking the game.
+    }
+  }
+
+  private load(): GameState | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) return null;
+    let state: GameState | null = null;
+    try { state = this.decode(JSON.parse(raw)); } catch {}
+    // Corrupt, tampered or unknown-version saves are dropped rather than half-restored.
+    if (!state) this.discard();
+    return state;
+  }
+
+  private decode(d: StoredGame): GameState | null {
+    if (d?.version !== STORAGE_VERSION || d.status !== GameStatus.Playing) return null;
+    const { rows, cols, mines } = d;
+    // Puzzles place their mines by hand, so they answer to their own limits and have no first click.
+    const puzzle = isPuzzle(d.puzzle) && d.puzzle.rows === rows && d.puzzle.cols === cols ? d.puzzle : undefined;
+    if (d.puzzle !== undefined && !puzzle) return null;
+    if (!puzzle && validateBoardConfig({ rows, cols, mines }).length) return null;
+    if (typeof d.cells !== 'string' || d.cells.length !== rows * cols || !/^[0-9]*$/.test(d.cells)) return null;
+    if (!DIFFICULTIES.includes(d.difficulty) || !Number.isInteger(d.seed)) return null;
+    if ((d.difficulty === 'Daily') !== isDailyKey(d.daily)) return null;
+    // Saves from before topologies existed are square boards.
+    const topology = d.topology ?? 'square';
+    if (!TOPOLOGY_KINDS.includes(topology)) return null;
+    if (!isCount(d.elapsedMs) || !isCount(d.hintsLeft) || !isCount(d.flagsPlaced)) return null;
+    if (!Array.isArray(d.moves) || !d.moves.every(isMove)) return null;
+    const start = d.firstClickCell;
+    if (!puzzle && (!start || !isCount(start.x) || !isCount(start.y) || start.x >= cols || start.y >= rows)) return null;
+
+    const cells = Uint8Array.from(d.cells, Number);
+    let mineCount = 0, flagCount = 0, safeLeft = 0;
+    for (const bits of cells) {
+      // At most one of revealed, flagged and `?`.
+      const states = bits & (REVEALED | FLAGGED | QUESTION);
+      if (states & (states - 1)) return null;
+      if (bits & MINE) mineCount++;
+      else if (!(bits & REVEALED)) safeLeft++;
+      if (bits & FLAGGED) flagCount++;
+    }
+    if (mineCount !== mines || flagCount !== d.flagsPlaced) return null;
+    const board: Board = {
+      rows, cols, cells, adjacent: countAdjacent(cells, rows, cols, topology), safeLeft, base: null, changed: null,
+    };
+
+    return {
+      board, rows, cols, mines, difficulty: d.difficulty, topology,
+      bbbv: threeBV(board, topology), solvedBbbv: solvedThreeBV(board, topology),
+      // Saves from before click counting start from zero.
+      clicks: isClickCounts(d.clicks) ? d.clicks : { left: 0, right: 0, chord: 0, wasted: 0 },
+      flagsPlaced: d.flagsPlaced, minesLeft: Math.max(0, mines - d.flagsPlaced),
+      status: GameStatus.Playing, firstClick: false,
+      elapsedMs: d.elapsedMs, hintsLeft: d.hintsLeft,
+      seed: d.seed, firstClickCell: puzzle || !start ? undefined : { x: start.x, y: start.y },
+      noGuess: !!d.noGuess, noGuessVerified: typeof d.noGuessVerified === 'boolean' ? d.noGuessVerified : undefined,
+      moves: d.moves, practice: !!d.practice, paused: false, analysis: !!d.analysis, claimMines: false,
+      endedBefore: d.endedBefore === true,
+      daily: d.daily, timeLimit: isTimeLimit(d.timeLimit) ? d.timeLimit : undefined, puzzle,
+    };
+  }
+}
+
+function isCount(n: unknown): n is number {
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0;
+}
+
+function isClickCounts(c: Partial<ClickCounts> | undefined): c is ClickCounts {
+  return !!c && isCount(c.left) && isCount(c.right) && isCount(c.chord) && isCount(c.wasted);
+}
+
+function isTimeLimit(l: Partial<TimeLimit> | undefined): l is TimeLimit {
+  return !!l && isCount(l.ms) && isCount(l.bonusPerCellMs);
+}
+
+function isMove(m: Move): boolean {
+  return !!m && MOVE_KINDS.includes(m.kind) && typeof m.t === 'number'
+    && (m.x === undefined || isCount(m.x)) && (m.y === undefined || isCount(m.y));
+}
@@ -0,0 +1,114 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import {
+  DEFAULT_SETTINGS, KEY_ACTIONS, KeyAction, LONG_PRESS_LIMITS, MOTION_CHOICES, RESERVED_KEYS, Settings,
+} from '../models/settings';
+import { THEME_IDS } from '../models/theme';
+
+const STORAGE_KEY = 'ms-settings';
+const STORAGE_VERSION = 1;
+
+interface StoredSettings extends Settings {
+  version: number;
+}
+
+/** Input and display preferences, persisted locally. Unknown or invalid stored values fall back to their defaults. */
+@Injectable({ providedIn: 'root' })
+export class SettingsService {
+  private readonly _settings$ = new BehaviorSubject<Settings>(this.load());
+  readonly settings$ = this._settings$.asObservable();
+
+  get snapshot(): Settings { return this._settings$.getValue(); }
+
+  update(changes: Partial<Omit<Settings, 'keys'>>): void {
+    this.next(sanitizeSettings({ ...this.snapshot, ...changes }));
+  }
+
+  /**
+   * Bind `key` to `action`, taking it away from any other action. Returns false for board
+   * navigation keys, which can't be rebound.
+   */
+  bindKey(action: KeyAction, key: string): boolean {
+    const k = normalizeKey(key);
+    if (RESERVED_KEYS.includes(k)) return false;
+    const keys = { ...this.snapshot.keys };
+    for (const a of KEY_ACTIONS) keys[a] = keys[a].filter(bound => bound !== k);
+    keys[action] = [...keys[action], k];
+    this.next({ ...this.snapshot, keys });
+    return true;
+  }
+
+  unbindKey(action: KeyAction, key: string): void {
+    const keys = { ...this.snapshot.keys, [action]: this.snapshot.keys[action].filter(k => k !== normalizeKey(key)) };
+    this.next({ ...this.snapshot, keys });
+  }
+
+  reset(): void { this.next(DEFAULT_SETTINGS); }
+
+  /** Replace all settings, e.g. from an imported profile; invalid values fall back to their defaults. */
+  restore(settings: Partial<Settings>): void { this.next(sanitizeSettings(settings)); }
+
+  /** The action a key press maps to. Presses with Ctrl, Alt or Meta are left to the browser. */
+  keyAction(ev: KeyboardEvent): KeyAction | null {
+    if (ev.ctrlKey || ev.altKey || ev.metaKey) return null;
+    const key = normalizeKey(ev.key);
+    return KEY_ACTIONS.find(a => this.snapshot.keys[a].includes(key)) ?? null;
+  }
+
+  private next(settings: Settings): void {
+    this._settings$.next(settings);
+    const stored: StoredSettings = { ...settings, version: STORAGE_VERSION };
+    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(stored)); } catch {}
+  }
+
+  private load(): Settings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as StoredSettings | null;
+      if (stored?.version === STORAGE_VERSION) return sanitizeSettings(stored);
+    } catch {}
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function normalizeKey(key: string): string {
+  return key === 'Spacebar' ? ' ' : key.toLowerCase();
+}
+
+/** How a bound key reads on screen. */
+export function keyLabel(key: string): string {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1);
+}
+
+/** Settings with every missing or invalid value replaced by its default. */
+export function sanitizeSettings(s: Partial<Settings>): Settings {
+  const flag = (v: unknown, fallback: boolean) => (typeof v === 'boolean' ? v : fallback);
+  const oneOf = <T>(v: unknown, options: readonly T[], fallback: T) => (options.includes(v as T) ? v as T : fallback);
+  const d = DEFAULT_SETTINGS;
+  const keys = { ...d.keys };
+  if (s.keys && typeof s.keys === 'object') {
+    for (const a of KEY_ACTIONS) {
+      const list = s.keys[a];
+      if (Array.isArray(list) && list.every(k => typeof k === 'string' && k && !RESERVED_KEYS.includes(k))) keys[a] = list;
+    }
+  }
+  const longPressMs = typeof s.longPressMs === 'number' && Number.isFinite(s.longPressMs)
+    ? Math.round(Math.min(LONG_PRESS_LIMITS.max, Math.max(LONG_PRESS_LIMITS.min, s.longPressMs)))
+    : d.longPressMs;
+  const volume = typeof s.volume === 'number' && Number.isFinite(s.volume)
+    ? Math.min(1, Math.max(0, s.volume))
+    : d.volume;
+  return {
+    keys, longPressMs,
+    clickChord: flag(s.clickChord, d.clickChord),
+    tapChord: flag(s.tapChord, d.tapChord),
+    noFlag: flag(s.noFlag, d.noFlag),
+    questionMarks: flag(s.questionMarks, d.questionMarks),
+    theme: oneOf(s.theme, ['system', ...THEME_IDS], d.theme),
+    markers: flag(s.markers, d.markers),
+    motion: oneOf(s.motion, MOTION_CHOICES, d.motion),
+    volume,
+    muted: flag(s.muted, d.muted),
+    haptics: flag(s.haptics, d.haptics),
+  };
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@angular/core';
+import { Difficulty, GameState, GameStatus } from '../models/game-state';
+import { PRESETS } from '../models/presets';
+import { GameRecord, StatsSummary } from '../models/stats';
+import { threeBV } from '../utils/metrics';
+import { RankedBoard, rankingKey } from '../utils/ranking';
+
+const STORAGE_KEY = 'ms-stats';
+const STORAGE_VERSION = 1;
+/** Pre-statistics storage: `{ [difficulty or 'difficulty:no-guess']: seconds }`. */
+const LEGACY_BEST_TIMES_KEY = 'ms-best-times';
+/** Oldest records are dropped beyond this. */
+const MAX_RECORDS = 5000;
+
+interface StoredStats {
+  version: number;
+  games: GameRecord[];
+}
+
+/** Local history of every finished game, and everything derived from it. */
+@Injectable({ providedIn: 'root' })
+export class StatsService {
+  private games: GameRecord[] = this.load();
+
+  get records(): readonly GameRecord[] { return this.games; }
+
+  record(s: GameState): void {
+    if (s.status !== GameStatus.Won && s.status !== GameStatus.Lost) return;
+    this.games = [...this.games, {
+      date: new Date().toISOString(),
+      difficulty: s.difficulty, rows: s.rows, cols: s.cols, mines: s.mines, topology: s.topology,
+      noGuess: s.noGuess && !!s.noGuessVerified,
+      won: s.status === GameStatus.Won,
+      timeMs: s.elapsedMs,
+      clicks: s.clicks.left + s.clicks.right + s.clicks.chord,
+      wastedClicks: s.clicks.wasted,
+      hintsUsed: s.moves.filter(m => m.kind === 'hint').length,
+      bbbv: s.bbbv ?? threeBV(s.board, s.topology),
+      solvedBbbv: s.solvedBbbv,
+      ranked: !s.practice,
+    }].slice(-MAX_RECORDS);
+    this.save();
+  }
+
+  clear(): void {
+    this.restore([]);
+  }
+
+  /** Replace every record, e.g. from an imported profile. */
+  restore(games: GameRecord[]): void {
+    this.games = games.slice(-MAX_RECORDS);
+    this.save();
+  }
+
+  /** Ranked wins in the same leaderboard bucket as `board`, fastest first. */
+  topTimes(board: RankedBoard, limit = 10): GameRecord[] {
+    const key = rankingKey(board);
+    return this.games
+      .filter(g => g.won && g.ranked && rankingKey(g) === key)
+      .sort((a, b) => a.timeMs - b.timeMs)
+      .slice(0, limit);
+  }
+
+  bestTimeSec(board: RankedBoard): number | null {
+    const [best] = this.topTimes(board, 1);
+    return best ? best.timeMs / 1000 : null;
+  }
+
+  /**
+   * Every distinct board played outside the classic square presets (custom sizes, torus and hex
+   * variants), in first-played order.
+   */
+  playedVariants(): RankedBoard[] {
+    const seen = new Map<string, RankedBoard>();
+    for (const g of this.games) {
+      const topology = g.topology ?? 'square';
+      if (g.difficulty !== 'Custom' && topology === 'square') continue;
+      const board = { difficulty: g.difficulty, rows: g.rows, cols: g.cols, mines: g.mines, topology, noGuess: false };
+      const key = rankingKey(board);
+      if (!seen.has(key)) seen.set(key, board);
+    }
+    return [...seen.values()];
+  }
+
+  /** Newest first. */
+  recent(difficulty?: Difficulty, limit = 20): GameRecord[] {
+    return this.forDifficulty(difficulty).slice(-limit).reverse();
+  }
+
+  /** Ranked games only: practice games stay in the history, but undo would make their wins free. */
+  summary(difficulty?: Difficulty): StatsSummary {
+    const games = this.forDifficulty(difficulty).filter(g => g.ranked && !g.migrated);
+    const wins = games.filter(g => g.won);
+    let currentStreak = 0, bestStreak = 0;
+    for (const g of games) {
+      currentStreak = g.won ? currentStreak + 1 : 0;
+      bestStreak = Math.max(bestStreak, currentStreak);
+    }
+    const rated = wins.filter(g => g.bbbv !== null && g.timeMs > 0);
+    return {
+      played: games.length,
+      won: wins.length,
+      winRate: games.length ? wins.length / games.length : 0,
+      currentStreak, bestStreak,
+      averageTimeSec: wins.length ? wins.reduce((sum, g) => sum + g.timeMs, 0) / wins.length / 1000 : null,
+      averageBbbvPerSec: rated.length
+        ? rated.reduce((sum, g) => sum + g.bbbv! / (g.timeMs / 1000), 0) / rated.length
+        : null,
+    };
+  }
+
+  private forDifficulty(difficulty?: Difficulty): GameRecord[] {
+    return difficulty ? this.games.filter(g => g.difficulty === difficulty) : this.games;
+  }
+
+  // ---------- storage & migration ----------
+
+  private load(): GameRecord[] {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) return this.migrateLegacy();
+    try {
+      const stored = JSON.parse(raw) as StoredStats;
+      if (stored?.version === STORAGE_VERSION && Array.isArray(stored.games)) return stored.games;
+    } catch {}
+    // Unreadable or unknown-version data: start over rather than break the game.
+    return [];
+  }
+
+  private save(): void {
+    const stored: StoredStats = { version: STORAGE_VERSION, games: this.games };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  /** Turn each old best time into a won game record, then retire the old key. */
+  private migrateLegacy(): GameRecord[] {
+    let legacy: Record<string, unknown> = {};
+    try { legacy = JSON.parse(localStorage.getItem(LEGACY_BEST_TIMES_KEY) || '{}'); } catch {}
+    const date = new Date().toISOString();
+    this.games = Object.entries(legacy)
+      .filter(([, sec]) => typeof sec === 'number' && sec > 0)
+      .map(([bucket, sec]) => {
+        const [difficulty, mode] = bucket.split(':') as [Difficulty, string?];
+        const preset = difficulty === 'Custom' ? undefined : PRESETS[difficulty];
+        return {
+          date, difficulty,
+          rows: preset?.rows ?? 0, cols: preset?.cols ?? 0, mines: preset?.mines ?? 0,
+          noGuess: mode === 'no-guess', won: true, timeMs: Math.round((sec as number) * 1000),
+          clicks: null, hintsUsed: null, bbbv: null, ranked: true, migrated: true,
+        };
+      })
+      .filter(g => g.difficulty === 'Custom' || g.difficulty in PRESETS);
+    this.save();
+    localStorage.removeItem(LEGACY_BEST_TIMES_KEY);
+    return this.games;
+  }
+}
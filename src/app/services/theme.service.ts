@@ -0,0 +1,95 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Settings } from '../models/settings';
+import { SYSTEM_THEMES, THEMES, Theme } from '../models/theme';
+import { SettingsService } from './settings.service';
+
+/** The theme in effect once `'system'` choices are resolved against the media queries. */
+export interface ThemeState {
+  theme: Theme;
+  markers: boolean;
+  reducedMotion: boolean;
+}
+
+/** Media preferences the `'system'` choices follow. */
+export interface SystemPreferences {
+  dark: boolean;
+  reducedMotion: boolean;
+}
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Applies the chosen theme to the page as CSS custom properties on the root element, and keeps it
+ * in step with the settings and the system's color-scheme and motion preferences.
+ */
+@Injectable({ providedIn: 'root' })
+export class ThemeService {
+  private readonly settings = inject(SettingsService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly _state$ = new BehaviorSubject<ThemeState>(resolveTheme(this.settings.snapshot, systemPreferences()));
+  readonly state$ = this._state$.asObservable();
+  private started = false;
+
+  get snapshot(): ThemeState { return this._state$.getValue(); }
+
+  /** Apply the theme and follow changes to it. Call once at startup. */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    const update = () => this.apply(resolveTheme(this.settings.snapshot, systemPreferences()));
+    const sub = this.settings.settings$.subscribe(update);
+    const queries = [DARK_QUERY, REDUCED_MOTION_QUERY].map(media).filter(q => q !== null);
+    for (const q of queries) q.addEventListener('change', update);
+    this.destroyRef.onDestroy(() => {
+      sub.unsubscribe();
+      for (const q of queries) q.removeEventListener('change', update);
+    });
+  }
+
+  private apply(state: ThemeState): void {
+    const root = document.documentElement;
+    for (const [name, value] of Object.entries(themeVariables(state.theme))) root.style.setProperty(name, value);
+    root.style.colorScheme = state.theme.scheme;
+    root.dataset['theme'] = state.theme.id;
+    root.classList.toggle('reduce-motion', state.reducedMotion);
+    this._state$.next(state);
+  }
+}
+
+export function resolveTheme(settings: Settings, system: SystemPreferences): ThemeState {
+  const id = settings.theme === 'system' ? SYSTEM_THEMES[system.dark ? 'dark' : 'light'] : settings.theme;
+  return {
+    theme: THEMES[id],
+    markers: settings.markers,
+    reducedMotion: settings.motion === 'system' ? system.reducedMotion : settings.motion === 'reduced',
+  };
+}
+
+/** The CSS custom properties a theme sets on the page; styles read colors only through these. */
+export function themeVariables({ palette: p }: Theme): Record<string, string> {
+  const vars: Record<string, string> = {
+    '--bg': p.background, '--glow': p.glow, '--panel': p.panel, '--surface': p.surface,
+    '--surface-hover': p.surfaceHover, '--border': p.border, '--text': p.text, '--muted': p.muted, '--link': p.link,
+    '--tile-hidden': p.tileHidden, '--tile-flagged': p.tileFlagged, '--tile-revealed': p.tileRevealed,
+    '--tile-border': p.tileBorder, '--tile-mine': p.tileMine, '--tile-exploded': p.tileExploded,
+    '--wrong-flag': p.wrongFlag, '--glyph': p.glyph, '--question': p.question,
+    '--focus': p.focus, '--heat-safe': p.heat.safe, '--heat-mine': p.heat.mine,
+  };
+  for (const [kind, { ring, fill }] of Object.entries(p.hints)) {
+    vars[`--hint-${kind}`] = ring;
+    vars[`--hint-${kind}-fill`] = fill;
+  }
+  p.numbers.forEach((color, i) => vars[`--n${i + 1}`] = color);
+  return vars;
+}
+
+function systemPreferences(): SystemPreferences {
+  return { dark: media(DARK_QUERY)?.matches ?? true, reducedMotion: media(REDUCED_MOTION_QUERY)?.matches ?? false };
+}
+
+/** Null where `matchMedia` is missing (older browsers, test DOMs). */
+function media(query: string): MediaQueryList | null {
+  return typeof matchMedia === 'function' ? matchMedia(query) : null;
+}
@@ -0,0 +1,56 @@
+import { Board, BoardPatch, FLAGGED, MINE, REVEALED, countAdjacent, openCells, revealMines } from '../../models/board';
+import { explainLoss } from '../post-mortem';
+
+/** '.' hidden, '*' hidden mine, 'F' wrong flag, 'M' flagged mine, '#' revealed (shows its count). */
+function board(rows: string[]): Board {
+  const cols = rows[0].length, chars = rows.join('');
+  const cells = Uint8Array.from(chars, ch =>
+    (ch === '*' || ch === 'M' ? MINE : 0) | (ch === '#' ? REVEALED : 0) | (ch === 'F' || ch === 'M' ? FLAGGED : 0));
+  const adjacent = countAdjacent(cells, rows.length, cols, 'square');
+  const safeLeft = [...chars].filter(ch => ch === '.' || ch === 'F').length;
+  return { rows: rows.length, cols, cells, adjacent, safeLeft, base: null, changed: null };
+}
+
+/** The board after opening `i`, a mine. */
+function explode(before: Board, i: number): Board {
+  const patch = new BoardPatch(before);
+  openCells(patch, before, 'square', [i]);
+  revealMines(patch, [i]);
+  return patch.commit();
+}
+
+describe('explainLoss', () => {
+  it('calls a click on a mine the numbers proved a mistake', () => {
+    const before = board(['##*.*']);
+    const loss = explainLoss(before, explode(before, 2), 2, 'square', 'reveal');
+    expect(loss.exploded).toEqual([{ x: 2, y: 0 }]);
+    expect(loss.missedMines).toEqual([{ x: 4, y: 0 }]);
+    expect(loss.postMortem).toEqual(jasmine.objectContaining({ verdict: 'mistake', probability: 1, safest: 0.5 }));
+  });
+
+  it('calls a click a forced guess when nothing was provably safe', () => {
+    const before = board(['#.', '.*']);
+    const { postMortem } = explainLoss(before, explode(before, 3), 1, 'square', 'reveal');
+    expect(postMortem.verdict).toBe('guess');
+    expect(postMortem.probability).toBeCloseTo(1 / 3);
+    expect(postMortem.safest).toBeCloseTo(1 / 3);
+  });
+
+  it('ignores the player\'s flags, and lists the wrong ones', () => {
+    // Trusting the wrong flag would make the mine look certainly safe.
+    const before = board(['#F', '.*']);
+    const loss = explainLoss(before, explode(before, 3), 1, 'square', 'reveal');
+    expect(loss.wrongFlags).toEqual([{ x: 1, y: 0 }]);
+    expect(loss.postMortem.verdict).toBe('guess');
+    expect(loss.postMortem.probability).toBeCloseTo(1 / 3);
+  });
+
+  it('calls a guess a mistake while a provably safe cell was left', () => {
+    // The numbers pin the first mine, which clears the cell after the second number.
+    const before = board(['#*#...*']);
+    const { postMortem } = explainLoss(before, explode(before, 6), 2, 'square', 'reveal');
+    expect(postMortem.verdict).toBe('mistake');
+    expect(postMortem.safest).toBe(0);
+    expect(postMortem.probability).toBeCloseTo(1 / 3);
+  });
+});
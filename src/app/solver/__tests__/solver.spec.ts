@@ -0,0 +1,64 @@
+import { Tile } from '../../models/tile';
+import { findDeductions, mineProbabilities, suggestHint } from '../solver';
+
+/** '.' hidden, '*' hidden mine (invisible to the solver), 'F' flag, digit = revealed number. */
+function board(rows: string[]): Tile[][] {
+  return rows.map((row, y) => [...row].map((ch, x) => ({
+    x, y,
+    isMine: ch === '*' || ch === 'F',
+    isRevealed: /\d/.test(ch),
+    isFlagged: ch === 'F',
+    isQuestioned: false,
+    isExploded: false,
+    adjacentMines: /\d/.test(ch) ? +ch : 0,
+  })));
+}
+
+describe('solver (visible information only)', () => {
+  it('suggests a safe opening on an untouched board', () => {
+    const hint = suggestHint(board(['...', '...', '...']), 1)!;
+    expect(hint).toEqual(jasmine.objectContaining({ x: 1, y: 1, kind: 'safe', rule: 'opening' }));
+  });
+
+  it('single-cell rule: a number already touching its flags clears the rest', () => {
+    // The hidden '*' is a mine in the data, but the visible flag says otherwise; the solver must not peek.
+    const hint = suggestHint(board(['1F', '.*']), 2)!;
+    expect(hint.kind).toBe('safe');
+    expect(hint.rule).toBe('single');
+    expect(hint.reason).toContain('already touches 1 flag');
+  });
+
+  it('single-cell rule: hidden neighbors equal to the remaining count are mines', () => {
+    const found = findDeductions(board(['1.']), 1);
+    expect(found).toEqual([jasmine.objectContaining({ x: 1, y: 0, kind: 'mine', rule: 'single' })]);
+  });
+
+  it('pair rule solves the 1-2-1 pattern', () => {
+    const found = findDeductions(board(['...', '121']), 2);
+    expect(found.map(h => [h.x, h.y, h.kind, h.rule])).toEqual([
+      [2, 0, 'mine', 'pair'],
+      [0, 0, 'mine', 'pair'],
+    ]);
+  });
+
+  it('enumeration uses the global mine count to clear unconstrained cells', () => {
+    const hint = suggestHint(board(['.1..']), 1)!;
+    expect(hint).toEqual(jasmine.objectContaining({ x: 3, y: 0, kind: 'safe', rule: 'enumeration' }));
+  });
+
+  it('falls back to the least likely cell when nothing can be deduced', () => {
+    const b = board(['.1.', '...']);
+    const probs = mineProbabilities(b, 2);
+    expect(probs[0][1]).toBeNull();
+    const hint = suggestHint(b, 2)!;
+    expect(hint.kind).toBe('guess');
+    expect(hint.probability).toBeCloseTo(probs[hint.y][hint.x]!, 10);
+    for (const row of probs) for (const p of row) if (p !== null) expect(hint.probability).toBeLessThanOrEqual(p);
+  });
+
+  it('probabilities respect the total mine count', () => {
+    const probs = mineProbabilities(board(['1.', '..']), 1);
+    expect(probs[0][1]!).toBeCloseTo(1 / 3, 10);
+    expect(probs[1][1]!).toBeCloseTo(1 / 3, 10);
+  });
+});
@@ -0,0 +1,52 @@
+import { Board, toTiles } from '../models/board';
+import { TOPOLOGIES, TopologyKind } from '../models/topology';
+import { findDeductions } from './solver';
+
+/**
+ * Play a fully laid-out board from `start` using only solver deductions.
+ * Returns how many safe cells were still hidden when the solver got stuck (0 = no guess needed).
+ * Past `deadline` (a `Date.now()` time) it stops between solver passes and returns what is still hidden.
+ */
+export function unsolvedCellsFrom(
+  layout: Board, totalMines: number, start: { x: number; y: number }, topology: TopologyKind = 'square',
+  deadline = Infinity,
+): number {
+  return unsolvedCellsFromRegion(layout, totalMines, [start], topology, deadline);
+}
+
+/** `unsolvedCellsFrom` with several cells opened up front, e.g. the start region of a puzzle. */
+export function unsolvedCellsFromRegion(
+  layout: Board, totalMines: number, starts: { x: number; y: number }[], topology: TopologyKind = 'square',
+  deadline = Infinity,
+): number {
+  const { rows, cols } = layout;
+  const board = toTiles(layout).map(row => row.map(t => ({ ...t, isRevealed: false, isFlagged: false, isQuestioned: false })));
+  let safeLeft = 0;
+  for (const row of board) for (const t of row) if (!t.isMine) safeLeft++;
+
+  const open = (x: number, y: number) => {
+    const stack = [board[y][x]];
+    while (stack.length) {
+      const t = stack.pop()!;
+      if (t.isRevealed || t.isFlagged) continue;
+      t.isRevealed = true;
+      safeLeft--;
+      if (t.adjacentMines > 0) continue;
+      for (const c of TOPOLOGIES[topology].neighbors(rows, cols, t.x, t.y)) {
+        if (!board[c.y][c.x].isRevealed) stack.push(board[c.y][c.x]);
+      }
+    }
+  };
+
+  for (const start of starts) open(start.x, start.y);
+  while (safeLeft > 0 && Date.now() < deadline) {
+    const found = findDeductions(board, totalMines, topology);
+    if (!found.length) break;
+    for (const h of found) {
+      const t = board[h.y][h.x];
+      if (h.kind === 'mine') t.isFlagged = true;
+      else open(h.x, h.y);
+    }
+  }
+  return safeLeft;
+}
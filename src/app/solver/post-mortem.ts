@@ -0,0 +1,71 @@
+import { Board, EXPLODED, FLAGGED, MINE, toTiles } from '../models/board';
+import { FinalBoard, MineLoss, PostMortem, TimeLoss } from '../models/loss';
+import { Cell, TopologyKind } from '../models/topology';
+import { formatPercent, mineProbabilities } from './solver';
+
+/**
+ * Everything a lost board shows (exploded mines, wrong flags, missed mines) and a verdict on the
+ * losing move. `before` is the board the move was made on, `after` the final one.
+ */
+export function explainLoss(
+  before: Board, after: Board, totalMines: number, topology: TopologyKind, move: PostMortem['move'],
+): MineLoss {
+  const final = finalBoard(after);
+  return { cause: 'mine', ...final, postMortem: judge(before, totalMines, topology, move, final.exploded[0]) };
+}
+
+/** What the board shows when a time-attack countdown runs out. */
+export function explainTimeout(after: Board): TimeLoss {
+  return { cause: 'time', ...finalBoard(after) };
+}
+
+function finalBoard(after: Board): FinalBoard {
+  const exploded: Cell[] = [], wrongFlags: Cell[] = [], missedMines: Cell[] = [];
+  const cellOf = (i: number): Cell => ({ x: i % after.cols, y: Math.floor(i / after.cols) });
+  after.cells.forEach((c, i) => {
+    if (c & EXPLODED) exploded.push(cellOf(i));
+    else if ((c & (MINE | FLAGGED)) === FLAGGED) wrongFlags.push(cellOf(i));
+    else if ((c & (MINE | FLAGGED)) === MINE) missedMines.push(cellOf(i));
+  });
+  return { exploded, wrongFlags, missedMines };
+}
+
+function judge(
+  board: Board, totalMines: number, topology: TopologyKind, move: PostMortem['move'], cell: Cell,
+): PostMortem {
+  // Only what the player could see: the numbers and the mine count. Their flags may be wrong, so they don't count.
+  const visible = toTiles(board).map(row => row.map(t => t.isRevealed ? t : {
+    ...t, isMine: false, isFlagged: false, isQuestioned: false, adjacentMines: 0,
+  }));
+  const probabilities = mineProbabilities(visible, totalMines, topology);
+  const probability = probabilities[cell.y][cell.x] ?? 1;
+  let safest = 1;
+  for (const row of probabilities) for (const p of row) if (p !== null && p < safest) safest = p;
+  const chance = formatPercent(probability);
+
+  if (move === 'chord') {
+    // A chord only opens a mine when one of the flags it counted is wrong.
+    return {
+      move, cell, verdict: 'mistake', probability, safest,
+      reason: 'A flag next to the chorded number was on a safe cell, so the chord opened a mine. '
+        + `From the numbers alone, that cell had a ${chance} chance of a mine.`,
+    };
+  }
+  if (probability === 1) {
+    return {
+      move, cell, verdict: 'mistake', probability, safest, reason: 'The numbers around this cell proved it was a mine.',
+    };
+  }
+  if (safest === 0) {
+    return {
+      move, cell, verdict: 'mistake', probability, safest,
+      reason: 'Some hidden cells could be proven safe, so no guess was needed. '
+        + `This one had a ${chance} chance of a mine.`,
+    };
+  }
+  return {
+    move, cell, verdict: 'guess', probability, safest,
+    reason: `No cell could be proven safe, so a guess was forced. This one had a ${chance} chance of a mine`
+      + (probability > safest ? `; the safest cell had ${formatPercent(safest)}.` : ', as low as any.'),
+  };
+}
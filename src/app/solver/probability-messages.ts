@@ -0,0 +1,16 @@
+import { Board } from '../models/board';
+import { TopologyKind } from '../models/topology';
+
+/** Main thread → probability worker. Hidden cells are sent with their mine bit and count cleared. */
+export interface ProbabilityRequest {
+  id: number;
+  board: Board;
+  mines: number;
+  topology: TopologyKind;
+}
+
+/** Probability worker → main thread; `id` echoes the request so stale answers can be dropped. */
+export interface ProbabilityResponse {
+  id: number;
+  probabilities: (number | null)[][];
+}
@@ -0,0 +1,13 @@
+/// <reference lib="webworker" />
+
+import { toTiles } from '../models/board';
+import { mineProbabilities } from './solver';
+import { ProbabilityRequest, ProbabilityResponse } from './probability-messages';
+
+addEventListener('message', ({ data }: MessageEvent<ProbabilityRequest>) => {
+  const response: ProbabilityResponse = {
+    id: data.id,
+    probabilities: mineProbabilities(toTiles(data.board), data.mines, data.topology),
+  };
+  postMessage(response);
+});
@@ -0,0 +1,388 @@
+/**
+ * Minesweeper solver working purely on visible information: revealed numbers, flags and the
+ * total mine count. It never reads `isMine` of a hidden tile. Flags are trusted as mines.
+ */
+import { Hint, HintRule } from '../models/hint';
+import { Tile } from '../models/tile';
+import { TopologyKind, neighborIndices } from '../models/topology';
+
+/** A revealed number's claim: exactly `mines` of `cells` (hidden, unflagged) are mines. */
+interface Constraint {
+  origin: number;
+  cells: number[];
+  mines: number;
+  flags: number;
+}
+
+interface View {
+  board: Tile[][];
+  rows: number;
+  cols: number;
+  constraints: Constraint[];
+  /** Hidden, unflagged cells. */
+  hidden: number[];
+  /** Mines not yet covered by flags. */
+  remaining: number;
+}
+
+/** Enumeration gives up on a frontier group after this many search nodes. */
+const ENUMERATION_BUDGET = 200_000;
+
+// ======================== public API ========================
+
+/** Best next hint: the simplest certain deduction (safe cells first), else the safest guess. */
+export function suggestHint(board: Tile[][], totalMines: number, topology: TopologyKind = 'square'): Hint | null {
+  const view = readBoard(board, totalMines, topology);
+  if (view.hidden.length === 0) return null;
+  if (view.hidden.length === view.rows * view.cols) return openingHint(view);
+
+  const certain = findDeductionsIn(view);
+  if (certain.length) return certain.find(h => h.kind === 'safe') ?? certain[0];
+
+  const probs = computeProbabilities(view).values;
+  let best = -1;
+  for (const i of view.hidden) if (best < 0 || probs[i]! < probs[best]!) best = i;
+  const p = probs[best]!;
+  return {
+    ...at(view, best), kind: 'guess', rule: 'probability', probability: p,
+    reason: `No cell can be proven safe. This one has the lowest mine probability (${formatPercent(p)}).`,
+  };
+}
+
+/** Every certain cell found by the cheapest rule that finds any. Empty when a guess is needed. */
+export function findDeductions(board: Tile[][], totalMines: number, topology: TopologyKind = 'square'): Hint[] {
+  return findDeductionsIn(readBoard(board, totalMines, topology));
+}
+
+/**
+ * Mine probability of every hidden, unflagged cell (null elsewhere), respecting both the local
+ * number constraints and the global count of remaining mines.
+ */
+export function mineProbabilities(
+  board: Tile[][], totalMines: number, topology: TopologyKind = 'square',
+): (number | null)[][] {
+  const view = readBoard(board, totalMines, topology);
+  const { values } = computeProbabilities(view);
+  return Array.from({ length: view.rows }, (_, y) => values.slice(y * view.cols, (y + 1) * view.cols));
+}
+
+// ======================== reading the board ========================
+
+function readBoard(board: Tile[][], totalMines: number, topology: TopologyKind): View {
+  const rows = board.length, cols = board[0]?.length ?? 0;
+  const constraints: Constraint[] = [];
+  const hidden: number[] = [];
+  let flagged = 0;
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const t = board[y][x];
+      const i = y * cols + x;
+      if (!t.isRevealed) {
+        if (t.isFlagged) flagged++; else hidden.push(i);
+        continue;
+      }
+      if (t.isMine || t.adjacentMines === 0) continue;
+      const cells: number[] = [];
+      let flags = 0;
+      for (const n of neighborIndices(topology, rows, cols, i)) {
+        const nt = board[Math.floor(n / cols)][n % cols];
+        if (nt.isRevealed) continue;
+        if (nt.isFlagged) flags++; else cells.push(n);
+      }
+      if (cells.length) constraints.push({ origin: i, cells, mines: t.adjacentMines - flags, flags });
+    }
+  }
+  return { board, rows, cols, constraints, hidden, remaining: totalMines - flagged };
+}
+
+// ======================== deduction rules ========================
+
+function findDeductionsIn(view: View): Hint[] {
+  for (const rule of [singleCellRule, pairRule]) {
+    const found = rule(view);
+    if (found.length) return found;
+  }
+  return computeProbabilities(view).certain;
+}
+
+function openingHint(view: View): Hint {
+  const i = Math.floor(view.rows / 2) * view.cols + Math.floor(view.cols / 2);
+  return {
+    ...at(view, i), kind: 'safe', rule: 'opening', probability: 0,
+    reason: 'The first click is always safe. Starting in the middle tends to open the biggest area.',
+  };
+}
+
+/** A number whose remaining mines are 0 (all neighbors safe) or equal its hidden neighbors (all mines). */
+function singleCellRule(view: View): Hint[] {
+  const found = new Map<number, Hint>();
+  for (const c of view.constraints) {
+    const n = numberAt(view, c.origin);
+    if (c.mines === 0) {
+      const reason = c.flags > 0
+        ? `${capitalize(label(view, c.origin))} already touches ${plural(c.flags, 'flag')}, so its other hidden neighbors are safe.`
+        : `${capitalize(label(view, c.origin))} has all ${n} of its mines accounted for, so its other hidden neighbors are safe.`;
+      for (const cell of c.cells) if (!found.has(cell)) found.set(cell, deduced(view, cell, false, 'single', reason));
+    } else if (c.mines === c.cells.length) {
+      const reason = `${capitalize(label(view, c.origin))} needs ${plural(c.mines, 'more mine')} and has exactly ` +
+        `${plural(c.cells.length, 'hidden neighbor')} left, so they are all mines.`;
+      for (const cell of c.cells) if (!found.has(cell)) found.set(cell, deduced(view, cell, true, 'single', reason));
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Two overlapping numbers A and B: the mines in their shared cells are bounded by both, which can
+ * force A's private cells to be all safe or all mines (subset reduction is the case where A has none).
+ */
+function pairRule(view: View): Hint[] {
+  const found = new Map<number, Hint>();
+  const byCell = new Map<number, number[]>();
+  view.constraints.forEach((c, ci) => c.cells.forEach(cell => byCell.set(cell, [...(byCell.get(cell) ?? []), ci])));
+
+  view.constraints.forEach((a, ai) => {
+    const partners = new Set<number>();
+    for (const cell of a.cells) for (const bi of byCell.get(cell)!) if (bi !== ai) partners.add(bi);
+    for (const bi of partners) {
+      const b = view.constraints[bi];
+      const inB = new Set(b.cells);
+      const shared = a.cells.filter(cell => inB.has(cell)).length;
+      const onlyA = a.cells.filter(cell => !inB.has(cell));
+      const onlyB = b.cells.length - shared;
+      if (onlyA.length === 0) continue;
+
+      const least = Math.max(0, b.mines - onlyB);
+      const most = Math.min(b.mines, shared);
+      const labelA = label(view, a.origin), labelB = label(view, b.origin);
+      if (least >= a.mines) {
+        const reason = `${capitalize(labelB)} must put at least ${plural(least, 'mine')} in the cells it shares with ${labelA}. ` +
+          `That covers all of ${labelA}'s remaining mines, so its other hidden neighbors are safe.`;
+        for (const cell of onlyA) if (!found.has(cell)) found.set(cell, deduced(view, cell, false, 'pair', reason));
+      } else if (a.mines - most === onlyA.length) {
+        const reason = `${capitalize(labelB)} allows at most ${plural(most, 'mine')} in the cells it shares with ${labelA}, ` +
+          `so ${labelA}'s other ${plural(onlyA.length, 'hidden neighbor')} must all be mines.`;
+        for (const cell of onlyA) if (!found.has(cell)) found.set(cell, deduced(view, cell, true, 'pair', reason));
+      }
+    }
+  });
+  return [...found.values()];
+}
+
+// ======================== enumeration & probabilities ========================
+
+interface GroupResult {
+  cells: number[];
+  exact: boolean;
+  /** counts[k]: number of consistent assignments placing k mines in the group. */
+  counts: number[];
+  /** cellCounts[k][j]: how many of those assignments make cells[j] a mine. */
+  cellCounts: number[][];
+  /** Fallback per-cell estimate when the search ran out of budget. */
+  estimate: number[];
+}
+
+interface ProbabilityResult {
+  values: (number | null)[];
+  certain: Hint[];
+}
+
+/**
+ * Full constraint enumeration over independent frontier groups, combined through the global mine
+ * count: an assignment putting s mines on the frontier is weighted by C(unconstrained cells, remaining - s).
+ */
+function computeProbabilities(view: View): ProbabilityResult {
+  const values: (number | null)[] = new Array(view.rows * view.cols).fill(null);
+  const certain: Hint[] = [];
+  const groups = frontierGroups(view).map(g => enumerateGroup(g.cells, g.constraints));
+  const exact = groups.filter(g => g.exact);
+
+  // Cells outside every exactly-solved group are treated as unconstrained.
+  const inExact = new Set(exact.flatMap(g => g.cells));
+  const free = view.hidden.filter(i => !inExact.has(i));
+  const U = free.length, R = view.remaining;
+
+  const dists = exact.map(g => g.counts);
+  const maxFrontier = dists.reduce((sum, d) => sum + d.length - 1, 0);
+  const weightFree = binomialWeights(U, R - maxFrontier, R);
+
+  const all = dists.reduce(convolve, [1]);
+  let total = 0, expectedFree = 0, freeCanBeSafe = false, freeCanBeMine = false;
+  all.forEach((w, s) => {
+    const t = w * weightFree(R - s);
+    if (t <= 0) return;
+    total += t;
+    expectedFree += t * (R - s);
+    if (R - s < U) freeCanBeSafe = true;
+    if (R - s > 0) freeCanBeMine = true;
+  });
+  const consistent = total > 0;
+
+  exact.forEach((g, gi) => {
+    const others = dists.filter((_, j) => j !== gi).reduce(convolve, [1]);
+    const weightFor = (k: number) => {
+      if (!consistent) return 1;
+      let w = 0;
+      others.forEach((o, s) => { w += o * weightFree(R - k - s); });
+      return w;
+    };
+    let sum = 0;
+    const mineSum = new Array(g.cells.length).fill(0);
+    const canBeSafe = new Array(g.cells.length).fill(false);
+    const canBeMine = new Array(g.cells.length).fill(false);
+    g.counts.forEach((count, k) => {
+      if (!count) return;
+      const w = weightFor(k);
+      if (w <= 0) return;
+      sum += count * w;
+      g.cellCounts[k].forEach((c, j) => {
+        mineSum[j] += c * w;
+        if (c > 0) canBeMine[j] = true;
+        if (c < count) canBeSafe[j] = true;
+      });
+    });
+    const arrangements = g.counts.reduce((a, b) => a + b, 0);
+    g.cells.forEach((cell, j) => {
+      values[cell] = sum > 0 ? mineSum[j] / sum : g.estimate[j];
+      if (sum <= 0) return;
+      if (!canBeMine[j]) certain.push(deduced(view, cell, false, 'enumeration', enumerationReason(arrangements, false)));
+      else if (!canBeSafe[j]) certain.push(deduced(view, cell, true, 'enumeration', enumerationReason(arrangements, true)));
+    });
+  });
+
+  const freeP = U === 0 ? 0 : consistent ? expectedFree / total / U : Math.min(1, Math.max(0, R / U));
+  const inexactEstimate = new Map<number, number>();
+  groups.filter(g => !g.exact).forEach(g => g.cells.forEach((cell, j) => inexactEstimate.set(cell, g.estimate[j])));
+  for (const cell of free) {
+    values[cell] = inexactEstimate.get(cell) ?? freeP;
+    if (!consistent || inexactEstimate.has(cell)) continue;
+    if (!freeCanBeMine) certain.push(deduced(view, cell, false, 'enumeration',
+      'Every remaining mine is already accounted for by the numbers on the board, so cells away from them are safe.'));
+    else if (!freeCanBeSafe) certain.push(deduced(view, cell, true, 'enumeration',
+      'The remaining mine count only fits if every cell away from the numbers is a mine.'));
+  }
+  return { values, certain };
+}
+
+/** Split the frontier into groups of cells linked through shared constraints. */
+function frontierGroups(view: View): Array<{ cells: number[]; constraints: Constraint[] }> {
+  const parent = view.constraints.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owner = new Map<number, number>();
+  view.constraints.forEach((c, ci) => {
+    for (const cell of c.cells) {
+      const o = owner.get(cell);
+      if (o === undefined) owner.set(cell, ci); else parent[find(ci)] = find(o);
+    }
+  });
+
+  const groups = new Map<number, { cells: number[]; constraints: Constraint[]; seen: Set<number> }>();
+  view.constraints.forEach((c, ci) => {
+    const root = find(ci);
+    let g = groups.get(root);
+    if (!g) groups.set(root, (g = { cells: [], constraints: [], seen: new Set() }));
+    g.constraints.push(c);
+    for (const cell of c.cells) if (!g.seen.has(cell)) { g.seen.add(cell); g.cells.push(cell); }
+  });
+  return [...groups.values()];
+}
+
+/** Backtracking over all mine assignments of one group, pruning on every touched constraint. */
+function enumerateGroup(cells: number[], constraints: Constraint[]): GroupResult {
+  const pos = new Map(cells.map((c, i) => [c, i]));
+  const cons = constraints.map(c => ({ vars: c.cells.map(cell => pos.get(cell)!), mines: c.mines }));
+  const byVar: number[][] = cells.map(() => []);
+  cons.forEach((c, ci) => c.vars.forEach(v => byVar[v].push(ci)));
+
+  const placed = new Int32Array(cons.length);
+  const open = Int32Array.from(cons, c => c.vars.length);
+  const assign = new Uint8Array(cells.length);
+  const counts: number[] = [];
+  const cellCounts: number[][] = [];
+  let nodes = 0, exact = true;
+
+  const fits = (v: number, val: number) => byVar[v].every(ci => {
+    const p = placed[ci] + val;
+    return p <= cons[ci].mines && p + open[ci] - 1 >= cons[ci].mines;
+  });
+  const visit = (v: number, mines: number): void => {
+    if (++nodes > ENUMERATION_BUDGET) { exact = false; return; }
+    if (v === cells.length) {
+      counts[mines] = (counts[mines] ?? 0) + 1;
+      const row = (cellCounts[mines] ??= new Array(cells.length).fill(0));
+      for (let j = 0; j < cells.length; j++) row[j] += assign[j];
+      return;
+    }
+    for (const val of [0, 1]) {
+      if (!exact) return;
+      if (!fits(v, val)) continue;
+      assign[v] = val;
+      for (const ci of byVar[v]) { placed[ci] += val; open[ci]--; }
+      visit(v + 1, mines + val);
+      for (const ci of byVar[v]) { placed[ci] -= val; open[ci]++; }
+    }
+  };
+  visit(0, 0);
+
+  for (let k = 0; k < counts.length; k++) {
+    counts[k] ??= 0;
+    cellCounts[k] ??= new Array(cells.length).fill(0);
+  }
+  const estimate = byVar.map(list => Math.max(0, ...list.map(ci => cons[ci].mines / cons[ci].vars.length)));
+  return { cells, exact: exact && counts.length > 0, counts, cellCounts, estimate };
+}
+
+function convolve(a: number[], b: number[]): number[] {
+  const out = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => { if (x) b.forEach((y, j) => { out[i + j] += x * y; }); });
+  const max = Math.max(...out);
+  return max > 0 ? out.map(v => v / max) : out;
+}
+
+/** C(n, m) for m in [lo, hi], scaled so the largest is 1 to keep huge boards in double range. */
+function binomialWeights(n: number, lo: number, hi: number): (m: number) => number {
+  const logFact = [0];
+  for (let i = 1; i <= n; i++) logFact[i] = logFact[i - 1] + Math.log(i);
+  const logC = (m: number) => logFact[n] - logFact[m] - logFact[n - m];
+  let max = -Infinity;
+  for (let m = Math.max(0, lo); m <= Math.min(n, hi); m++) max = Math.max(max, logC(m));
+  return m => (m < 0 || m > n ? 0 : Math.exp(logC(m) - max));
+}
+
+// ======================== wording ========================
+
+function at(view: View, i: number): { x: number; y: number } {
+  return { x: i % view.cols, y: Math.floor(i / view.cols) };
+}
+
+function numberAt(view: View, i: number): number {
+  const { x, y } = at(view, i);
+  return view.board[y][x].adjacentMines;
+}
+
+function label(view: View, i: number): string {
+  const { x, y } = at(view, i);
+  return `the ${numberAt(view, i)} at row ${y + 1}, column ${x + 1}`;
+}
+
+function deduced(view: View, cell: number, mine: boolean, rule: HintRule, reason: string): Hint {
+  return { ...at(view, cell), kind: mine ? 'mine' : 'safe', rule, probability: mine ? 1 : 0, reason };
+}
+
+function enumerationReason(arrangements: number, mine: boolean): string {
+  return `Checking all ${plural(arrangements, 'mine arrangement')} that fit the visible numbers: ` +
+    `this cell is ${mine ? 'a mine' : 'safe'} in every one of them.`;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function formatPercent(p: number): string {
+  return `${Math.round(p * 1000) / 10}%`;
+}
@@ -0,0 +1,45 @@
+export interface BoardConfig {
+  rows: number;
+  cols: number;
+  mines: number;
+}
+
+export const BOARD_LIMITS = { minSize: 2, maxRows: 500, maxCols: 500 };
+
+/**
+ * Cells kept mine-free around the first click, in the worst case (a click away from the edges, or
+ * any click on a torus). Hex zones hold at most 7 cells, so this bound is safe for every topology.
+ */
+export function safeZoneSize(rows: number, cols: number): number {
+  return Math.min(3, rows) * Math.min(3, cols);
+}
+
+export function maxMines(rows: number, cols: number): number {
+  return Math.max(0, rows * cols - safeZoneSize(rows, cols));
+}
+
+/** Human-readable problems with a board configuration; empty when it is playable. */
+export function validateBoardConfig({ rows, cols, mines }: BoardConfig): string[] {
+  const problems: string[] = [];
+  const { minSize, maxRows, maxCols } = BOARD_LIMITS;
+  if (!Number.isInteger(rows) || rows < minSize || rows > maxRows) {
+    problems.push(`Rows must be a whole number from ${minSize} to ${maxRows}.`);
+  }
+  if (!Number.isInteger(cols) || cols < minSize || cols > maxCols) {
+    problems.push(`Columns must be a whole number from ${minSize} to ${maxCols}.`);
+  }
+  if (!Number.isInteger(mines) || mines < 0) {
+    problems.push('Mines must be a whole number, 0 or more.');
+  } else if (problems.length === 0 && mines > maxMines(rows, cols)) {
+    problems.push(`At most ${maxMines(rows, cols)} mines fit on a ${rows}×${cols} board, ` +
+      `because the first click keeps a ${Math.min(3, rows)}×${Math.min(3, cols)} area clear.`);
+  }
+  return problems;
+}
+
+export class BoardConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.join(' '));
+    this.name = 'BoardConfigError';
+  }
+}
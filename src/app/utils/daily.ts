@@ -0,0 +1,30 @@
+/** Local calendar day of `date` as `YYYY-MM-DD`: the daily board changes at the player's midnight. */
+export function dailyKey(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isDailyKey(key: unknown): key is string {
+  return typeof key === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(key) && dayBefore(dayAfter(key)) === key;
+}
+
+/** Neighbouring days of a `YYYY-MM-DD` key. Calendar arithmetic in UTC, so DST never skips a day. */
+export function dayBefore(key: string): string {
+  return shiftDay(key, -1);
+}
+
+export function dayAfter(key: string): string {
+  return shiftDay(key, 1);
+}
+
+function shiftDay(key: string, days: number): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** Seed of a day's board: FNV-1a of the key, the same on every device. */
+export function dailySeed(key: string): number {
+  let h = 0x811c9dc5;
+  for (const ch of `daily:${key}`) h = Math.imul(h ^ ch.charCodeAt(0), 0x01000193);
+  return h >>> 0;
+}
@@ -0,0 +1,53 @@
+import { TopologyKind } from '../models/topology';
+
+/**
+ * Compact, URL-safe game codes: `v1.<rows>.<cols>.<mines>.<seed>[.<x>.<y>][.<flags>]`, numbers in
+ * base 36. The optional pair is the first-click cell; without it the layout still depends on where
+ * the first click lands. Flags: `n` no-guess, `t` torus, `h` hex (square boards have none).
+ */
+export interface GameCode {
+  rows: number;
+  cols: number;
+  mines: number;
+  seed: number;
+  firstClickCell?: { x: number; y: number };
+  noGuess?: boolean;
+  topology?: TopologyKind;
+}
+
+const VERSION = 'v1';
+const NO_GUESS_FLAG = 'n';
+const TOPOLOGY_FLAGS: Record<string, TopologyKind> = { t: 'torus', h: 'hex' };
+
+export function encodeGameCode(code: GameCode): string {
+  const parts = [code.rows, code.cols, code.mines, code.seed >>> 0];
+  if (code.firstClickCell) parts.push(code.firstClickCell.x, code.firstClickCell.y);
+  const topologyFlag = Object.keys(TOPOLOGY_FLAGS).find(f => TOPOLOGY_FLAGS[f] === code.topology) ?? '';
+  const flags = (code.noGuess ? NO_GUESS_FLAG : '') + topologyFlag;
+  return [VERSION, ...parts.map(n => n.toString(36)), ...(flags ? [flags] : [])].join('.');
+}
+
+/** Parse a game code; returns null for anything malformed. */
+export function decodeGameCode(text: string): GameCode | null {
+  const parts = text.trim().toLowerCase().split('.');
+  // Field counts are odd without flags, so a trailing flags field can't be mistaken for a coordinate.
+  const hasFlags = parts.length % 2 === 0;
+  const flags = hasFlags ? parts.pop()! : '';
+  if (hasFlags && !/^(n[th]?|[th])$/.test(flags)) return null;
+  const noGuess = flags.startsWith(NO_GUESS_FLAG);
+  const topology = TOPOLOGY_FLAGS[flags.slice(-1)];
+  if (parts[0] !== VERSION || (parts.length !== 5 && parts.length !== 7)) return null;
+  const nums = parts.slice(1).map(p => (/^[0-9a-z]+$/.test(p) ? parseInt(p, 36) : NaN));
+  if (nums.some(n => !Number.isSafeInteger(n))) return null;
+
+  const [rows, cols, mines, seed, x, y] = nums;
+  if (rows < 1 || cols < 1 || mines < 0 || mines >= rows * cols || seed > 0xffffffff) return null;
+  const code: GameCode = { rows, cols, mines, seed };
+  if (noGuess) code.noGuess = true;
+  if (topology) code.topology = topology;
+  if (x !== undefined) {
+    if (x >= cols || y >= rows) return null;
+    code.firstClickCell = { x, y };
+  }
+  return code;
+}
@@ -0,0 +1,11 @@
+/** Type guards for data from outside the app: imported files, storage and form controls. */
+
+/** A plain object (not null or an array), with its fields still to be checked. */
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** Whether `v` is one of `options`, such as a union's values from a select. */
+export function isOneOf<T>(v: unknown, options: readonly T[]): v is T {
+  return (options as readonly unknown[]).includes(v);
+}
@@ -0,0 +1,130 @@
+import { Board, MINE, REVEALED } from '../models/board';
+import { GameState } from '../models/game-state';
+import { TopologyKind, neighborTable } from '../models/topology';
+
+/**
+ * Bechtel's Board Benchmark Value: the minimum number of left clicks needed to clear a board.
+ * Each opening (connected region of zeros, with its border) counts once, plus every safe number
+ * cell that no opening reveals.
+ */
+export function threeBV(board: Board, topology: TopologyKind = 'square'): number {
+  const { cells, adjacent } = board;
+  const { start, list } = neighborTable(topology, board.rows, board.cols);
+  const marked = new Uint8Array(cells.length);
+  let bbbv = 0;
+
+  for (let i = 0; i < cells.length; i++) {
+    if (marked[i] || cells[i] & MINE || adjacent[i] !== 0) continue;
+    bbbv++;
+    const stack = [i];
+    marked[i] = 1;
+    while (stack.length) {
+      const c = stack.pop()!;
+      if (adjacent[c] !== 0) continue;
+      for (let k = start[c]; k < start[c + 1]; k++) {
+        const n = list[k];
+        if (cells[n] & MINE || marked[n]) continue;
+        marked[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+  for (let i = 0; i < cells.length; i++) if (!marked[i] && !(cells[i] & MINE)) bbbv++;
+  return bbbv;
+}
+
+/**
+ * What each cell contributes to 3BV: cells of one opening (its zeros) share a unit id, each lone
+ * number has its own, and mines and opening borders have none (-1). Fixed once mines are placed,
+ * so it is cached per layout (boards of one game share their `adjacent` array).
+ */
+interface BbbvUnits {
+  ids: Int32Array;
+  count: number;
+}
+
+const unitCache = new WeakMap<Uint8Array, BbbvUnits>();
+
+function bbbvUnits(board: Board, topology: TopologyKind): BbbvUnits {
+  const cached = unitCache.get(board.adjacent);
+  if (cached) return cached;
+  const { cells, adjacent } = board;
+  const { start, list } = neighborTable(topology, board.rows, board.cols);
+  const ids = new Int32Array(cells.length).fill(-1);
+  const border = new Uint8Array(cells.length);
+  let count = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (ids[i] >= 0 || cells[i] & MINE || adjacent[i] !== 0) continue;
+    const stack = [i];
+    ids[i] = count;
+    while (stack.length) {
+      const c = stack.pop()!;
+      for (let k = start[c]; k < start[c + 1]; k++) {
+        const n = list[k];
+        if (cells[n] & MINE) continue;
+        if (adjacent[n] !== 0) { border[n] = 1; continue; }
+        if (ids[n] < 0) { ids[n] = count; stack.push(n); }
+      }
+    }
+    count++;
+  }
+  for (let i = 0; i < cells.length; i++) {
+    if (!(cells[i] & MINE) && adjacent[i] !== 0 && !border[i]) ids[i] = count++;
+  }
+  const units = { ids, count };
+  unitCache.set(board.adjacent, units);
+  return units;
+}
+
+/**
+ * 3BV already done: openings with a revealed zero (opening one opens it all) and revealed lone
+ * numbers. Equals `threeBV` once the board is cleared.
+ */
+export function solvedThreeBV(board: Board, topology: TopologyKind = 'square'): number {
+  const { ids, count } = bbbvUnits(board, topology);
+  const solved = new Uint8Array(count);
+  let n = 0;
+  for (let i = 0; i < ids.length; i++) {
+    const u = ids[i];
+    if (u >= 0 && board.cells[i] & REVEALED && !solved[u]) { solved[u] = 1; n++; }
+  }
+  return n;
+}
+
+export interface GameMetrics {
+  bbbv: number;
+  solvedBbbv: number;
+  /** Left, right and chord clicks, wasted ones included. */
+  clicks: number;
+  wastedClicks: number;
+  /** Solved 3BV per second of play; null before any time has passed. */
+  bbbvPerSec: number | null;
+  /** Efficiency: solved 3BV per click; null before the first click. */
+  ioe: number | null;
+  /** Projected finishing time at the current 3BV/s; null until some 3BV is solved. */
+  estimatedMs: number | null;
+}
+
+/** Live efficiency figures of a game; null until its mines are placed. */
+export function gameMetrics(s: GameState): GameMetrics | null {
+  if (s.bbbv === undefined) return null;
+  const clicks = s.clicks.left + s.clicks.right + s.clicks.chord;
+  const seconds = s.elapsedMs / 1000;
+  return {
+    bbbv: s.bbbv,
+    solvedBbbv: s.solvedBbbv,
+    clicks,
+    wastedClicks: s.clicks.wasted,
+    bbbvPerSec: seconds > 0 ? s.solvedBbbv / seconds : null,
+    ioe: clicks > 0 ? s.solvedBbbv / clicks : null,
+    estimatedMs: s.solvedBbbv > 0 ? s.elapsedMs * s.bbbv / s.solvedBbbv : null,
+  };
+}
+
+/** Time-attack countdown left, with the bonus earned so far; null when the game counts up. */
+export function timeLeftMs(s: GameState): number | null {
+  const limit = s.timeLimit;
+  if (!limit) return null;
+  const opened = s.firstClick ? 0 : s.rows * s.cols - s.mines - s.board.safeLeft;
+  return Math.max(0, limit.ms + opened * limit.bonusPerCellMs - s.elapsedMs);
+}
@@ -0,0 +1,91 @@
+import { Puzzle, validatePuzzle } from '../models/puzzle';
+import { TopologyKind } from '../models/topology';
+
+/**
+ * Puzzle codes: `p1.<rows>.<cols>.<topology>.<cells>[.<name>]`. Rows and columns are base 36, the
+ * topology is `s`, `t` or `h`, and the cells are packed three to a base64url character, two bits
+ * each (0 hidden, 1 mine, 2 start region), row-major. The name is URI-encoded. Unlike game codes,
+ * the cells are case-sensitive.
+ */
+const VERSION = 'p1';
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const TOPOLOGY_FLAGS: Record<string, TopologyKind> = { s: 'square', t: 'torus', h: 'hex' };
+const HIDDEN = 0, MINE = 1, START = 2;
+
+/** What a downloaded puzzle file holds. */
+export interface PuzzleFile {
+  format: 'minesweeper-puzzle';
+  version: 1;
+  name: string;
+  code: string;
+}
+
+export function encodePuzzle(p: Puzzle): string {
+  const name = p.name.trim();
+  return layoutCode(p) + (name ? `.${encodeURIComponent(name)}` : '');
+}
+
+/** Parse a puzzle code; returns null for anything malformed or unplayable. */
+export function decodePuzzle(text: string): Puzzle | null {
+  const parts = text.trim().split('.');
+  if (parts[0] !== VERSION || parts.length < 5) return null;
+  const [, rowsText, colsText, flag, cellsText] = parts;
+  const [rows, cols] = [rowsText, colsText].map(t => (/^[0-9a-z]+$/.test(t) ? parseInt(t, 36) : NaN));
+  const topology = /^[sth]$/.test(flag) ? TOPOLOGY_FLAGS[flag] : undefined;
+  if (!Number.isSafeInteger(rows) || !Number.isSafeInteger(cols) || !topology) return null;
+  if (cellsText.length !== Math.ceil(rows * cols / 3)) return null;
+
+  const mines: number[] = [], revealed: number[] = [];
+  for (let c = 0; c < cellsText.length; c++) {
+    const value = ALPHABET.indexOf(cellsText[c]);
+    if (value < 0) return null;
+    for (let k = 0; k < 3; k++) {
+      const i = c * 3 + k, state = (value >> (2 * k)) & 3;
+      if (state === 3 || (state !== HIDDEN && i >= rows * cols)) return null;
+      if (state === MINE) mines.push(i);
+      else if (state === START) revealed.push(i);
+    }
+  }
+  let name = '';
+  try { name = decodeURIComponent(parts.slice(5).join('.')); } catch { return null; }
+  const puzzle: Puzzle = { name, rows, cols, topology, mines, revealed };
+  return validatePuzzle(puzzle).length ? null : puzzle;
+}
+
+/** Stable id of a layout, whatever the puzzle is called: solve times are kept per id. */
+export function puzzleId(p: Puzzle): string {
+  // FNV-1a over the code without the name.
+  let hash = 0x811c9dc5;
+  for (const ch of layoutCode(p)) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function puzzleFile(p: Puzzle): PuzzleFile {
+  return { format: 'minesweeper-puzzle', version: 1, name: p.name, code: encodePuzzle(p) };
+}
+
+/** Read a puzzle from a downloaded file, or from a bare code pasted as text. */
+export function parsePuzzleFile(text: string): Puzzle | null {
+  if (!text.trim().startsWith('{')) return decodePuzzle(text);
+  try {
+    const file = JSON.parse(text) as Partial<PuzzleFile>;
+    if (file?.format !== 'minesweeper-puzzle' || file.version !== 1 || typeof file.code !== 'string') return null;
+    const puzzle = decodePuzzle(file.code);
+    return puzzle && typeof file.name === 'string' ? { ...puzzle, name: file.name } : puzzle;
+  } catch {
+    return null;
+  }
+}
+
+function layoutCode(p: Puzzle): string {
+  const states = new Uint8Array(Math.ceil(p.rows * p.cols / 3) * 3);
+  for (const i of p.mines) states[i] = MINE;
+  for (const i of p.revealed) states[i] = START;
+  let cells = '';
+  for (let i = 0; i < states.length; i += 3) cells += ALPHABET[states[i] | states[i + 1] << 2 | states[i + 2] << 4];
+  const flag = Object.keys(TOPOLOGY_FLAGS).find(f => TOPOLOGY_FLAGS[f] === p.topology)!;
+  return [VERSION, p.rows.toString(36), p.cols.toString(36), flag, cells].join('.');
+}
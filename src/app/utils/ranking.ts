@@ -0,0 +1,23 @@
+import { Difficulty } from '../models/game-state';
+import { TOPOLOGIES, TopologyKind } from '../models/topology';
+
+export interface RankedBoard {
+  difficulty: Difficulty;
+  rows: number;
+  cols: number;
+  mines: number;
+  noGuess: boolean;
+  /** Missing means square. */
+  topology?: TopologyKind;
+}
+
+/**
+ * Leaderboard bucket: presets by name, custom boards by their dimensions; torus and hex boards
+ * and no-guess games are each kept apart.
+ */
+export function rankingKey(b: RankedBoard): string {
+  let base = b.difficulty !== 'Custom' ? b.difficulty
+    : b.rows ? `Custom ${b.rows}×${b.cols} · ${b.mines}` : 'Custom (legacy)';
+  if (b.topology && b.topology !== 'square') base += ` · ${TOPOLOGIES[b.topology].label}`;
+  return b.noGuess ? `${base}:no-guess` : base;
+}
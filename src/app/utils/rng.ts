@@ -0,0 +1,36 @@
+/** A deterministic random source returning floats in [0, 1). */
+export type Rng = () => number;
+
+/** Mulberry32: tiny, fast 32-bit seeded PRNG. Same seed => same sequence on every platform. */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fresh unsigned 32-bit seed, using crypto when available. */
+export function randomSeed(): number {
+  const c = (globalThis as { crypto?: Crypto }).crypto;
+  if (c?.getRandomValues) return c.getRandomValues(new Uint32Array(1))[0];
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** In-place Fisher–Yates shuffle driven by `rng`. */
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/** The n-th seed of a deterministic sequence derived from `seed` (n = 0 returns `seed` itself). */
+export function deriveSeed(seed: number, n: number): number {
+  if (n === 0) return seed >>> 0;
+  return Math.floor(createRng((seed + Math.imul(n, 0x9e3779b9)) >>> 0)() * 4294967296) >>> 0;
+}
@@ -0,0 +1,50 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AchievementService } from '../services/achievement.service';
+
+@Component({
+  selector: 'app-achievements-page',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <div class="panel" *ngIf="progress$ | async as list">
+    <h2>🏅 Achievements</h2>
+    <p class="muted">{{ unlockedCount(list) }} of {{ list.length }} unlocked. Practice games don't count.</p>
+    <ul>
+      <li *ngFor="let p of list" [class.unlocked]="p.unlockedAt">
+        <span class="icon" aria-hidden="true">{{ p.achievement.icon }}</span>
+        <div class="body">
+          <strong>{{ p.achievement.title }}</strong>
+          <span class="muted">{{ p.achievement.description }}</span>
+          <div class="bar">
+            <progress [value]="p.progress" [max]="p.achievement.goal"
+                      [attr.aria-label]="p.achievement.title + ' progress'"></progress>
+            <span>{{ p.progress }}/{{ p.achievement.goal }}</span>
+          </div>
+        </div>
+        <span class="badge" *ngIf="p.unlockedAt as date; else locked">✅ {{ date | date: 'mediumDate' }}</span>
+        <ng-template #locked><span class="badge">🔒 Locked</span></ng-template>
+      </li>
+    </ul>
+  </div>
+  `,
+  styles: [`
+    h2 { margin: 0 0 8px 0; }
+    .muted { color: var(--muted); }
+    ul { list-style: none; margin: 0; padding: 0; display: grid; gap: 8px; }
+    li {
+      display: flex; align-items: center; gap: 12px; padding: .6rem .8rem; border-radius: 10px;
+      border: 1px solid var(--border); background: var(--surface); opacity: .75;
+    }
+    li.unlocked { opacity: 1; border-color: var(--hint-safe); }
+    .icon { font-size: 1.8rem; width: 2.2rem; text-align: center; }
+    .body { display: flex; flex-direction: column; gap: 2px; flex: 1; }
+    .bar { display: flex; align-items: center; gap: 8px; font-size: .85rem; }
+    progress { flex: 1; max-width: 260px; accent-color: var(--hint-safe); }
+  `]
+})
+export class AchievementsPageComponent {
+  readonly progress$ = inject(AchievementService).progress$;
+
+  unlockedCount(list: { unlockedAt: string | null }[]): number { return list.filter(p => p.unlockedAt).length; }
+}
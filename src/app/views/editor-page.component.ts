@@ -0,0 +1,330 @@
+import { Component, HostListener, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Board, REVEALED } from '../models/board';
+import { PUZZLE_LIMITS, Puzzle, validatePuzzle } from '../models/puzzle';
+import { TOPOLOGIES, TOPOLOGY_KINDS, TopologyKind } from '../models/topology';
+import { puzzleBoard, unsolvedPuzzleCells } from '../engine/game-engine';
+import { encodePuzzle, parsePuzzleFile, puzzleFile } from '../utils/puzzle-code';
+import { BoardConfigError } from '../utils/board-config';
+import { isOneOf } from '../utils/guards';
+import { GameService } from '../services/game.service';
+import { PuzzleService } from '../services/puzzle.service';
+
+type Tool = 'mine' | 'start' | 'erase';
+const HIDDEN = 0, MINE = 1, START = 2;
+
+const TOOLS: { id: Tool; label: string; title: string }[] = [
+  { id: 'mine', label: '💣 Mines', title: 'Click or drag to place mines; starting on a mine removes them' },
+  { id: 'start', label: '🟩 Start region', title: 'Cells open before play starts; zeros open their neighbors' },
+  { id: 'erase', label: '🧽 Erase', title: 'Back to a plain hidden cell' },
+];
+
+/**
+ * Puzzle editor: paint mines and a pre-opened start region, check the puzzle can be solved from what
+ * is visible, then save, share or play it.
+ */
+@Component({
+  selector: 'app-editor-page',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+  <div class="panel">
+    <h2>🧩 Puzzle editor</h2>
+    <div class="row">
+      <label>Name <input #nameInput [value]="name" (input)="name = nameInput.value" maxlength="40" placeholder="Untitled"></label>
+      <label>Rows <input #rowsInput type="number" [min]="limits.minSize" [max]="limits.maxRows" [value]="rows"
+                         (change)="resize(+rowsInput.value, cols)"></label>
+      <label>Columns <input #colsInput type="number" [min]="limits.minSize" [max]="limits.maxCols" [value]="cols"
+                            (change)="resize(rows, +colsInput.value)"></label>
+      <select #topologySelect (change)="setTopology(topologySelect.value)" aria-label="Board topology">
+        <option *ngFor="let t of topologies" [value]="t" [selected]="t === topology">{{ topologyLabel(t) }}</option>
+      </select>
+    </div>
+    <div class="row" role="radiogroup" aria-label="Paint tool">
+      <button *ngFor="let t of tools" role="radio" [attr.aria-checked]="tool === t.id" [class.active]="tool === t.id"
+              [title]="t.title" (click)="tool = t.id">{{ t.label }}</button>
+      <button (click)="clear()">Clear</button>
+      <span class="badge">💣 {{ mineCount }} mines</span>
+      <span class="badge" title="Safe cells the start region opens, zeros spreading">🟩 {{ openedCount }} open at start</span>
+    </div>
+
+    <div class="grid" [class.hex]="topology === 'hex'" [class.torus]="topology === 'torus'"
+         (pointermove)="paintAt($event)" (pointerleave)="painting = null">
+      <div class="grid-row" *ngFor="let y of rowIndices" [class.odd]="y % 2 === 1">
+        <button *ngFor="let x of colIndices" type="button" class="cell" [attr.data-i]="y * cols + x"
+                [ngClass]="cellClass(y * cols + x)" [attr.aria-label]="cellLabel(x, y)"
+                (pointerdown)="startPaint($event, y * cols + x)"
+                (keydown.enter)="paintOnce(y * cols + x)" (keydown.space)="$event.preventDefault(); paintOnce(y * cols + x)">
+          {{ cellText(y * cols + x) }}
+        </button>
+      </div>
+    </div>
+
+    <ul class="problems" *ngIf="problems.length">
+      <li *ngFor="let p of problems">{{ p }}</li>
+    </ul>
+    <div class="row">
+      <button (click)="verify()" [disabled]="problems.length"
+              title="Play the puzzle with the hint solver, using only what is visible">🧠 Verify</button>
+      <button (click)="save()" [disabled]="problems.length">💾 Save</button>
+      <button (click)="play()" [disabled]="problems.length">▶ Play</button>
+      <span class="badge verdict" *ngIf="verdict" [class.ok]="verdict.ok" aria-live="polite">{{ verdict.text }}</span>
+    </div>
+
+    <h3>Share</h3>
+    <div class="row">
+      <button (click)="copyCode()" [disabled]="problems.length">🔗 Copy code</button>
+      <button (click)="copyLink()" [disabled]="problems.length">🌐 Copy link</button>
+      <button (click)="download()" [disabled]="problems.length">⬇ Download file</button>
+      <input #codeInput placeholder="Paste puzzle code" aria-label="Puzzle code" (keydown.enter)="importText(codeInput.value)">
+      <button (click)="importText(codeInput.value)">Load</button>
+      <label class="file-button">⬆ Open file…
+        <input #file type="file" accept="application/json,.json,.txt" (change)="importFile(file)">
+      </label>
+    </div>
+    <p class="badge" *ngIf="message" aria-live="polite">{{ message }}</p>
+
+    <h3>Saved puzzles</h3>
+    <p class="muted" *ngIf="!saved.length">Nothing saved yet. Saved puzzles stay in this browser.</p>
+    <table *ngIf="saved.length">
+      <thead><tr><th>Name</th><th>Size</th><th>Mines</th><th>Best</th><th></th></tr></thead>
+      <tbody>
+        <tr *ngFor="let p of saved">
+          <th scope="row">{{ p.name }}</th>
+          <td>{{ p.rows }}×{{ p.cols }}{{ p.topology === 'square' ? '' : ' ' + topologyLabel(p.topology) }}</td>
+          <td>{{ p.mines.length }}</td>
+          <td>{{ bestTime(p) }}</td>
+          <td class="actions">
+            <button (click)="edit(p)">✏️ Edit</button>
+            <button (click)="play(p)">▶ Play</button>
+            <button (click)="remove(p)" [attr.aria-label]="'Delete ' + p.name">🗑</button>
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  </div>
+  `,
+  styles: [`
+    h2 { margin: 0 0 8px 0; }
+    h3 { margin: 18px 0 8px 0; }
+    .muted { color: var(--muted); }
+    .row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 8px 0; }
+    label { display: inline-flex; gap: 6px; align-items: center; }
+    input[type=number] { width: 5rem; }
+    button.active { border-color: var(--focus); background: var(--surface-hover); }
+    .grid { display: inline-flex; flex-direction: column; gap: 2px; padding: 6px; margin: 8px 0; touch-action: none;
+      user-select: none; border: 1px solid var(--border); border-radius: 10px; max-width: 100%; overflow: auto; }
+    .grid.torus { border-style: dashed; }
+    .grid-row { display: flex; gap: 2px; }
+    .grid.hex .grid-row.odd { padding-left: 13px; }
+    .cell { width: 24px; height: 24px; padding: 0; border-radius: 4px; font-size: .75rem; font-weight: 700;
+      border: 1px solid var(--tile-border); }
+    .cell.mine { background: var(--hint-mine-fill); }
+    .cell.start { background: var(--tile-revealed); border-color: var(--hint-safe); }
+    .cell.opened { background: var(--tile-revealed); }
+    .problems { color: var(--hint-mine); margin: 4px 0; }
+    .verdict { border-color: var(--hint-guess); } .verdict.ok { border-color: var(--hint-safe); }
+    table { border-collapse: collapse; }
+    th, td { padding: 6px 10px; border-bottom: 1px solid var(--border); text-align: left; }
+    .actions { display: flex; gap: 6px; }
+  `]
+})
+export class EditorPageComponent {
+  private readonly game = inject(GameService);
+  private readonly puzzles = inject(PuzzleService);
+  private readonly router = inject(Router);
+  readonly limits = PUZZLE_LIMITS;
+  readonly topologies = TOPOLOGY_KINDS;
+  readonly tools = TOOLS;
+
+  name = '';
+  rows = 9;
+  cols = 9;
+  topology: TopologyKind = 'square';
+  tool: Tool = 'mine';
+  /** Cell states, row-major: hidden, mine or start region. */
+  private states: number[] = new Array(this.rows * this.cols).fill(HIDDEN);
+  /** The state a drag paints, chosen by the cell it started on; null when not painting. */
+  painting: number | null = null;
+  /** What the player will see at the start, for the numbers in the start region. */
+  preview: Board = puzzleBoard(this.puzzle);
+  problems: string[] = validatePuzzle(this.puzzle);
+  verdict: { ok: boolean; text: string } | null = null;
+  message = '';
+
+  get puzzle(): Puzzle {
+    const mines: number[] = [], revealed: number[] = [];
+    this.states.forEach((s, i) => {
+      if (s === MINE) mines.push(i);
+      else if (s === START) revealed.push(i);
+    });
+    return { name: this.name.trim(), rows: this.rows, cols: this.cols, topology: this.topology, mines, revealed };
+  }
+  get saved(): readonly Puzzle[] { return this.puzzles.list; }
+  get rowIndices(): number[] { return Array.from({ length: this.rows }, (_, i) => i); }
+  get colIndices(): number[] { return Array.from({ length: this.cols }, (_, i) => i); }
+  get mineCount(): number { return this.states.filter(s => s === MINE).length; }
+  get openedCount(): number { return this.rows * this.cols - this.mineCount - this.preview.safeLeft; }
+
+  topologyLabel(t: TopologyKind): string { return TOPOLOGIES[t].label; }
+
+  cellClass(i: number): string {
+    const s = this.states[i];
+    return s === MINE ? 'mine' : s === START ? 'start' : this.preview.cells[i] & REVEALED ? 'opened' : '';
+  }
+  cellText(i: number): string {
+    if (this.states[i] === MINE) return '💣';
+    return this.preview.cells[i] & REVEALED && this.preview.adjacent[i] ? String(this.preview.adjacent[i]) : '';
+  }
+  cellLabel(x: number, y: number): string {
+    const s = this.states[y * this.cols + x];
+    return `Row ${y + 1}, column ${x + 1}: ${s === MINE ? 'mine' : s === START ? 'start region' : 'hidden'}`;
+  }
+
+  startPaint(ev: PointerEvent, i: number){
+    if (ev.button !== 0) return;
+    ev.preventDefault();
+    // Touch pointers are captured by the cell they started on; release so moves reach the grid.
+    (ev.target as Element).releasePointerCapture?.(ev.pointerId);
+    const wanted = this.tool === 'mine' ? MINE : this.tool === 'start' ? START : HIDDEN;
+    this.painting = this.states[i] === wanted ? HIDDEN : wanted;
+    this.paint(i);
+  }
+  paintAt(ev: PointerEvent){
+    if (this.painting === null) return;
+    const cell = document.elementFromPoint(ev.clientX, ev.clientY)?.closest('[data-i]');
+    if (cell) this.paint(Number(cell.getAttribute('data-i')));
+  }
+  @HostListener('document:pointerup')
+  @HostListener('document:pointercancel')
+  stopPaint(){ this.painting = null; }
+
+  /** Keyboard painting: one cell at a time, toggling like a click. */
+  paintOnce(i: number){
+    const wanted = this.tool === 'mine' ? MINE : this.tool === 'start' ? START : HIDDEN;
+    this.painting = this.states[i] === wanted ? HIDDEN : wanted;
+    this.paint(i);
+    this.painting = null;
+  }
+
+  resize(rows: number, cols: number){
+    const { minSize, maxRows, maxCols } = this.limits;
+    if (!Number.isInteger(rows) || !Number.isInteger(cols)) return;
+    rows = Math.min(maxRows, Math.max(minSize, rows));
+    cols = Math.min(maxCols, Math.max(minSize, cols));
+    const states = new Array(rows * cols).fill(HIDDEN);
+    for (let y = 0; y < Math.min(rows, this.rows); y++) {
+      for (let x = 0; x < Math.min(cols, this.cols); x++) states[y * cols + x] = this.states[y * this.cols + x];
+    }
+    this.rows = rows;
+    this.cols = cols;
+    this.states = states;
+    this.changed();
+  }
+  setTopology(topology: string){
+    if (!isOneOf(topology, TOPOLOGY_KINDS)) return;
+    this.topology = topology;
+    this.changed();
+  }
+  clear(){
+    this.states = this.states.map(() => HIDDEN);
+    this.changed();
+  }
+
+  /** Solve from the start region with visible information only, as a player would. */
+  verify(){
+    const p = this.puzzle;
+    if (!p.revealed.length) {
+      this.verdict = { ok: false, text: '⚠️ No start region: the first move would be a guess.' };
+      return;
+    }
+    const unsolved = unsolvedPuzzleCells(p);
+    this.verdict = unsolved === 0
+      ? { ok: true, text: '✅ Solvable by logic alone from the start region.' }
+      : { ok: false, text: `⚠️ Logic gets stuck with ${unsolved} safe cell${unsolved === 1 ? '' : 's'} left: a guess is needed.` };
+  }
+  save(){
+    const p = this.puzzle;
+    if (!p.name) {
+      this.message = 'Give the puzzle a name to save it.';
+      return;
+    }
+    this.message = this.puzzles.save(p) ? `Saved “${p.name}”.` : 'This puzzle can\'t be played yet.';
+  }
+  play(p: Puzzle = this.puzzle){
+    try {
+      this.game.loadPuzzle(p);
+      this.router.navigate(['/']);
+    } catch (e) {
+      if (!(e instanceof BoardConfigError)) throw e;
+      this.message = e.message;
+    }
+  }
+  edit(p: Puzzle){
+    const states = new Array(p.rows * p.cols).fill(HIDDEN);
+    for (const i of p.mines) states[i] = MINE;
+    for (const i of p.revealed) states[i] = START;
+    this.name = p.name;
+    this.rows = p.rows;
+    this.cols = p.cols;
+    this.topology = p.topology;
+    this.states = states;
+    this.changed();
+  }
+  remove(p: Puzzle){ this.puzzles.remove(p.name); }
+  bestTime(p: Puzzle): string {
+    const ms = this.puzzles.bestTimeMs(p);
+    return ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  copyCode(){ this.copy(encodePuzzle(this.puzzle), 'Code copied'); }
+  copyLink(){ this.copy(`${location.origin}/play/${encodeURIComponent(encodePuzzle(this.puzzle))}`, 'Link copied'); }
+  download(){
+    const p = this.puzzle;
+    const blob = new Blob([JSON.stringify(puzzleFile(p), null, 2)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `${slug(p.name) || 'puzzle'}.minesweeper.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+  importText(text: string){
+    if (!text.trim()) return;
+    const p = parsePuzzleFile(text);
+    if (p) this.edit(p);
+    this.message = p ? `Loaded “${p.name || 'Untitled'}”.` : 'Invalid puzzle code or file';
+  }
+  importFile(input: HTMLInputElement){
+    const file = input.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      this.importText(text);
+      input.value = '';
+    });
+  }
+
+  private paint(i: number){
+    if (this.painting === null || this.states[i] === this.painting) return;
+    this.states[i] = this.painting;
+    this.changed();
+  }
+  /** Any edit: refresh the preview and problems, and drop a verdict that no longer applies. */
+  private changed(){
+    const p = this.puzzle;
+    this.preview = puzzleBoard(p);
+    this.problems = validatePuzzle(p);
+    if (!this.problems.length && this.preview.safeLeft === 0) {
+      this.problems = ['The start region already opens every safe cell.'];
+    }
+    this.verdict = null;
+  }
+  private copy(text: string, done: string){
+    this.message = text;
+    navigator.clipboard?.writeText(text).then(() => this.message = done, () => {});
+  }
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
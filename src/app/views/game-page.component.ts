@@ -1,65 +1,294 @@
 import { Component, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { distinctUntilChanged, of, switchMap } from 'rxjs';
 import { BoardComponent } from '../components/board/board.component';
+import { CustomGameComponent } from '../components/custom-game/custom-game.component';
+import { PostMortemComponent } from '../components/post-mortem/post-mortem.component';
+import { AchievementToastsComponent } from '../components/achievement-toasts/achievement-toasts.component';
 import { GameService } from '../services/game.service';
-import { GameStatus } from '../models/game-state';
+import { DailyService } from '../services/daily.service';
+import { PuzzleService } from '../services/puzzle.service';
+import { SettingsService, keyLabel } from '../services/settings.service';
+import { KeyAction } from '../models/settings';
+import { ProbabilityService } from '../services/probability.service';
+import { GameState, GameStatus } from '../models/game-state';
+import { PRESETS } from '../models/presets';
+import { BoardConfig, BoardConfigError } from '../utils/board-config';
+import { GameMetrics, gameMetrics, timeLeftMs } from '../utils/metrics';
+import { rankingKey } from '../utils/ranking';
+import { isOneOf } from '../utils/guards';
+import { TOPOLOGIES, TOPOLOGY_KINDS, TopologyKind } from '../models/topology';
+import { TIME_MODES, TIME_MODE_INFO, TimeMode, timeLimitFor, timeModeOf } from '../models/time-mode';
 
 @Component({
   selector: 'app-game-page',
   standalone: true,
-  imports: [CommonModule, BoardComponent],
+  imports: [
+    CommonModule, BoardComponent, CustomGameComponent, PostMortemComponent, AchievementToastsComponent, RouterLink,
+  ],
   template: `
   <div class="panel controls">
     <div class="difficulty">
       <button (click)="newGame('Beginner')">Beginner 9×9 · 10 💣</button>
       <button (click)="newGame('Intermediate')">Intermediate 16×16 · 40 💣</button>
       <button (click)="newGame('Expert')">Expert 16×30 · 99 💣</button>
+      <button (click)="playDaily()" title="One board per day, the same for everyone; one attempt">📅 Daily</button>
+      <button (click)="showCustom = !showCustom" [attr.aria-expanded]="showCustom">Custom…</button>
+      <label class="toggle" title="Only boards that can be cleared by logic alone">
+        <input #noGuessBox type="checkbox" [checked]="noGuess" (change)="setNoGuess(noGuessBox.checked)"> No-guess
+      </label>
+      <select #topologySelect (change)="setTopology(topologySelect.value)" aria-label="Board topology"
+              title="Square, torus (edges wrap around) or hexagonal cells">
+        <option *ngFor="let t of topologies" [value]="t" [selected]="t === topology">{{ topologyLabel(t) }}</option>
+      </select>
+      <select #timeModeSelect (change)="setTimeMode(timeModeSelect.value)" aria-label="Timer mode"
+              title="Count up, or race a countdown that loses the game when it runs out">
+        <option *ngFor="let m of timeModes" [value]="m" [selected]="m === timeMode"
+                [title]="timeModeDescription(m)">{{ timeModeLabel(m) }}</option>
+      </select>
     </div>
     <div class="stats" *ngIf="(state$ | async) as s">
-      <span class="badge" aria-live="polite">⏱ {{ (s.elapsedMs/1000) | number : '1.1-1' }}s</span>
+      <span class="badge" aria-live="polite">⏱ {{ (s.elapsedMs/1000) | number : '1.1-1' }}s{{ s.paused ? ' ⏸' : '' }}</span>
+      <span class="badge countdown" *ngIf="s.timeLimit" [class.low]="timeLeft(s)! < 10000"
+            title="Time attack: the game is lost when this reaches zero">⏳ {{ (timeLeft(s)!/1000) | number : '1.1-1' }}s left</span>
       <span class="badge">🚩 Flags: {{ s.flagsPlaced }}</span>
       <span class="badge">💣 Mines: {{ s.minesLeft }}</span>
-      <span class="badge" *ngIf="bestTimeSec !== null">🏆 Best ({{s.difficulty}}): {{ bestTimeSec | number: '1.1-1' }}s</span>
+      <ng-container *ngIf="metrics(s) as m">
+        <span class="badge" title="3BV: the fewest clicks that clear the board">🎯 3BV: {{ m.solvedBbbv }}/{{ m.bbbv }}</span>
+        <span class="badge">⚡ {{ m.bbbvPerSec === null ? '—' : (m.bbbvPerSec | number: '1.2-2') }} 3BV/s</span>
+        <span class="badge" title="Efficiency: 3BV cleared per click">🖱 {{ m.clicks }} clicks{{ m.wastedClicks ? ' (' + m.wastedClicks + ' wasted)' : '' }}
+          · IOE {{ m.ioe === null ? '—' : (m.ioe | number: '1.2-2') }}</span>
+        <span class="badge" *ngIf="s.status === GameStatus.Playing && m.estimatedMs !== null"
+              title="Finish time at the current 3BV/s">⏳ Est. {{ (m.estimatedMs / 1000) | number: '1.0-0' }}s</span>
+      </ng-container>
+      <span class="badge" *ngIf="s.noGuess && s.noGuessVerified !== undefined"
+            [title]="s.noGuessVerified ? 'Solvable by logic from the first click' : 'Generation budget ran out; this board may need a guess'">
+        {{ s.noGuessVerified ? '🧠 No-guess' : '⚠️ No-guess fallback' }}
+      </span>
+      <span class="badge" *ngIf="s.puzzle as p" title="A hand-made puzzle: solve times are kept per puzzle">🧩 {{ p.name || 'Puzzle' }}</span>
+      <span class="badge" *ngIf="puzzleBestMs !== null">🏆 Puzzle best: {{ puzzleBestMs / 1000 | number: '1.1-1' }}s</span>
+      <span class="badge" *ngIf="bestTimeSec !== null">🏆 Best ({{ boardLabel(s) }}{{ s.noGuess ? ', no-guess' : '' }}): {{ bestTimeSec | number: '1.1-1' }}s</span>
       <button (click)="restart()">Restart</button>
+      <button (click)="togglePause(s)" [disabled]="s.status !== GameStatus.Playing" [attr.aria-pressed]="s.paused">
+        {{ s.paused ? '▶ Resume' : '⏸ Pause' }}</button>
       <button (click)="hint()" [disabled]="(state$ | async)?.hintsLeft === 0">Hint ({{(state$ | async)?.hintsLeft}})</button>
+      <button (click)="undo()" [disabled]="!canUndo" title="Practice undo: the game will not count for the leaderboard">↩ Undo</button>
+      <button (click)="toggleAnalysis()" [attr.aria-pressed]="s.analysis"
+              title="Show every hidden cell's mine probability. A game played with this on is unranked.">🔬 Analysis</button>
+      <span class="badge" *ngIf="s.practice" title="Undo or analysis was used">🧪 Practice · unranked</span>
+    </div>
+    <app-custom-game *ngIf="showCustom" (start)="startCustom($event)"></app-custom-game>
+    <div class="share">
+      <button (click)="share()">🔗 Share board</button>
+      <input #codeInput placeholder="Paste game code" aria-label="Game code" (keydown.enter)="loadCode(codeInput.value)">
+      <button (click)="loadCode(codeInput.value)">Load</button>
+      <span class="badge" *ngIf="shareMessage" aria-live="polite">{{ shareMessage }}</span>
     </div>
   </div>
 
   <div class="panel" *ngIf="(state$ | async) as s">
     <div class="status" [ngClass]="s.status">
       <ng-container [ngSwitch]="s.status">
-        <span *ngSwitchCase="GameStatus.Ready" aria-live="polite">Tap a tile to start.</span>
-        <span *ngSwitchCase="GameStatus.Playing" aria-live="polite">Good luck!</span>
-        <span *ngSwitchCase="GameStatus.Won" aria-live="polite">🎉 You Win!</span>
-        <span *ngSwitchCase="GameStatus.Lost" aria-live="polite">💥 Boom! You hit a mine.</span>
+        <span *ngSwitchCase="GameStatus.Ready" aria-live="polite">
+          <ng-container *ngIf="s.puzzle">Puzzle{{ s.puzzle.name ? ' “' + s.puzzle.name + '”' : '' }}: </ng-container>
+          <ng-container *ngIf="s.firstClickCell as c; else tapAnywhere">{{ s.daily ? 'Daily ' + s.daily : 'Shared board' }}: start at row {{ c.y + 1 }}, column {{ c.x + 1 }}.</ng-container>
+          <ng-template #tapAnywhere>Tap a tile to start.</ng-template>
+        </span>
+        <span *ngSwitchCase="GameStatus.Playing" aria-live="polite">{{ s.paused ? 'Paused.' : 'Good luck!' }}</span>
+        <span *ngSwitchCase="GameStatus.Won" aria-live="polite">🎉 You Win! <a *ngIf="canReplay" routerLink="/replay">Watch replay</a></span>
+        <span *ngSwitchCase="GameStatus.Lost" aria-live="polite">{{ s.loss?.cause === 'time' ? '⌛ Time\'s up' : '💥 Boom! You hit a mine' }}<ng-container *ngIf="metrics(s) as m">
+          after clearing {{ m.solvedBbbv }} of {{ m.bbbv }} 3BV ({{ m.solvedBbbv / m.bbbv | percent }})</ng-container>.
+          <a *ngIf="canReplay" routerLink="/replay">Watch replay</a></span>
       </ng-container>
+      <span *ngIf="s.daily && (s.status === GameStatus.Won || s.status === GameStatus.Lost)">
+        · 🔥 Daily streak {{ dailyStreak }} <button (click)="copyDailyResult(s.daily)">📋 Copy result</button>
+      </span>
+    </div>
+    <app-post-mortem *ngIf="s.loss as loss" [loss]="loss"></app-post-mortem>
+
+    <div class="hint" *ngIf="s.hint as h" aria-live="polite" [ngClass]="h.kind">
+      <strong>{{ h.kind === 'safe' ? '✅ Safe' : h.kind === 'mine' ? '🚩 Mine' : '🎲 Best guess' }}
+        (row {{ h.y + 1 }}, column {{ h.x + 1 }}):</strong> {{ h.reason }}
     </div>
 
-    <app-board
-      [board]="s.board"
-      [rows]="s.rows"
-      [cols]="s.cols">
-    </app-board>
+    <!-- The board is taken away while paused, so a pause can't buy thinking time. -->
+    <div class="paused" *ngIf="s.paused; else board">
+      <p>⏸ Paused</p>
+      <button (click)="togglePause(s)">▶ Resume</button>
+    </div>
+    <ng-template #board>
+      <app-board
+        [board]="s.board"
+        [hint]="s.hint"
+        [topology]="s.topology"
+        [lost]="s.status === GameStatus.Lost"
+        [probabilities]="probabilities$ | async">
+      </app-board>
+    </ng-template>
   </div>
 
   <div class="footer">
     <p>
-      Keyboard: Arrow keys to move, <kbd>Space</kbd>/<kbd>Enter</kbd> reveal, <kbd>F</kbd> flag, 
-      <kbd>C</kbd>/<kbd>Enter</kbd> on a number = chord. Long‑press on mobile to place 🚩.
+      Keyboard: <kbd>Tab</kbd> into the board, then arrows, <kbd>Home</kbd>/<kbd>End</kbd> and
+      <kbd>PgUp</kbd>/<kbd>PgDn</kbd> to move, <kbd>N</kbd>/<kbd>Shift</kbd>+<kbd>N</kbd> next/previous unrevealed cell.
+      <kbd>{{ keysFor('reveal') }}</kbd> reveal (chords on a number), <kbd>{{ keysFor('flag') }}</kbd> flag,
+      <kbd>{{ keysFor('chord') }}</kbd> chord. On mobile, long‑press or use flag mode to place 🚩; drag to pan and pinch to zoom. <a routerLink="/settings">Change controls</a>
     </p>
   </div>
-  `
+
+  <app-achievement-toasts></app-achievement-toasts>
+  `,
+  styles: [`
+    .countdown.low { color: var(--hint-mine); border-color: var(--hint-mine); }
+    .paused {
+      display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 8px;
+      min-height: 240px; border-radius: 10px; border: 1px dashed var(--border);
+    }
+    .paused p { margin: 0; font-size: 1.4rem; }
+  `]
 })
 export class GamePageComponent {
   GameStatus = GameStatus;
   private game = inject(GameService);
+  private dailies = inject(DailyService);
+  private puzzles = inject(PuzzleService);
+  private settings = inject(SettingsService);
   state$ = this.game.state$;
-  bestTimeSec: number | null = this.game.getBestTimeSec(this.game.snapshot.difficulty);
+  private probability = inject(ProbabilityService);
+  /** Analysis overlay, recomputed (off the main thread) whenever the board changes. */
+  probabilities$ = this.state$.pipe(
+    distinctUntilChanged((a, b) => a.board === b.board && a.analysis === b.analysis && a.status === b.status),
+    switchMap(s => s.analysis && (s.status === GameStatus.Ready || s.status === GameStatus.Playing)
+      ? this.probability.compute(s.board, s.mines, s.topology)
+      : of(null)),
+  );
+  bestTimeSec: number | null = null;
+  puzzleBestMs: number | null = null;
+  shareMessage = '';
+  noGuess = this.game.snapshot.noGuess;
+  topologies = TOPOLOGY_KINDS;
+  topology = this.game.snapshot.topology;
+  timeModes = TIME_MODES;
+  timeMode = timeModeOf(this.game.snapshot.timeLimit);
+  showCustom = false;
+
+  constructor() {
+    inject(ActivatedRoute).paramMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      const code = params.get('code');
+      if (code) this.loadCode(code);
+    });
+    this.refreshBest();
+  }
 
   newGame(preset: 'Beginner'|'Intermediate'|'Expert'){
-    this.game.newPreset(preset);
-    this.bestTimeSec = this.game.getBestTimeSec(preset);
+    const p = PRESETS[preset];
+    this.game.newPreset(preset, {
+      noGuess: this.noGuess, topology: this.topology, timeLimit: timeLimitFor(this.timeMode, p.rows, p.cols, p.mines),
+    });
+    this.refreshBest();
+  }
+  playDaily(){
+    if (this.game.newDaily()) {
+      this.shareMessage = '';
+      this.topology = this.game.snapshot.topology;
+      this.timeMode = 'up';
+      this.refreshBest();
+    } else {
+      this.shareMessage = 'Today\'s daily is done. A new board unlocks at midnight.';
+    }
+  }
+  metrics(s: GameState): GameMetrics | null { return gameMetrics(s); }
+
+  keysFor(action: KeyAction): string {
+    return this.settings.snapshot.keys[action].map(keyLabel).join(' / ') || 'unbound';
+  }
+  get dailyStreak(): number { return this.dailies.streak().current; }
+  copyDailyResult(date: string){
+    const text = this.dailies.shareText(date);
+    if (!text) return;
+    navigator.clipboard?.writeText(text).then(() => this.shareMessage = 'Result copied', () => {});
+  }
+  startCustom(config: BoardConfig){
+    try {
+      this.game.newGame(config.rows, config.cols, config.mines, 'Custom', {
+        noGuess: this.noGuess, topology: this.topology,
+        timeLimit: timeLimitFor(this.timeMode, config.rows, config.cols, config.mines),
+      });
+      this.showCustom = false;
+      this.shareMessage = '';
+      this.refreshBest();
+    } catch (e) {
+      if (!(e instanceof BoardConfigError)) throw e;
+      this.shareMessage = e.message;
+    }
+  }
+  restart(){
+    const { rows, cols, mines } = this.game.snapshot;
+    this.game.restart({
+      noGuess: this.noGuess, topology: this.topology, timeLimit: timeLimitFor(this.timeMode, rows, cols, mines),
+    });
+    this.refreshBest();
+  }
+  /** No-guess, topology and the timer mode apply to the next board; an untouched board is swapped right away. */
+  setNoGuess(on: boolean){
+    this.noGuess = on;
+    this.restartIfUntouched();
+  }
+  setTopology(topology: string){
+    if (!isOneOf(topology, TOPOLOGY_KINDS)) return;
+    this.topology = topology;
+    this.restartIfUntouched();
+  }
+  topologyLabel(t: TopologyKind): string { return TOPOLOGIES[t].label; }
+  setTimeMode(mode: string){
+    if (!isOneOf(mode, TIME_MODES)) return;
+    this.timeMode = mode;
+    this.restartIfUntouched();
+  }
+  timeModeLabel(m: TimeMode): string { return m === 'up' ? '⏱ Count up' : TIME_MODE_INFO[m].label; }
+  timeModeDescription(m: TimeMode): string {
+    return m === 'up' ? 'The classic clock: no time limit' : TIME_MODE_INFO[m].description;
+  }
+  timeLeft(s: GameState): number | null { return timeLeftMs(s); }
+  togglePause(s: GameState){
+    if (s.paused) this.game.resume();
+    else this.game.pause();
+  }
+  private restartIfUntouched(){
+    const s = this.game.snapshot;
+    if (s.status === GameStatus.Ready && !s.firstClickCell && !s.puzzle) this.restart();
   }
-  restart(){ this.game.restart(); }
   hint(){ this.game.useHint(); }
+  toggleAnalysis(){ this.game.setAnalysis(!this.game.snapshot.analysis); }
+  undo(){ this.game.undo(); }
+  get canUndo(): boolean { return this.game.canUndo; }
+  get canReplay(): boolean { return this.game.canReplay; }
+
+  loadCode(code: string){
+    if (!code.trim()) return;
+    if (this.game.loadGameCode(code)) {
+      this.shareMessage = '';
+      this.noGuess = this.game.snapshot.noGuess;
+      this.topology = this.game.snapshot.topology;
+      this.timeMode = 'up';
+      this.refreshBest();
+    } else {
+      this.shareMessage = 'Invalid game code';
+    }
+  }
+  share(){
+    const code = this.game.exportGameCode();
+    // Puzzle names may hold characters that need escaping in a path.
+    const url = `${location.origin}/play/${encodeURIComponent(code)}`;
+    this.shareMessage = code;
+    navigator.clipboard?.writeText(url).then(() => this.shareMessage = `Link copied: ${code}`, () => {});
+  }
+  private refreshBest(){
+    const s = this.game.snapshot;
+    this.bestTimeSec = s.puzzle ? null : this.game.getBestTimeSec(s);
+    this.puzzleBestMs = s.puzzle ? this.puzzles.bestTimeMs(s.puzzle) : null;
+  }
+  boardLabel(s: GameState): string { return rankingKey({ ...s, noGuess: false }); }
 }
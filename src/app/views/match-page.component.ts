@@ -0,0 +1,236 @@
+import { Component, HostListener, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { BoardComponent } from '../components/board/board.component';
+import { MatchResultComponent } from '../components/match-result/match-result.component';
+import { MatchService, createMatchSetup } from '../services/match.service';
+import { Board, FLAGGED, MINE, REVEALED } from '../models/board';
+import { GameStatus } from '../models/game-state';
+import { Hint } from '../models/hint';
+import { MatchMode, MatchSetup, MatchState, Seat } from '../models/match';
+import { PRESETS, Preset } from '../models/presets';
+import { Cell, TOPOLOGIES, TOPOLOGY_KINDS, TopologyKind } from '../models/topology';
+import { isOneOf } from '../utils/guards';
+
+/** Split-screen controls: each player moves their own cursor. */
+const SPLIT_KEYS: Record<Seat, { up: string; down: string; left: string; right: string; reveal: string; flag: string }> = {
+  0: { up: 'w', down: 's', left: 'a', right: 'd', reveal: 'e', flag: 'q' },
+  1: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', reveal: 'Enter', flag: '/' },
+};
+
+@Component({
+  selector: 'app-match-page',
+  standalone: true,
+  imports: [CommonModule, MatchResultComponent],
+  providers: [MatchService],
+  template: `
+  <ng-container *ngIf="state$ | async as m">
+    <div class="panel lobby" *ngIf="m.phase === 'idle'">
+      <h2>⚔️ Two-player match</h2>
+      <fieldset>
+        <legend>Mode</legend>
+        <label class="toggle"><input type="radio" name="mode" [checked]="mode === 'race'" (change)="mode = 'race'">
+          🏁 Race: identical boards side by side, first to clear wins, a mine knocks you out</label>
+        <label class="toggle"><input type="radio" name="mode" [checked]="mode === 'flags'" (change)="mode = 'flags'">
+          🚩 Flags: one shared board, take turns; finding a mine scores and earns another go</label>
+      </fieldset>
+      <div class="row">
+        <select #presetSelect (change)="preset = presets[+presetSelect.value]" aria-label="Board">
+          <option *ngFor="let p of presets; let i = index" [value]="i" [selected]="p === preset">
+            {{ p.difficulty }} {{ p.rows }}×{{ p.cols }} · {{ p.mines }} 💣</option>
+        </select>
+        <select #topologySelect (change)="setTopology(topologySelect.value)" aria-label="Board topology">
+          <option *ngFor="let t of topologies" [value]="t" [selected]="t === topology">{{ topologyLabel(t) }}</option>
+        </select>
+        <input #name1 [value]="names[0]" (input)="names[0] = name1.value" maxlength="24" aria-label="Player 1 name">
+        <input #name2 [value]="names[1]" (input)="names[1] = name2.value" maxlength="24" aria-label="Player 2 name">
+      </div>
+      <div class="row">
+        <button (click)="playSplitScreen()">🖥️ Split screen</button>
+        <button (click)="hostTabs()">🗂️ Host in two tabs</button>
+        <input #roomInput placeholder="Room code" aria-label="Room code" (keydown.enter)="joinRoom(roomInput.value)">
+        <button (click)="joinRoom(roomInput.value)">Join</button>
+      </div>
+      <p class="help">
+        Split screen: {{ names[0] }} moves with <kbd>W</kbd><kbd>A</kbd><kbd>S</kbd><kbd>D</kbd>, reveals with <kbd>E</kbd>
+        and flags with <kbd>Q</kbd>; {{ names[1] }} uses the arrow keys, <kbd>Enter</kbd> and <kbd>/</kbd>. The mouse plays
+        for whoever may move. Two tabs: host here, then open the room link in another tab of this browser.
+      </p>
+    </div>
+
+    <div class="panel" *ngIf="m.phase === 'waiting'">
+      <ng-container *ngIf="m.localSeats[0] === 0; else joining">
+        <p aria-live="polite">Waiting for player 2. Room <strong>{{ m.room }}</strong>:
+          open <code>{{ roomLink(m.room!) }}</code> in another tab.</p>
+      </ng-container>
+      <ng-template #joining><p aria-live="polite">Joining room <strong>{{ m.room }}</strong>…</p></ng-template>
+      <button (click)="leave()">Cancel</button>
+    </div>
+
+    <ng-container *ngIf="m.phase === 'playing' || m.phase === 'over'">
+      <div class="panel" *ngIf="m.phase === 'over'">
+        <app-match-result [match]="m" (rematch)="rematch()" (leave)="leave()"></app-match-result>
+      </div>
+      <div class="panel controls">
+        <div class="stats">
+          <span class="badge">{{ m.setup!.mode === 'race' ? '🏁 Race' : '🚩 Flags' }}
+            · {{ m.setup!.rows }}×{{ m.setup!.cols }} · {{ m.setup!.mines }} 💣</span>
+          <span class="badge" *ngIf="m.room">Room {{ m.room }}</span>
+          <span class="badge" *ngIf="m.opponentLeft">Opponent left</span>
+          <span class="badge" *ngIf="m.setup!.mode === 'flags' && m.phase === 'playing'" aria-live="polite">
+            {{ m.players[m.turn].name }}'s turn{{ m.localSeats.includes(m.turn) ? '' : ' (other tab)' }}</span>
+        </div>
+        <button (click)="leave()">Leave match</button>
+      </div>
+      <div class="boards" [class.race]="m.setup!.mode === 'race'">
+        <div class="panel seat" *ngFor="let seat of boardSeats(m)" [class.active]="m.setup!.mode === 'flags' || isLocal(m, seat)">
+          <h3>
+            <ng-container *ngIf="m.setup!.mode === 'race'; else flagScores">
+              {{ m.players[seat].name }}{{ isLocal(m, seat) ? '' : ' (other tab)' }}
+              · {{ m.players[seat].score }} / {{ safeCells(m.setup!) }} cleared
+              · ⏱ {{ (m.players[seat].elapsedMs / 1000) | number: '1.1-1' }}s
+            </ng-container>
+            <ng-template #flagScores>
+              <span *ngFor="let p of m.players; let s = index" [class.turn]="s === m.turn">{{ p.name }}: {{ p.score }} 🚩 </span>
+            </ng-template>
+          </h3>
+          <ng-container *ngComponentOutlet="boardComponent; injector: match.scope(seat); inputs: boardInputs(m, seat)"></ng-container>
+        </div>
+      </div>
+    </ng-container>
+  </ng-container>
+  `,
+  styles: [`
+    .lobby h2 { margin: 0 0 8px 0; }
+    fieldset { border: 1px solid #263064; border-radius: 10px; display: grid; gap: 6px; margin: 0 0 10px 0; }
+    .row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 10px; }
+    .help { color: var(--muted); font-size: .9rem; margin: 0; }
+    .boards { display: grid; gap: 12px; margin-top: 14px; }
+    .boards.race { grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); }
+    .seat { overflow: auto; --tile-size: 32px; }
+    .seat:not(.active) { opacity: .85; }
+    .seat h3 { margin: 0 0 8px 0; font-size: 1rem; }
+    .seat h3 .turn { color: #fde68a; }
+  `]
+})
+export class MatchPageComponent {
+  readonly match = inject(MatchService);
+  readonly state$ = this.match.state$;
+  readonly boardComponent = BoardComponent;
+
+  presets: Preset[] = Object.values(PRESETS).filter(p => p.difficulty !== 'Daily');
+  preset: Preset = PRESETS.Beginner;
+  topologies = TOPOLOGY_KINDS;
+  topology: TopologyKind = 'square';
+  mode: MatchMode = 'race';
+  names: [string, string] = ['Player 1', 'Player 2'];
+  /** Split-screen cursors, one per seat. */
+  cursors: [Cell, Cell] = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+  /** The highlighted first cell of a race board, kept per setup so the board sees a stable input. */
+  private startHint?: { setup: MatchSetup; hint: Hint };
+
+  constructor() {
+    inject(ActivatedRoute).queryParamMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      const room = params.get('room');
+      if (room) this.joinRoom(room);
+    });
+  }
+
+  setTopology(topology: string): void {
+    if (isOneOf(topology, TOPOLOGY_KINDS)) this.topology = topology;
+  }
+
+  playSplitScreen(): void {
+    this.match.startLocal(this.newSetup());
+    this.resetCursors();
+  }
+  hostTabs(): void { this.match.host(this.newSetup()); }
+  joinRoom(room: string): void {
+    if (room.trim()) this.match.join(room.trim(), this.names[1]);
+  }
+  rematch(): void {
+    this.match.rematch();
+    this.resetCursors();
+  }
+  leave(): void { this.match.leave(); }
+
+  roomLink(room: string): string { return `${location.origin}/match?room=${room}`; }
+  topologyLabel(t: TopologyKind): string { return TOPOLOGIES[t].label; }
+  safeCells(setup: MatchSetup): number { return setup.rows * setup.cols - setup.mines; }
+  isLocal(m: MatchState, seat: Seat): boolean { return m.localSeats.includes(seat); }
+  boardSeats(m: MatchState): Seat[] { return m.setup!.mode === 'race' ? [0, 1] : [m.turn]; }
+
+  boardInputs(m: MatchState, seat: Seat): Record<string, unknown> {
+    const s = this.match.engine(seat).snapshot;
+    const split = m.localSeats.length === 2;
+    return {
+      board: s.board,
+      topology: s.topology,
+      hint: s.firstClick && s.firstClickCell ? this.startHintFor(m.setup!) : undefined,
+      interactive: this.match.canAct(seat),
+      cursor: split && this.match.canAct(seat) ? this.cursors[seat] : null,
+      lost: s.status === GameStatus.Lost,
+    };
+  }
+
+  /** Split-screen keys. Keys a focused board or form field already handled are left alone. */
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(ev: KeyboardEvent): void {
+    const m = this.match.snapshot;
+    if (ev.defaultPrevented || m.phase !== 'playing' || m.localSeats.length !== 2) return;
+    if (ev.target instanceof HTMLInputElement || ev.target instanceof HTMLSelectElement) return;
+    for (const seat of [0, 1] as Seat[]) {
+      const keys = SPLIT_KEYS[seat];
+      const key = ev.key.length === 1 ? ev.key.toLowerCase() : ev.key;
+      if (!Object.values(keys).includes(key) || !this.match.canAct(seat)) continue;
+      ev.preventDefault();
+      const board = this.match.engine(seat).snapshot.board;
+      const cursor = this.cursors[seat];
+      switch (key) {
+        case keys.up: this.moveCursor(seat, board, 0, -1); break;
+        case keys.down: this.moveCursor(seat, board, 0, 1); break;
+        case keys.left: this.moveCursor(seat, board, -1, 0); break;
+        case keys.right: this.moveCursor(seat, board, 1, 0); break;
+        case keys.flag: this.match.engine(seat).mark(cursor); break;
+        case keys.reveal: {
+          const i = cursor.y * board.cols + cursor.x;
+          const open = (board.cells[i] & (REVEALED | MINE | FLAGGED)) === REVEALED;
+          if (open && board.adjacent[i] > 0) this.match.engine(seat).chord(cursor);
+          else this.match.engine(seat).reveal(cursor);
+          break;
+        }
+      }
+      return;
+    }
+  }
+
+  private moveCursor(seat: Seat, board: Board, dx: number, dy: number): void {
+    const wraps = TOPOLOGIES[this.match.snapshot.setup!.topology].wraps;
+    const step = (v: number, d: number, size: number) =>
+      wraps ? (v + d + size) % size : Math.max(0, Math.min(size - 1, v + d));
+    const { x, y } = this.cursors[seat];
+    this.cursors[seat] = { x: step(x, dx, board.cols), y: step(y, dy, board.rows) };
+  }
+
+  private resetCursors(): void {
+    const setup = this.match.snapshot.setup;
+    if (setup) this.cursors = [{ ...setup.startCell }, { ...setup.startCell }];
+  }
+
+  private newSetup(): MatchSetup {
+    const p = this.preset;
+    const names: [string, string] = [this.names[0].trim() || 'Player 1', this.names[1].trim() || 'Player 2'];
+    return createMatchSetup(this.mode, p.rows, p.cols, p.mines, this.topology, names);
+  }
+
+  private startHintFor(setup: MatchSetup): Hint {
+    if (this.startHint?.setup !== setup) {
+      this.startHint = {
+        setup,
+        hint: { ...setup.startCell, kind: 'safe', rule: 'opening', probability: 0, reason: 'Both boards start here.' },
+      };
+    }
+    return this.startHint.hint;
+  }
+}
@@ -0,0 +1,212 @@
+import { Component, OnDestroy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BoardComponent } from '../components/board/board.component';
+import { GameService } from '../services/game.service';
+import { ReplayService } from '../services/replay.service';
+import { ProbabilityMap, ProbabilityService } from '../services/probability.service';
+import { Subscription } from 'rxjs';
+import { GameState, GameStatus } from '../models/game-state';
+import { PostMortemComponent } from '../components/post-mortem/post-mortem.component';
+import { Move, Replay } from '../models/replay';
+
+/** Longest pause between two frames during playback, so idle stretches don't stall the viewer. */
+const MAX_GAP_MS = 2000;
+
+@Component({
+  selector: 'app-replay-page',
+  standalone: true,
+  imports: [CommonModule, BoardComponent, PostMortemComponent],
+  template: `
+  <div class="panel controls">
+    <div class="difficulty">
+      <button (click)="loadCurrent()" [disabled]="!hasCurrent">Current game</button>
+      <label class="file-button">
+        📂 Import JSON
+        <input type="file" accept="application/json,.json" (change)="importFile(fileInput)" #fileInput hidden>
+      </label>
+      <button (click)="exportJson()" [disabled]="!replay">💾 Export JSON</button>
+    </div>
+    <div class="stats" *ngIf="replay">
+      <span class="badge">{{ replay.difficulty }} {{ replay.rows }}×{{ replay.cols }} · {{ replay.mines }} 💣{{ replay.topology !== 'square' ? ' · ' + replay.topology : '' }}</span>
+      <span class="badge">{{ resultLabel }}</span>
+      <span class="badge" *ngIf="replay.practice">🧪 Practice</span>
+    </div>
+  </div>
+
+  <div class="panel" *ngIf="error"><span class="status lost" aria-live="polite">{{ error }}</span></div>
+
+  <div class="panel" *ngIf="replay && frames.length; else empty">
+    <div class="replay-controls">
+      <button (click)="seek(0)" aria-label="First move">⏮</button>
+      <button (click)="seek(index - 1)" aria-label="Previous move">◀</button>
+      <button (click)="togglePlay()" [attr.aria-label]="playing ? 'Pause' : 'Play'">{{ playing ? '⏸' : '▶️' }}</button>
+      <button (click)="seek(index + 1)" aria-label="Next move">▶</button>
+      <button (click)="seek(frames.length - 1)" aria-label="Last move">⏭</button>
+      <input #scrub type="range" min="0" [max]="frames.length - 1" [value]="index"
+             (input)="seek(+scrub.value)" aria-label="Scrub through moves">
+      <button (click)="toggleAnalysis()" [attr.aria-pressed]="analysis" title="Show mine probabilities for this position">🔬 Analysis</button>
+      <select #speedSelect (change)="speed = +speedSelect.value" aria-label="Playback speed">
+        <option *ngFor="let s of speeds" [value]="s" [selected]="s === speed">{{ s }}×</option>
+      </select>
+    </div>
+    <p class="status" aria-live="polite">
+      Step {{ index }} / {{ frames.length - 1 }} · {{ (moveTime / 1000) | number: '1.1-1' }}s
+      <ng-container *ngIf="currentMove as m"> · {{ describe(m) }}</ng-container>
+      <ng-container *ngIf="!currentMove && frame.loss?.cause === 'time'"> · ⌛ Time's up</ng-container>
+    </p>
+    <app-post-mortem *ngIf="frame.loss as loss" [loss]="loss"></app-post-mortem>
+    <app-board
+      [board]="frame.board"
+      [hint]="frame.hint"
+      [topology]="frame.topology"
+      [probabilities]="probabilities"
+      [lost]="!!frame.loss"
+      [interactive]="false">
+    </app-board>
+  </div>
+  <ng-template #empty>
+    <div class="panel" *ngIf="!error"><p>Finish or start a game, or import a replay file, to watch it here.</p></div>
+  </ng-template>
+  `,
+  styles: [`
+    .replay-controls { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-bottom: 10px; }
+    .replay-controls input[type=range] { flex: 1; min-width: 160px; }
+  `]
+})
+export class ReplayPageComponent implements OnDestroy {
+  private game = inject(GameService);
+  private replays = inject(ReplayService);
+  private probability = inject(ProbabilityService);
+
+  speeds = [0.5, 1, 2, 4, 8];
+  speed = 1;
+  replay: Replay | null = null;
+  frames: GameState[] = [];
+  index = 0;
+  playing = false;
+  error = '';
+  analysis = false;
+  probabilities: ProbabilityMap | null = null;
+  private playTimer?: ReturnType<typeof setTimeout>;
+  private probabilitySub?: Subscription;
+
+  constructor() { this.loadCurrent(); }
+
+  ngOnDestroy(): void {
+    this.pause();
+    this.probabilitySub?.unsubscribe();
+  }
+
+  get hasCurrent(): boolean { return this.game.canReplay; }
+  get frame(): GameState { return this.frames[this.index]; }
+  get currentMove(): Move | undefined { return this.index > 0 ? this.replay?.moves[this.index - 1] : undefined; }
+  get moveTime(): number { return this.frameTime(this.index); }
+  get resultLabel(): string {
+    const r = this.replay!;
+    const outcome = r.status === GameStatus.Won ? '🎉 Won' : r.status === GameStatus.Lost ? '💥 Lost' : '⏳ Unfinished';
+    return `${outcome} · ${(r.elapsedMs / 1000).toFixed(1)}s`;
+  }
+
+  loadCurrent(){
+    const replay = this.game.exportReplay();
+    if (replay) this.load(replay);
+  }
+
+  importFile(input: HTMLInputElement){
+    const file = input.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      try { this.load(this.replays.parse(text)); } catch (e) { this.fail(e); }
+      input.value = '';
+    });
+  }
+
+  exportJson(){
+    if (!this.replay) return;
+    const blob = new Blob([this.replays.serialize(this.replay)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `minesweeper-replay-${this.replay.difficulty.toLowerCase()}-${this.replay.seed.toString(36)}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  seek(i: number){
+    this.index = Math.max(0, Math.min(this.frames.length - 1, i));
+    if (this.index === this.frames.length - 1) this.pause();
+    this.refreshProbabilities();
+  }
+
+  toggleAnalysis(){
+    this.analysis = !this.analysis;
+    this.refreshProbabilities();
+  }
+
+  togglePlay(){
+    if (this.playing) { this.pause(); return; }
+    if (this.index === this.frames.length - 1) this.index = 0;
+    this.playing = true;
+    this.scheduleNext();
+  }
+
+  describe(m: Move): string {
+    const at = m.x !== undefined ? ` row ${m.y! + 1}, column ${m.x + 1}` : '';
+    switch (m.kind) {
+      case 'reveal': return `Reveal${at}`;
+      case 'flag': return `Flag${at}`;
+      case 'question': return `Question mark${at}`;
+      case 'chord': return `Chord${at}`;
+      case 'hint': return 'Hint';
+      case 'undo': return 'Undo';
+    }
+  }
+
+  private load(replay: Replay){
+    this.pause();
+    try {
+      this.frames = this.replays.frames(replay);
+      this.replay = replay;
+      this.index = 0;
+      this.error = '';
+      this.refreshProbabilities();
+    } catch (e) {
+      this.fail(e);
+    }
+  }
+
+  /** Probabilities for positions still in play; finished frames show the real mines instead. */
+  private refreshProbabilities(){
+    this.probabilitySub?.unsubscribe();
+    const f = this.frame;
+    if (!this.analysis || !f || (f.status !== GameStatus.Ready && f.status !== GameStatus.Playing)) {
+      this.probabilities = null;
+      return;
+    }
+    this.probabilitySub = this.probability.compute(f.board, f.mines, f.topology).subscribe(p => this.probabilities = p);
+  }
+
+  private fail(e: unknown){
+    this.error = e instanceof Error ? e.message : String(e);
+  }
+
+  private scheduleNext(){
+    if (!this.playing || !this.replay) return;
+    if (this.index >= this.frames.length - 1) { this.pause(); return; }
+    const gap = Math.min(MAX_GAP_MS, Math.max(0, this.frameTime(this.index + 1) - this.moveTime)) / this.speed;
+    this.playTimer = setTimeout(() => {
+      this.seek(this.index + 1);
+      this.scheduleNext();
+    }, gap);
+  }
+
+  /** Play time at frame `i`: its move's, or the final time for a closing time-out frame. */
+  private frameTime(i: number): number {
+    if (i === 0 || !this.replay) return 0;
+    return this.replay.moves[i - 1]?.t ?? this.replay.elapsedMs;
+  }
+
+  private pause(){
+    this.playing = false;
+    if (this.playTimer) { clearTimeout(this.playTimer); this.playTimer = undefined; }
+  }
+}
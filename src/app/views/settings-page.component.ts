@@ -0,0 +1,189 @@
+import { Component, HostListener, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SettingsService, keyLabel, normalizeKey } from '../services/settings.service';
+import { ThemeService } from '../services/theme.service';
+import { FeedbackService } from '../services/feedback.service';
+import { ProfileComponent } from '../components/profile/profile.component';
+import { KEY_ACTIONS, KeyAction, LONG_PRESS_LIMITS, MOTION_CHOICES } from '../models/settings';
+import { MotionChoice, THEMES, THEME_IDS, ThemeChoice } from '../models/theme';
+import { isOneOf } from '../utils/guards';
+
+const MOTION_LABELS: Record<MotionChoice, string> = {
+  system: 'Match system (reduced if the system asks for less motion)',
+  full: 'Full animations',
+  reduced: 'Reduced: no animations',
+};
+
+const ACTION_LABELS: Record<KeyAction, string> = {
+  reveal: 'Reveal (chords on a revealed number)',
+  flag: 'Flag / mark',
+  chord: 'Chord',
+};
+
+@Component({
+  selector: 'app-settings-page',
+  standalone: true,
+  imports: [CommonModule, ProfileComponent],
+  template: `
+  <div class="panel" *ngIf="settings$ | async as s">
+    <h2>⚙️ Settings</h2>
+
+    <h3>Keys</h3>
+    <p class="muted">Act on the focused cell. Arrows, Home/End, PageUp/PageDown and N stay with board navigation.</p>
+    <table>
+      <tbody>
+        <tr *ngFor="let action of actions">
+          <th scope="row">{{ actionLabel(action) }}</th>
+          <td>
+            <span class="key" *ngFor="let key of s.keys[action]">
+              <kbd>{{ keyLabel(key) }}</kbd>
+              <button class="remove" (click)="unbind(action, key)" [attr.aria-label]="'Unbind ' + keyLabel(key)">×</button>
+            </span>
+            <button (click)="capture(action)" [attr.aria-pressed]="capturing === action">
+              {{ capturing === action ? 'Press a key… (Esc cancels)' : '+ Add key' }}
+            </button>
+          </td>
+        </tr>
+      </tbody>
+    </table>
+    <p class="badge" *ngIf="keyMessage" aria-live="polite">{{ keyMessage }}</p>
+
+    <h3>Mouse & touch</h3>
+    <label class="toggle">
+      <input #clickChord type="checkbox" [checked]="s.clickChord" (change)="service.update({ clickChord: clickChord.checked })">
+      Flag-chord: clicking a revealed number chords it once its flags are placed
+    </label>
+    <label class="toggle">
+      <input #tapChord type="checkbox" [checked]="s.tapChord" (change)="service.update({ tapChord: tapChord.checked })">
+      Tapping a revealed number chords it
+    </label>
+    <label class="field">
+      Long-press to flag: {{ s.longPressMs }} ms
+      <input #longPress type="range" [min]="limits.min" [max]="limits.max" step="50" [value]="s.longPressMs"
+             (input)="service.update({ longPressMs: +longPress.value })" aria-label="Long-press duration in milliseconds">
+    </label>
+
+    <h3>Flags</h3>
+    <label class="toggle">
+      <input #noFlag type="checkbox" [checked]="s.noFlag" (change)="service.update({ noFlag: noFlag.checked })">
+      No-flag style: flagging is off; clear the board by revealing alone
+    </label>
+    <label class="toggle">
+      <input #question type="checkbox" [checked]="s.questionMarks" (change)="service.update({ questionMarks: question.checked })">
+      Question marks: flagging cycles 🚩 → ? → hidden
+    </label>
+
+    <h3>Sound & haptics</h3>
+    <p class="muted" *ngIf="!feedback.canPlay">This browser can't play game sounds.</p>
+    <label class="toggle">
+      <input #muted type="checkbox" [checked]="s.muted" (change)="service.update({ muted: muted.checked })">
+      Mute game sounds
+    </label>
+    <label class="field">
+      Volume: {{ s.volume * 100 | number: '1.0-0' }}%
+      <input #volume type="range" min="0" max="1" step="0.05" [value]="s.volume" [disabled]="s.muted"
+             (input)="service.update({ volume: +volume.value })" (change)="feedback.play('reveal')" aria-label="Volume">
+    </label>
+    <label class="toggle">
+      <input #haptics type="checkbox" [checked]="s.haptics" [disabled]="!feedback.canVibrate"
+             (change)="service.update({ haptics: haptics.checked })">
+      Vibrate on long-press flags, explosions and wins{{ feedback.canVibrate ? '' : ' (not supported on this device)' }}
+    </label>
+
+    <h3>Appearance</h3>
+    <label class="field">
+      Theme
+      <select #theme (change)="setTheme(theme.value)" aria-label="Theme">
+        <option value="system" [selected]="s.theme === 'system'">Match system (Classic when light, Dark when dark)</option>
+        <option *ngFor="let t of themes" [value]="t.id" [selected]="s.theme === t.id">{{ t.label }}</option>
+      </select>
+    </label>
+    <label class="toggle">
+      <input #markers type="checkbox" [checked]="s.markers" (change)="service.update({ markers: markers.checked })">
+      Shape markers next to numbers, so no number depends on color alone
+    </label>
+    <label class="field">
+      Motion
+      <select #motion (change)="setMotion(motion.value)" aria-label="Motion">
+        <option *ngFor="let m of motions" [value]="m" [selected]="s.motion === m">{{ motionLabel(m) }}</option>
+      </select>
+    </label>
+    <div class="preview" *ngIf="theme$ | async as t" aria-hidden="true">
+      <span class="sample" *ngFor="let color of t.theme.palette.numbers; let i = index" [style.color]="color">
+        {{ i + 1 }}<small *ngIf="t.markers">{{ t.theme.markers[i] }}</small>
+      </span>
+      <span class="sample">{{ t.theme.glyphs.flag }}</span>
+      <span class="sample">{{ t.theme.glyphs.mine }}</span>
+    </div>
+
+    <div class="actions">
+      <button (click)="service.reset()">Restore defaults</button>
+    </div>
+
+    <app-profile></app-profile>
+  </div>
+  `,
+  styles: [`
+    h2 { margin: 0 0 8px 0; }
+    h3 { margin: 18px 0 8px 0; }
+    .muted { color: var(--muted); margin: 0 0 8px 0; }
+    table { border-collapse: collapse; }
+    th, td { padding: 6px 10px; border-bottom: 1px solid var(--border); text-align: left; }
+    .key { display: inline-flex; align-items: center; gap: 2px; margin-right: 8px; }
+    .remove { padding: 0 6px; }
+    .toggle, .field { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .preview { display: flex; flex-wrap: wrap; gap: 6px; }
+    .sample {
+      display: inline-flex; align-items: center; justify-content: center; gap: 2px; min-width: 34px; height: 34px;
+      border-radius: 8px; background: var(--tile-revealed); border: 1px solid var(--tile-border); color: var(--glyph);
+      font-weight: 800;
+    }
+    .sample small { font-size: .6rem; }
+    .actions { margin-top: 16px; }
+  `]
+})
+export class SettingsPageComponent {
+  readonly service = inject(SettingsService);
+  readonly feedback = inject(FeedbackService);
+  readonly settings$ = this.service.settings$;
+  readonly actions = KEY_ACTIONS;
+  readonly limits = LONG_PRESS_LIMITS;
+  readonly theme$ = inject(ThemeService).state$;
+  readonly themes = THEME_IDS.map(id => THEMES[id]);
+  readonly motions = MOTION_CHOICES;
+  /** The action waiting for its next key press. */
+  capturing: KeyAction | null = null;
+  keyMessage = '';
+
+  actionLabel(action: KeyAction): string { return ACTION_LABELS[action]; }
+  keyLabel(key: string): string { return keyLabel(key); }
+  motionLabel(m: MotionChoice): string { return MOTION_LABELS[m]; }
+
+  setTheme(theme: string): void {
+    if (isOneOf<ThemeChoice>(theme, ['system', ...THEME_IDS])) this.service.update({ theme });
+  }
+
+  setMotion(motion: string): void {
+    if (isOneOf(motion, MOTION_CHOICES)) this.service.update({ motion });
+  }
+
+  capture(action: KeyAction): void {
+    this.capturing = this.capturing === action ? null : action;
+    this.keyMessage = '';
+  }
+
+  unbind(action: KeyAction, key: string): void { this.service.unbindKey(action, key); }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(ev: KeyboardEvent): void {
+    if (!this.capturing || ['Shift', 'Control', 'Alt', 'Meta'].includes(ev.key)) return;
+    ev.preventDefault();
+    const action = this.capturing;
+    this.capturing = null;
+    if (ev.key === 'Escape') return;
+    const label = keyLabel(normalizeKey(ev.key));
+    this.keyMessage = this.service.bindKey(action, ev.key)
+      ? `${label} now does: ${ACTION_LABELS[action]}`
+      : `${label} is used for board navigation and can't be bound.`;
+  }
+}
@@ -4,9 +4,15 @@ import 'zone.js';
 import { bootstrapApplication } from '@angular/platform-browser';
 import { provideRouter, withInMemoryScrolling } from '@angular/router';
 import { provideAnimations } from '@angular/platform-browser/animations';
-import { provideZoneChangeDetection } from '@angular/core';
+import { inject, provideAppInitializer, provideZoneChangeDetection } from '@angular/core';
 import { AppComponent } from './app/app.component';
 import { routes } from './app/routes';
+import { SessionService } from './app/services/session.service';
+import { ThemeService } from './app/services/theme.service';
+import { AchievementService } from './app/services/achievement.service';
+import { FeedbackService } from './app/services/feedback.service';
+import { PwaService } from './app/services/pwa.service';
+import { provideGamePlugin } from './app/services/game-plugin';
 
 bootstrapApplication(AppComponent, {
   // Use the default Zone.js-based change detection (remove ngZone: 'noop')
@@ -14,5 +20,13 @@ bootstrapApplication(AppComponent, {
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideAnimations(),
     provideRouter(routes, withInMemoryScrolling({ scrollPositionRestoration: 'enabled' })),
+    // Resume a saved in-progress game before the first view renders.
+    provideAppInitializer(() => inject(SessionService).start()),
+    // Colors in place before the first paint of the app.
+    provideAppInitializer(() => inject(ThemeService).start()),
+    // Offline caching and the update prompt; does nothing in development builds.
+    provideAppInitializer(() => inject(PwaService).start()),
+    provideGamePlugin(() => inject(AchievementService)),
+    provideGamePlugin(() => inject(FeedbackService)),
   ],
 }).catch((err) => console.error(err));
@@ -0,0 +1,140 @@
+/**
+ * Plays seeded games with a bot on the headless engine and reports win and guess rates per difficulty.
+ *
+ *   npm run simulate -- --games 500 --bot solver --difficulty Beginner,Expert --seed 7 --no-guess
+ *   npm run simulate -- --bot ./my-bot.js
+ */
+import { resolve } from 'path';
+import { BOTS, BotFactory } from '../src/app/engine/bots';
+import { SimulatedDifficulty, SimulationReport, simulate } from '../src/app/engine/simulate';
+import { isObject } from '../src/app/utils/guards';
+
+const DIFFICULTIES: SimulatedDifficulty[] = ['Beginner', 'Intermediate', 'Expert'];
+
+interface CliOptions {
+  games: number;
+  bot: string;
+  difficulties: SimulatedDifficulty[];
+  seed: number;
+  noGuess: boolean;
+  json: boolean;
+}
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games N            games per difficulty (default 200)
+  --bot NAME|PATH      the bot to play with (default solver):
+${BOTS.map(b => `                         ${b.name.padEnd(8)} ${b.description}`).join('\n')}
+                       or the path of a CommonJS module whose default export is a
+                       BotFactory (see src/app/engine/bots.ts)
+  --difficulty LIST    comma-separated, from ${DIFFICULTIES.join(', ')} (default all)
+  --seed N             first seed; game i uses a seed derived from it (default 1)
+  --no-guess           generate no-guess boards
+  --json               print the reports as JSON`;
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    games: 200, bot: 'solver', difficulties: DIFFICULTIES, seed: 1, noGuess: false, json: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i], value = () => {
+      const v = args[++i];
+      if (v === undefined) throw new Error(`${arg} needs a value.`);
+      return v;
+    };
+    const count = (v: string, min: number) => {
+      const n = Number(v);
+      if (!Number.isInteger(n) || n < min) throw new Error(`${arg} must be a whole number of at least ${min}.`);
+      return n;
+    };
+    switch (arg) {
+      case '--games': options.games = count(value(), 1); break;
+      case '--seed': options.seed = count(value(), 0); break;
+      case '--bot': options.bot = value(); break;
+      case '--difficulty':
+        options.difficulties = value().split(',').map(d => {
+          const match = DIFFICULTIES.find(k => k.toLowerCase() === d.trim().toLowerCase());
+          if (!match) throw new Error(`Unknown difficulty: ${d}.`);
+          return match;
+        });
+        break;
+      case '--no-guess': options.noGuess = true; break;
+      case '--json': options.json = true; break;
+      case '--help': console.log(USAGE); process.exit(0);
+      default: throw new Error(`Unknown option: ${arg}.`);
+    }
+  }
+  return options;
+}
+
+/** A built-in bot by name, else the default export of the module at that path. */
+function loadBot(spec: string): BotFactory {
+  const builtIn = BOTS.find(b => b.name === spec);
+  if (builtIn) return builtIn;
+  if (!/[\\/]|\.js$/.test(spec)) {
+    throw new Error(`Unknown bot: ${spec}. Bots: ${BOTS.map(b => b.name).join(', ')}, or the path of a bot module.`);
+  }
+  let loaded: unknown;
+  try {
+    loaded = require(resolve(spec));
+  } catch (e) {
+    throw new Error(`Could not load the bot module ${spec}: ${(e as Error).message.split('\n')[0]}`);
+  }
+  const bot = isObject(loaded) && 'default' in loaded ? loaded['default'] : loaded;
+  if (!isBotFactory(bot)) {
+    throw new Error(`${spec} must export a BotFactory (name, description, create) as its default.`);
+  }
+  return bot;
+}
+
+function isBotFactory(v: unknown): v is BotFactory {
+  return isObject(v) && typeof v['name'] === 'string' && typeof v['description'] === 'string'
+    && typeof v['create'] === 'function';
+}
+
+const percent = (r: number) => `${(r * 100).toFixed(1)}%`;
+
+function table(reports: SimulationReport[]): string {
+  const rows = [
+    ['Difficulty', 'Games', 'Wins', 'Win rate', 'Needed a guess', 'Won by logic alone', 'Avg guesses', 'Avg cleared'],
+    ...reports.map(r => [
+      r.difficulty, String(r.games), String(r.wins), percent(r.winRate), percent(r.guessRate),
+      percent(r.cleanWins / r.games), r.averageGuesses.toFixed(2), percent(r.averageCleared),
+    ]),
+  ];
+  const widths = rows[0].map((_, c) => Math.max(...rows.map(row => row[c].length)));
+  return rows.map(row => row.map((cell, c) => c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c])).join('  '))
+    .join('\n');
+}
+
+function main(): void {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  let bot: BotFactory;
+  try {
+    bot = loadBot(options.bot);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(2);
+  }
+
+  const reports = options.difficulties.map(difficulty => {
+    const started = Date.now();
+    const report = simulate({ difficulty, games: options.games, bot, seed: options.seed, noGuess: options.noGuess });
+    if (!options.json) console.error(`${difficulty}: ${options.games} games in ${Date.now() - started} ms`);
+    return report;
+  });
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+    return;
+  }
+  console.log(`\nBot: ${bot.name}${options.noGuess ? ' · no-guess boards' : ''} · seed ${options.seed}\n`);
+  console.log(table(reports));
+}
+
+main();